@@ -1,52 +1,153 @@
-import React, { useState, useRef } from 'react';
-import { TrafficModel } from './services/TrafficPhysics';
-import { SimulationConfig, SimulationStats } from './types';
+import React, { useState, useEffect } from 'react';
+import { SimulationClient } from './services/SimulationClient';
+import { SimulationConfig, SimulationStats, Incident, Scenario } from './types';
+import { ScenarioResult, applyScenario, decodeScenarioHash } from './services/Scenario';
+import { SCENARIO_PRESETS } from './services/ScenarioPresets';
+import { RecorderOptions, RecorderStatus, TrajectoryRecording } from './services/TrajectoryRecorder';
+import { EmissionMeter } from './services/Emissions';
+import { SafetyMonitor } from './services/Safety';
 import SimulationCanvas from './components/SimulationCanvas';
 import ControlPanel from './components/ControlPanel';
 import StatsPanel from './components/StatsPanel';
+import SpaceTimeDiagram from './components/SpaceTimeDiagram';
+import SafetyPanel from './components/SafetyPanel';
+import MeteringPanel from './components/MeteringPanel';
+import MacroPanel from './components/MacroPanel';
+import JamPanel from './components/JamPanel';
+import { Activity, Layers, ShieldAlert, TrafficCone, Waves } from 'lucide-react';
+
+const PLAYBACK_DEFAULTS = { isPaused: false, timeScale: 1.0, maxSpeed: false };
+
+// Scenario shared in the URL hash if there is a valid one, otherwise the first preset
+function initialScenario(): { scenario: Scenario; errors: string[] } {
+  const fromHash = decodeScenarioHash(window.location.hash);
+  if (fromHash?.scenario) return { scenario: fromHash.scenario, errors: [] };
+  return { scenario: SCENARIO_PRESETS[0], errors: fromHash ? fromHash.errors : [] };
+}
 
 const App: React.FC = () => {
-  const modelRef = useRef(new TrafficModel(5000));
+  const [initial] = useState(initialScenario);
+
+  // The model runs in a worker; the client relays config and snapshots
+  const [client] = useState(() => new SimulationClient(initial.scenario.config.roadLength, initial.scenario.config.seed));
   
-  // Default Config: "Research Baseline"
-  const [config, setConfig] = useState<SimulationConfig>({
-    inflowRate: 2000,
-    truckRatio: 0.15,
-    timeScale: 1.0,
-    isPaused: false,
-    roadLength: 5000,
-    politeness: 0.2, // Some politeness
-    safeTimeGap: 1.5, // Standard
-    maxAccel: 1.5, // Realistic comfort acceleration
-    accelerationNoise: 0.3 // Enough to cause ghost jams at high density
-  });
+  const [config, setConfig] = useState<SimulationConfig>(() => applyScenario(initial.scenario, PLAYBACK_DEFAULTS));
+  const [scenarioName, setScenarioName] = useState(initial.scenario.name);
+  const [scenarioErrors, setScenarioErrors] = useState<string[]>(initial.errors);
 
   const [stats, setStats] = useState<SimulationStats>({
+    time: 0,
     count: 0,
     avgSpeed: 0,
     density: 0,
     flow: 0,
-    points: []
+    points: [],
+    detectors: [],
+    detectorPoints: [],
+    platoons: { automated: 0, platoons: 0, meanSize: 0, maxSize: 0, sizes: [0] },
+    integration: { overlaps: 0, overlapEvents: 0, negativeGapSteps: 0, speedClamps: 0, minGap: null },
+    demand: 0,
+    emissions: new EmissionMeter().stats(0),
+    safety: new SafetyMonitor().stats(config.roadLength, config.safety),
+    control: { signals: [], meters: [], rampQueues: [] },
+    macro: null,
+    jams: { jams: [], events: [], formed: 0 }
   });
 
   const [history, setHistory] = useState<any[]>([]);
+  const [showSpaceTime, setShowSpaceTime] = useState(false);
+  const [showSafety, setShowSafety] = useState(false);
+  const [showMetering, setShowMetering] = useState(false);
+  const [showMacro, setShowMacro] = useState(false);
+  const [showJams, setShowJams] = useState(false);
+  const [placingIncident, setPlacingIncident] = useState(false);
+  const [recorderStatus, setRecorderStatus] = useState<RecorderStatus | null>(null);
+  const [recording, setRecording] = useState<TrajectoryRecording | null>(null);
 
   const handleStatsUpdate = (newStats: SimulationStats) => {
     setStats(newStats);
     setHistory(prev => {
-      const nw = [...prev, { time: Date.now(), flow: newStats.flow }];
+      const nw = [...prev, { time: Date.now(), flow: newStats.flow, demand: newStats.demand }];
       if (nw.length > 100) nw.shift(); // Longer history
       return nw;
     });
   };
 
+  useEffect(() => {
+    client.setConfig(config);
+  }, [client, config]);
+
+  useEffect(() => {
+    client.onStats = handleStatsUpdate;
+    return () => { client.onStats = null; };
+  }, [client]);
+
+  useEffect(() => {
+    client.onRecorder = (status, finished) => {
+      setRecorderStatus(status);
+      if (finished) setRecording(finished);
+    };
+    return () => { client.onRecorder = null; };
+  }, [client]);
+
+  const handleStartRecording = (options: RecorderOptions) => {
+    setRecording(null);
+    client.startRecording(options);
+  };
+
+
   const handleReset = () => {
-    modelRef.current.reset();
+    client.reset(config.seed, config.roadLength);
+    setHistory([]);
+  };
+
+  // Replaces the whole setup (keeping playback settings) and restarts the run
+  const loadScenario = (scenario: Scenario) => {
+    const next = applyScenario(scenario, config);
+    setConfig(next);
+    setScenarioName(scenario.name);
+    setScenarioErrors([]);
+    // Config before reset so the restarted model never steps with the old setup
+    client.setConfig(next);
+    client.reset(next.seed, next.roadLength);
     setHistory([]);
   };
 
+  const handleScenarioResult = (result: ScenarioResult) => {
+    if (result.scenario) loadScenario(result.scenario);
+    else setScenarioErrors(result.errors);
+  };
+
+  // Shared link pasted into an open tab
+  useEffect(() => {
+    const onHashChange = () => {
+      const result = decodeScenarioHash(window.location.hash);
+      if (result) handleScenarioResult(result);
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [config]);
+
+  const nextIncidentId = () => config.incidents.reduce((max, inc) => Math.max(max, inc.id), 0) + 1;
+
   const handleAccident = () => {
-    modelRef.current.triggerAccident();
+    client.triggerAccident(nextIncidentId()).then(incident => {
+      if (incident) setConfig(prev => ({ ...prev, incidents: [...prev.incidents, incident] }));
+    });
+  };
+
+  // Canvas click while in placement mode
+  const handlePlaceIncident = (position: number, lane: number) => {
+    const incident: Incident = {
+      id: nextIncidentId(),
+      position: Math.round(position),
+      lanes: [lane],
+      startTime: Math.round(client.latest?.time ?? stats.time),
+      duration: 300,
+      rubberneckSpeed: null
+    };
+    setConfig(prev => ({ ...prev, incidents: [...prev.incidents, incident] }));
+    setPlacingIncident(false);
   };
 
   return (
@@ -66,6 +167,38 @@ const App: React.FC = () => {
               <p className="text-[10px] text-slate-400">Microscopic Traffic Flow Research Tool</p>
           </div>
         </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowJams(!showJams)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-semibold transition ${showJams ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+          >
+            <Waves size={14} /> Jams{stats.jams.jams.length > 0 && <span className="text-red-400">({stats.jams.jams.length})</span>}
+          </button>
+          <button
+            onClick={() => setShowMacro(!showMacro)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-semibold transition ${showMacro ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+          >
+            <Layers size={14} /> Macro
+          </button>
+          <button
+            onClick={() => setShowMetering(!showMetering)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-semibold transition ${showMetering ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+          >
+            <TrafficCone size={14} /> Control
+          </button>
+          <button
+            onClick={() => setShowSafety(!showSafety)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-semibold transition ${showSafety ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+          >
+            <ShieldAlert size={14} /> Safety{stats.safety.counts.CRASH > 0 && <span className="text-red-400">({stats.safety.counts.CRASH})</span>}
+          </button>
+          <button
+            onClick={() => setShowSpaceTime(!showSpaceTime)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-semibold transition ${showSpaceTime ? 'bg-blue-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+          >
+            <Activity size={14} /> Space-Time
+          </button>
+        </div>
       </header>
 
       {/* Main Layout */}
@@ -78,6 +211,20 @@ const App: React.FC = () => {
             setConfig={setConfig} 
             onReset={handleReset}
             onAccident={handleAccident}
+            simTime={stats.time}
+            placingIncident={placingIncident}
+            onTogglePlaceIncident={() => setPlacingIncident(!placingIncident)}
+            scenarioName={scenarioName}
+            setScenarioName={setScenarioName}
+            scenarioErrors={scenarioErrors}
+            onLoadScenario={loadScenario}
+            onImportScenario={handleScenarioResult}
+            recorderStatus={recorderStatus}
+            recording={recording}
+            onStartRecording={handleStartRecording}
+            onStopRecording={() => client.stopRecording()}
+            fdPoints={stats.points}
+            detectorFdPoints={stats.detectorPoints}
           />
         </div>
 
@@ -89,14 +236,50 @@ const App: React.FC = () => {
           </div>
           
           <SimulationCanvas 
-            model={modelRef.current} 
+            client={client} 
             config={config} 
-            onStatsUpdate={handleStatsUpdate} 
+            jams={stats.jams.jams}
+            onPlaceIncident={placingIncident ? handlePlaceIncident : undefined}
           />
           
+          {/* Space-Time Diagram */}
+          {showSpaceTime && (
+            <div className="h-64 bg-slate-900 border-t border-slate-800 p-2 z-10">
+              <SpaceTimeDiagram client={client} />
+            </div>
+          )}
+
+          {/* Surrogate Safety */}
+          {showSafety && (
+            <div className="h-48 bg-slate-900 border-t border-slate-800 p-2 z-10">
+              <SafetyPanel safety={stats.safety} />
+            </div>
+          )}
+
+          {/* Signals and Ramp Metering */}
+          {showMetering && (
+            <div className="h-48 bg-slate-900 border-t border-slate-800 p-2 z-10">
+              <MeteringPanel control={stats.control} meters={config.rampMeters} signals={config.signals} />
+            </div>
+          )}
+
+          {/* Macroscopic (CTM) vs microscopic density */}
+          {showMacro && (
+            <div className="h-48 bg-slate-900 border-t border-slate-800 p-2 z-10">
+              <MacroPanel macro={stats.macro} config={config.macro} lanes={config.lanes} />
+            </div>
+          )}
+
+          {/* Jams and shockwaves */}
+          {showJams && (
+            <div className="h-48 bg-slate-900 border-t border-slate-800 p-2 z-10">
+              <JamPanel jams={stats.jams} />
+            </div>
+          )}
+
           {/* Bottom Analysis Panel */}
           <div className="h-48 bg-slate-900 border-t border-slate-800 p-2 z-10">
-             <StatsPanel stats={stats} history={history} />
+             <StatsPanel stats={stats} history={history} lanes={config.lanes} />
           </div>
         </div>
       </main>
@@ -1,21 +1,386 @@
-import React, { useState } from 'react';
-import { SimulationConfig } from '../types';
-import { Play, Pause, AlertTriangle, RefreshCw, Settings, ChevronDown, ChevronUp } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { SimulationConfig, Scenario, BoundaryCondition, CarFollowingModelType, IntegrationScheme, DetectorConfig, OnRampConfig, OffRampConfig, SpeedLimitZone, VslConfig, Incident, AutomationParams, SafetyConfig, DemandProfile, DemandPoint, DemandInterpolation, SignalConfig, SignalPlanType, RampMeterConfig, RampMeterAlgorithm, LaneChangeParams, LaneChangeRules, VehicleClassConfig, VehicleType, Distribution, DistributionType, MacroConfig, JamDetectionConfig } from '../types';
+import { MIN_LANES, MAX_LANES, maxRingVehicles } from '../services/TrafficPhysics';
+import { ScenarioResult, toScenario, scenarioJson, parseScenarioJson, encodeScenarioHash } from '../services/Scenario';
+import { SCENARIO_PRESETS } from '../services/ScenarioPresets';
+import { DEFAULT_VEHICLE_CLASSES, isHeavy, normal, uniform, empirical, withType } from '../services/VehicleClasses';
+import { fitTriangularFd, waveSpeed } from '../services/CellTransmission';
+import { RecorderOptions, RecorderStatus, TrajectoryRecording, ngsimCsv, highDCsv, encodeTrajectoryBinary } from '../services/TrajectoryRecorder';
+import { Play, Pause, AlertTriangle, RefreshCw, Settings, ChevronDown, ChevronUp, Radio, Plus, X, GitMerge, Gauge, Crosshair, Cpu, FastForward, FolderOpen, Download, Upload, Link2, Video, Square, TrendingUp, ShieldAlert, TrafficCone, Truck, Layers, Waves } from 'lucide-react';
+
+type ModelParamBlock = 'idm' | 'gipps' | 'ovm' | 'krauss' | 'acc';
+
+interface ModelParamField {
+  block: ModelParamBlock;
+  key: string;
+  label: string;
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const MODEL_LABELS: Record<CarFollowingModelType, string> = {
+  [CarFollowingModelType.IDM]: 'IDM',
+  [CarFollowingModelType.GIPPS]: 'Gipps',
+  [CarFollowingModelType.OVM]: 'Optimal Velocity',
+  [CarFollowingModelType.KRAUSS]: 'Krauss (SUMO)',
+  [CarFollowingModelType.ACC]: 'ACC / IDM+'
+};
+
+const INTEGRATOR_LABELS: Record<IntegrationScheme, string> = {
+  [IntegrationScheme.EULER]: 'Euler (semi-implicit)',
+  [IntegrationScheme.BALLISTIC]: 'Ballistic',
+  [IntegrationScheme.RK4]: 'Runge-Kutta 4'
+};
+
+const TIME_STEPS = [1 / 120, 1 / 60, 1 / 30, 0.1, 0.2, 0.5, 1.0]; // s
+
+const IDM_FIELDS: ModelParamField[] = [
+  { block: 'idm', key: 'delta', label: 'Exponent (δ)', unit: '', min: 1, max: 8, step: 1 },
+  { block: 'idm', key: 'minGap', label: 'Jam distance (s0)', unit: 'm', min: 0.5, max: 5, step: 0.5 },
+  { block: 'idm', key: 'comfortDecel', label: 'Comfortable decel (b)', unit: 'm/s²', min: 0.5, max: 5, step: 0.5 }
+];
+
+const MODEL_FIELDS: Record<CarFollowingModelType, ModelParamField[]> = {
+  [CarFollowingModelType.IDM]: IDM_FIELDS,
+  [CarFollowingModelType.GIPPS]: [
+    { block: 'gipps', key: 'reactionTime', label: 'Reaction time (τ)', unit: 's', min: 0.3, max: 2, step: 0.1 },
+    { block: 'gipps', key: 'decel', label: 'Max decel (b)', unit: 'm/s²', min: 1, max: 8, step: 0.5 },
+    { block: 'gipps', key: 'leaderDecel', label: 'Leader decel estimate', unit: 'm/s²', min: 1, max: 8, step: 0.5 }
+  ],
+  [CarFollowingModelType.OVM]: [
+    { block: 'ovm', key: 'relaxationTime', label: 'Relaxation time (τ)', unit: 's', min: 0.2, max: 3, step: 0.05 },
+    { block: 'ovm', key: 'transitionWidth', label: 'Transition width (Δs)', unit: 'm', min: 2, max: 40, step: 1 },
+    { block: 'ovm', key: 'formFactor', label: 'Form factor (β)', unit: '', min: 0, max: 4, step: 0.1 }
+  ],
+  [CarFollowingModelType.KRAUSS]: [
+    { block: 'krauss', key: 'reactionTime', label: 'Reaction time (τ)', unit: 's', min: 0.3, max: 2, step: 0.1 },
+    { block: 'krauss', key: 'decel', label: 'Max decel (b)', unit: 'm/s²', min: 1, max: 8, step: 0.5 },
+    { block: 'krauss', key: 'sigma', label: 'Dawdling (σ)', unit: '', min: 0, max: 1, step: 0.05 }
+  ],
+  [CarFollowingModelType.ACC]: [
+    ...IDM_FIELDS,
+    { block: 'acc', key: 'coolness', label: 'Coolness (c)', unit: '', min: 0, max: 1, step: 0.01 }
+  ]
+};
+
+const VEHICLE_TYPE_LABELS: Partial<Record<VehicleType, string>> = {
+  [VehicleType.CAR]: 'Car',
+  [VehicleType.VAN]: 'Van',
+  [VehicleType.MOTORCYCLE]: 'Motorcycle',
+  [VehicleType.TRUCK]: 'Truck (heavy)',
+  [VehicleType.BUS]: 'Bus (heavy)'
+};
+
+type ClassParam = 'length' | 'desiredSpeed' | 'timeGap' | 'accel' | 'decel';
+
+const CLASS_PARAMS: { key: ClassParam; label: string; step: number }[] = [
+  { key: 'length', label: 'Length m', step: 0.5 },
+  { key: 'desiredSpeed', label: 'Speed km/h', step: 5 },
+  { key: 'timeGap', label: 'T ×', step: 0.05 },
+  { key: 'accel', label: 'a ×', step: 0.05 },
+  { key: 'decel', label: 'b ×', step: 0.05 }
+];
+
+// Large CSV exports come in several parts (one string could exceed the maximum string length)
+function downloadFile(name: string, parts: Iterable<BlobPart>, type: string) {
+  const url = URL.createObjectURL(new Blob(Array.from(parts), { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 interface Props {
   config: SimulationConfig;
   setConfig: React.Dispatch<React.SetStateAction<SimulationConfig>>;
   onReset: () => void;
   onAccident: () => void;
+  simTime: number;
+  placingIncident: boolean;
+  onTogglePlaceIncident: () => void;
+  scenarioName: string;
+  setScenarioName: (name: string) => void;
+  scenarioErrors: string[];
+  onLoadScenario: (scenario: Scenario) => void;
+  onImportScenario: (result: ScenarioResult) => void;
+  recorderStatus: RecorderStatus | null;
+  recording: TrajectoryRecording | null;
+  onStartRecording: (options: RecorderOptions) => void;
+  onStopRecording: () => void;
+  fdPoints: { k: number; q: number }[];         // Whole-road fundamental diagram samples
+  detectorFdPoints: { k: number; q: number }[]; // Loop detector intervals
 }
 
-const ControlPanel: React.FC<Props> = ({ config, setConfig, onReset, onAccident }) => {
+const ControlPanel: React.FC<Props> = ({
+  config, setConfig, onReset, onAccident, simTime, placingIncident, onTogglePlaceIncident,
+  scenarioName, setScenarioName, scenarioErrors, onLoadScenario, onImportScenario,
+  recorderStatus, recording, onStartRecording, onStopRecording, fdPoints, detectorFdPoints
+}) => {
+  const [showScenario, setShowScenario] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [showDetectors, setShowDetectors] = useState(false);
+  const [showRamps, setShowRamps] = useState(false);
+  const [showSpeed, setShowSpeed] = useState(false);
+  const [showIncidents, setShowIncidents] = useState(false);
+  const [showRecorder, setShowRecorder] = useState(false);
+  const [showDemand, setShowDemand] = useState(false);
+  const [showSafety, setShowSafety] = useState(false);
+  const [showControl, setShowControl] = useState(false);
+  const [showClasses, setShowClasses] = useState(false);
+  const [showMacro, setShowMacro] = useState(false);
+  const [showJams, setShowJams] = useState(false);
+  const [recordInterval, setRecordInterval] = useState(0.1);
+  const [recordFrom, setRecordFrom] = useState('');
+  const [recordTo, setRecordTo] = useState('');
 
   const handleChange = (key: keyof SimulationConfig, value: number) => {
     setConfig(prev => ({ ...prev, [key]: value }));
   };
 
+  // Keeps a per-lane demand split in step with the lane count, and the ring vehicles within the road
+  const changeLanes = (lanes: number) => {
+    setConfig(prev => {
+      const split = prev.demand.laneSplit;
+      const laneSplit = split && Array.from({ length: lanes }, (_, l) => split[l] ?? 1);
+      const ringVehicles = Math.min(prev.ringVehicles, maxRingVehicles(prev.roadLength, lanes));
+      return { ...prev, lanes, ringVehicles, demand: { ...prev.demand, laneSplit } };
+    });
+  };
+
+  const changeRoadLength = (roadLength: number) => {
+    setConfig(prev => ({ ...prev, roadLength, ringVehicles: Math.min(prev.ringVehicles, maxRingVehicles(roadLength, prev.lanes)) }));
+  };
+
+  const updateDetector = (id: number, patch: Partial<DetectorConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      detectors: prev.detectors.map(d => d.id === id ? { ...d, ...patch } : d)
+    }));
+  };
+
+  const addDetector = () => {
+    setConfig(prev => {
+      const id = prev.detectors.reduce((max, d) => Math.max(max, d.id), 0) + 1;
+      return { ...prev, detectors: [...prev.detectors, { id, position: prev.roadLength / 2, interval: 60 }] };
+    });
+  };
+
+  const removeDetector = (id: number) => {
+    setConfig(prev => ({ ...prev, detectors: prev.detectors.filter(d => d.id !== id) }));
+  };
+
+  const updateOnRamp = (id: number, patch: Partial<OnRampConfig>) => {
+    setConfig(prev => ({ ...prev, onRamps: prev.onRamps.map(r => r.id === id ? { ...r, ...patch } : r) }));
+  };
+
+  const updateOffRamp = (id: number, patch: Partial<OffRampConfig>) => {
+    setConfig(prev => ({ ...prev, offRamps: prev.offRamps.map(r => r.id === id ? { ...r, ...patch } : r) }));
+  };
+
+  const addOnRamp = () => {
+    setConfig(prev => {
+      const id = prev.onRamps.reduce((max, r) => Math.max(max, r.id), 0) + 1;
+      return { ...prev, onRamps: [...prev.onRamps, { id, position: prev.roadLength * 0.4, length: 300, inflowRate: 600 }] };
+    });
+  };
+
+  const addOffRamp = () => {
+    setConfig(prev => {
+      const id = prev.offRamps.reduce((max, r) => Math.max(max, r.id), 0) + 1;
+      return { ...prev, offRamps: [...prev.offRamps, { id, position: prev.roadLength * 0.7, share: 0.15 }] };
+    });
+  };
+
+  const updateZone = (id: number, patch: Partial<SpeedLimitZone>) => {
+    setConfig(prev => ({ ...prev, speedLimits: prev.speedLimits.map(z => z.id === id ? { ...z, ...patch } : z) }));
+  };
+
+  const addZone = () => {
+    setConfig(prev => {
+      const id = prev.speedLimits.reduce((max, z) => Math.max(max, z.id), 0) + 1;
+      return { ...prev, speedLimits: [...prev.speedLimits, { id, start: prev.roadLength * 0.5, end: prev.roadLength * 0.7, limit: 80 }] };
+    });
+  };
+
+  const updateSignal = (id: number, patch: Partial<SignalConfig>) => {
+    setConfig(prev => ({ ...prev, signals: prev.signals.map(s => s.id === id ? { ...s, ...patch } : s) }));
+  };
+
+  const addSignal = () => {
+    setConfig(prev => {
+      const id = prev.signals.reduce((max, s) => Math.max(max, s.id), 0) + 1;
+      const signal: SignalConfig = {
+        id, rampId: null, position: prev.roadLength * 0.6, plan: SignalPlanType.FIXED,
+        green: 30, red: 30, offset: 0, maxGreen: 60, extension: 3
+      };
+      return { ...prev, signals: [...prev.signals, signal] };
+    });
+  };
+
+  const updateMeter = (id: number, patch: Partial<RampMeterConfig>) => {
+    setConfig(prev => ({ ...prev, rampMeters: prev.rampMeters.map(m => m.id === id ? { ...m, ...patch } : m) }));
+  };
+
+  // New meters take the first unmetered on-ramp and the first detector downstream of its merge
+  const addMeter = () => {
+    setConfig(prev => {
+      const ramp = prev.onRamps.find(r => !prev.rampMeters.some(m => m.rampId === r.id));
+      if (!ramp || prev.detectors.length === 0) return prev;
+      const detector = prev.detectors.find(d => d.position > ramp.position + ramp.length) ?? prev.detectors[0];
+      const id = prev.rampMeters.reduce((max, m) => Math.max(max, m.id), 0) + 1;
+      const meter: RampMeterConfig = {
+        id, rampId: ramp.id, detectorId: detector.id, algorithm: RampMeterAlgorithm.ALINEA,
+        targetOccupancy: 20, gain: 70, proportionalGain: 60, minRate: 200, maxRate: 1800
+      };
+      return { ...prev, rampMeters: [...prev.rampMeters, meter] };
+    });
+  };
+
+  const updateClass = (id: number, patch: Partial<VehicleClassConfig>) => {
+    setConfig(prev => ({ ...prev, vehicleClasses: prev.vehicleClasses.map(c => c.id === id ? { ...c, ...patch } : c) }));
+  };
+
+  const updateClassParam = (cls: VehicleClassConfig, key: ClassParam, d: Distribution) => {
+    setConfig(prev => ({ ...prev, vehicleClasses: prev.vehicleClasses.map(c => c.id === cls.id ? { ...c, [key]: d } : c) }));
+  };
+
+  const addClass = () => {
+    setConfig(prev => {
+      const id = prev.vehicleClasses.reduce((max, c) => Math.max(max, c.id), 0) + 1;
+      const cls: VehicleClassConfig = { ...DEFAULT_VEHICLE_CLASSES[0], id, name: `Class ${id}`, shareWithinGroup: 0.1, color: '#38bdf8' };
+      return { ...prev, vehicleClasses: [...prev.vehicleClasses, cls] };
+    });
+  };
+
+  // Share of all vehicles: the heavy share splits the groups, shareWithinGroup splits each group
+  const trafficShare = (cls: VehicleClassConfig) => {
+    const group = config.vehicleClasses.filter(c => isHeavy(c.type) === isHeavy(cls.type));
+    const total = group.reduce((sum, c) => sum + c.shareWithinGroup, 0);
+    const groupShare = isHeavy(cls.type) ? config.truckRatio : 1 - config.truckRatio;
+    return total > 0 ? (cls.shareWithinGroup / total) * groupShare : 0;
+  };
+
+  const updateDemand = (patch: Partial<DemandProfile>) => {
+    setConfig(prev => ({ ...prev, demand: { ...prev.demand, ...patch } }));
+  };
+
+  // Points stay sorted by time, as the profile requires
+  const updateDemandPoint = (index: number, patch: Partial<DemandPoint>) => {
+    setConfig(prev => {
+      const points = prev.demand.points.map((p, i) => i === index ? { ...p, ...patch } : p);
+      points.sort((a, b) => a.time - b.time);
+      return { ...prev, demand: { ...prev.demand, points } };
+    });
+  };
+
+  const addDemandPoint = () => {
+    setConfig(prev => {
+      const last = prev.demand.points[prev.demand.points.length - 1];
+      const point = last
+        ? { ...last, time: last.time + 600 }
+        : { time: 0, inflowRate: prev.inflowRate, truckRatio: prev.truckRatio };
+      return { ...prev, demand: { ...prev.demand, points: [...prev.demand.points, point] } };
+    });
+  };
+
+  const removeDemandPoint = (index: number) => {
+    setConfig(prev => ({ ...prev, demand: { ...prev.demand, points: prev.demand.points.filter((_, i) => i !== index) } }));
+  };
+
+  const updateModelParam = (block: ModelParamBlock, key: string, value: number | boolean) => {
+    setConfig(prev => ({ ...prev, [block]: { ...prev[block], [key]: value } }));
+  };
+
+  const updateAutomation = (patch: Partial<AutomationParams>) => {
+    setConfig(prev => ({ ...prev, automation: { ...prev.automation, ...patch } }));
+  };
+
+  const updateLaneChange = (patch: Partial<LaneChangeParams>) => {
+    setConfig(prev => ({ ...prev, laneChange: { ...prev.laneChange, ...patch } }));
+  };
+
+  const updateSafety = (patch: Partial<SafetyConfig>) => {
+    setConfig(prev => ({ ...prev, safety: { ...prev.safety, ...patch } }));
+  };
+
+  const updateMacro = (patch: Partial<MacroConfig>) => {
+    setConfig(prev => ({ ...prev, macro: { ...prev.macro, ...patch } }));
+  };
+
+  const updateJamDetection = (patch: Partial<JamDetectionConfig>) => {
+    setConfig(prev => ({ ...prev, jamDetection: { ...prev.jamDetection, ...patch } }));
+  };
+
+  // Detector intervals sample congested states better than whole-road averages
+  const fitPoints = detectorFdPoints.length >= 10 ? detectorFdPoints : fdPoints;
+  const fitMacro = () => {
+    const fd = fitTriangularFd(fitPoints, config.lanes, config.macro);
+    if (fd) updateMacro(fd);
+  };
+
+  const updateVsl = (patch: Partial<VslConfig>) => {
+    setConfig(prev => ({ ...prev, vsl: { ...prev.vsl, ...patch } }));
+  };
+
+  const updateIncident = (id: number, patch: Partial<Incident>) => {
+    setConfig(prev => ({ ...prev, incidents: prev.incidents.map(inc => inc.id === id ? { ...inc, ...patch } : inc) }));
+  };
+
+  const toggleIncidentLane = (inc: Incident, lane: number) => {
+    const lanes = inc.lanes.includes(lane) ? inc.lanes.filter(l => l !== lane) : [...inc.lanes, lane].sort();
+    updateIncident(inc.id, { lanes });
+  };
+
+  const incidentStatus = (inc: Incident) => {
+    if (simTime < inc.startTime) return { label: 'pending', className: 'text-slate-500' };
+    if (simTime < inc.startTime + inc.duration) return { label: 'active', className: 'text-red-400' };
+    return { label: 'cleared', className: 'text-slate-600' };
+  };
+
+  const fileStem = scenarioName.trim().replace(/[^\w-]+/g, '-').toLowerCase() || 'scenario';
+
+  const exportScenario = () => {
+    downloadFile(`${fileStem}.json`, [scenarioJson(toScenario(config, scenarioName))], 'application/json');
+  };
+
+  const importScenario = (file: File | undefined) => {
+    if (!file) return;
+    file.text().then(text => onImportScenario(parseScenarioJson(text)));
+    if (fileInput.current) fileInput.current.value = ''; // Allow re-importing the same file
+  };
+
+  // Puts the scenario into the URL hash and copies the link
+  const shareScenario = () => {
+    window.history.replaceState(null, '', `#${encodeScenarioHash(toScenario(config, scenarioName))}`);
+    navigator.clipboard?.writeText(window.location.href).then(() => {
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    }).catch(() => {});
+  };
+
+  const startRecording = () => {
+    onStartRecording({
+      interval: recordInterval,
+      start: recordFrom === '' ? simTime : Number(recordFrom),
+      end: recordTo === '' ? null : Number(recordTo)
+    });
+  };
+
+  const recorderLabel = () => {
+    if (!recorderStatus) return 'Not recording';
+    const rows = `${recorderStatus.rows.toLocaleString()} rows`;
+    if (recorderStatus.state === 'waiting') return 'Waiting for start time...';
+    if (recorderStatus.state === 'recording') return `Recording · ${rows}`;
+    return `Finished · ${rows}${recorderStatus.truncated ? ' (row limit reached)' : ''}`;
+  };
+
+  const numberInputClass = "w-14 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 text-right";
+
   return (
     <div className="bg-slate-800 p-4 rounded-lg shadow-lg border border-slate-700 flex flex-col gap-4 w-full md:w-80 h-full overflow-y-auto custom-scrollbar">
       {/* Main Controls */}
@@ -40,17 +405,116 @@ const ControlPanel: React.FC<Props> = ({ config, setConfig, onReset, onAccident
         </div>
       </div>
 
+      {/* Scenario files and presets */}
+      <button 
+        onClick={() => setShowScenario(!showScenario)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><FolderOpen size={12} /> Scenario: {scenarioName}</span>
+        {showScenario ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {(showScenario || scenarioErrors.length > 0) && (
+        <div className="space-y-2 text-[10px] text-slate-400 animate-in fade-in slide-in-from-top-2 duration-300">
+          <label className="flex justify-between items-center text-xs font-sans">
+            <span>Preset</span>
+            <select
+              value=""
+              onChange={(e) => onLoadScenario(SCENARIO_PRESETS[Number(e.target.value)])}
+              className="w-40 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+            >
+              <option value="" disabled>Load preset...</option>
+              {SCENARIO_PRESETS.map((p, i) => <option key={p.name} value={i} title={p.description}>{p.name}</option>)}
+            </select>
+          </label>
+          <label className="flex justify-between items-center text-xs font-sans">
+            <span>Name</span>
+            <input
+              type="text" value={scenarioName}
+              onChange={(e) => setScenarioName(e.target.value)}
+              className="w-40 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+            />
+          </label>
+          <div className="grid grid-cols-3 gap-1">
+            <button onClick={() => fileInput.current?.click()} className="flex items-center justify-center gap-1 py-1 border border-slate-600 rounded text-slate-400 hover:text-white" title="Load a scenario JSON file">
+              <Upload size={12} /> Import
+            </button>
+            <button onClick={exportScenario} className="flex items-center justify-center gap-1 py-1 border border-slate-600 rounded text-slate-400 hover:text-white" title="Save the current setup as JSON">
+              <Download size={12} /> Export
+            </button>
+            <button onClick={shareScenario} className="flex items-center justify-center gap-1 py-1 border border-slate-600 rounded text-slate-400 hover:text-white" title="Copy a link that reproduces this setup">
+              <Link2 size={12} /> {linkCopied ? 'Copied' : 'Link'}
+            </button>
+          </div>
+          <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={(e) => importScenario(e.target.files?.[0])} />
+          {scenarioErrors.length > 0 && (
+            <div className="bg-red-500/10 border border-red-500/50 rounded p-2 text-red-300 font-mono space-y-0.5">
+              <div className="font-sans font-semibold">Scenario not loaded:</div>
+              {scenarioErrors.slice(0, 8).map(err => <div key={err}>{err}</div>)}
+              {scenarioErrors.length > 8 && <div>...and {scenarioErrors.length - 8} more</div>}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Traffic Flow Config */}
       <div className="space-y-4">
         <div className="bg-slate-700/30 p-3 rounded border border-slate-700/50">
           <label className="flex justify-between text-xs font-semibold text-slate-300 mb-2 uppercase tracking-wide">
-            Inflow Rate (Q)
+            Lanes
+            <span className="text-slate-200">{config.lanes}</span>
+          </label>
+          <input 
+            type="range" 
+            min={MIN_LANES} 
+            max={MAX_LANES} 
+            step="1"
+            value={config.lanes}
+            onChange={(e) => changeLanes(Number(e.target.value))}
+            className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-slate-400"
+          />
+        </div>
+
+        <div className="bg-slate-700/30 p-3 rounded border border-slate-700/50">
+          <label className="flex justify-between items-center text-xs font-semibold text-slate-300 mb-2 uppercase tracking-wide">
+            Boundary
+            <select
+              value={config.boundary}
+              onChange={(e) => setConfig(prev => ({ ...prev, boundary: e.target.value as BoundaryCondition }))}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 normal-case font-normal"
+            >
+              <option value={BoundaryCondition.OPEN}>Open road</option>
+              <option value={BoundaryCondition.RING}>Ring road</option>
+            </select>
+          </label>
+          {config.boundary === BoundaryCondition.RING && (
+            <>
+              <label className="flex justify-between text-[10px] text-slate-400 mb-1">
+                <span>Vehicles (applied on reset)</span>
+                <span className="text-slate-200">{config.ringVehicles} ({(config.ringVehicles / (config.roadLength / 1000)).toFixed(1)} veh/km)</span>
+              </label>
+              <input 
+                type="range" 
+                min="10" 
+                max={maxRingVehicles(config.roadLength, config.lanes)} 
+                step="10"
+                value={config.ringVehicles}
+                onChange={(e) => handleChange('ringVehicles', Number(e.target.value))}
+                className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-slate-400"
+              />
+            </>
+          )}
+        </div>
+
+        <div className={`bg-slate-700/30 p-3 rounded border border-slate-700/50 ${config.boundary === BoundaryCondition.RING || config.demand.enabled ? 'opacity-40 pointer-events-none' : ''}`}>
+          <label className="flex justify-between text-xs font-semibold text-slate-300 mb-2 uppercase tracking-wide">
+            Inflow Rate (Q){config.demand.enabled && ' · profile'}
             <span className="text-blue-400">{config.inflowRate} veh/h</span>
           </label>
           <input 
             type="range" 
             min="500" 
-            max="3000" 
+            max={Math.max(3000, 1200 * config.lanes)} 
             step="100"
             value={config.inflowRate}
             onChange={(e) => handleChange('inflowRate', Number(e.target.value))}
@@ -64,7 +528,7 @@ const ControlPanel: React.FC<Props> = ({ config, setConfig, onReset, onAccident
 
         <div className="bg-slate-700/30 p-3 rounded border border-slate-700/50">
           <label className="flex justify-between text-xs font-semibold text-slate-300 mb-2 uppercase tracking-wide">
-            Truck Ratio
+            Heavy Vehicles
             <span className="text-purple-400">{(config.truckRatio * 100).toFixed(0)}%</span>
           </label>
           <input 
@@ -77,6 +541,49 @@ const ControlPanel: React.FC<Props> = ({ config, setConfig, onReset, onAccident
             className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-purple-500"
           />
         </div>
+
+        <div className="bg-slate-700/30 p-3 rounded border border-slate-700/50">
+          <label className="flex justify-between text-xs font-semibold text-slate-300 mb-2 uppercase tracking-wide">
+            <span className="flex items-center gap-1"><Cpu size={12} /> Automated (CACC)</span>
+            <span className="text-fuchsia-400">{(config.automatedRatio * 100).toFixed(0)}%</span>
+          </label>
+          <input 
+            type="range" 
+            min="0" 
+            max="1" 
+            step="0.05"
+            value={config.automatedRatio}
+            onChange={(e) => handleChange('automatedRatio', Number(e.target.value))}
+            className="w-full h-1.5 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-fuchsia-500"
+          />
+          {config.automatedRatio > 0 && (
+            <div className="mt-2 space-y-1 text-[10px] text-slate-400 font-mono">
+              <div className="flex items-center justify-between">
+                <span>ACC time gap</span>
+                <span><input type="number" min="0.5" max="3" step="0.1" value={config.automation.accTimeGap}
+                  onChange={(e) => updateAutomation({ accTimeGap: Math.max(0.5, Number(e.target.value)) })} className={numberInputClass} /> s</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span>Platoon time gap</span>
+                <span><input type="number" min="0.2" max="2" step="0.1" value={config.automation.caccTimeGap}
+                  onChange={(e) => updateAutomation({ caccTimeGap: Math.max(0.2, Number(e.target.value)) })} className={numberInputClass} /> s</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span>V2V range</span>
+                <span><input type="number" min="10" max="500" step="10" value={config.automation.commRange}
+                  onChange={(e) => updateAutomation({ commRange: Math.max(10, Number(e.target.value)) })} className={numberInputClass} /> m</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span>Max platoon size</span>
+                <span><input type="number" min="1" max="20" step="1" value={config.automation.maxPlatoonSize}
+                  onChange={(e) => updateAutomation({ maxPlatoonSize: Math.max(1, Math.round(Number(e.target.value))) })} className={numberInputClass} /> veh</span>
+              </div>
+            </div>
+          )}
+          <p className="mt-1 text-[10px] text-slate-500 leading-tight">
+             Share of cars driven by ACC, forming CACC platoons behind other automated vehicles. No driver noise.
+          </p>
+        </div>
       </div>
 
       {/* Advanced Toggle */}
@@ -84,14 +591,70 @@ const ControlPanel: React.FC<Props> = ({ config, setConfig, onReset, onAccident
         onClick={() => setShowAdvanced(!showAdvanced)}
         className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
       >
-        <span>Microscopic Physics (IDM + MOBIL)</span>
+        <span>Microscopic Physics ({MODEL_LABELS[config.carFollowingModel]} + MOBIL)</span>
         {showAdvanced ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
       </button>
 
       {/* Advanced Physics Controls */}
       {showAdvanced && (
         <div className="space-y-4 animate-in fade-in slide-in-from-top-2 duration-300">
-            
+
+           {/* Car-following model */}
+           <div className="space-y-2 text-[10px] text-slate-400 font-mono">
+            <label className="flex justify-between items-center text-xs text-slate-400 font-sans">
+              <span>Car-Following Model</span>
+              <select
+                value={config.carFollowingModel}
+                onChange={(e) => setConfig(prev => ({ ...prev, carFollowingModel: e.target.value as CarFollowingModelType }))}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+              >
+                {Object.values(CarFollowingModelType).map(m => <option key={m} value={m}>{MODEL_LABELS[m]}</option>)}
+              </select>
+            </label>
+            {MODEL_FIELDS[config.carFollowingModel].map(field => (
+              <div key={`${field.block}.${field.key}`} className="flex items-center justify-between">
+                <span>{field.label}</span>
+                <span><input type="number" min={field.min} max={field.max} step={field.step}
+                  value={(config[field.block] as unknown as Record<string, number>)[field.key]}
+                  onChange={(e) => updateModelParam(field.block, field.key, Math.max(field.min, Math.min(field.max, Number(e.target.value))))}
+                  className={numberInputClass} /> {field.unit}</span>
+              </div>
+            ))}
+            {config.carFollowingModel === CarFollowingModelType.ACC && (
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={config.acc.idmPlus} onChange={(e) => updateModelParam('acc', 'idmPlus', e.target.checked)} />
+                Use IDM+ as the base model
+              </label>
+            )}
+           </div>
+
+           {/* Numerical integration */}
+           <div className="space-y-2 text-[10px] text-slate-400 font-mono">
+            <label className="flex justify-between items-center text-xs text-slate-400 font-sans">
+              <span>Integration Scheme</span>
+              <select
+                value={config.integrator}
+                onChange={(e) => setConfig(prev => ({ ...prev, integrator: e.target.value as IntegrationScheme }))}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+              >
+                {Object.values(IntegrationScheme).map(s => <option key={s} value={s}>{INTEGRATOR_LABELS[s]}</option>)}
+              </select>
+            </label>
+            <label className="flex justify-between items-center text-xs text-slate-400 font-sans">
+              <span>Time Step (Δt)</span>
+              <select
+                value={config.timeStep}
+                onChange={(e) => handleChange('timeStep', Number(e.target.value))}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+              >
+                {TIME_STEPS.map(dt => <option key={dt} value={dt}>{dt < 0.1 ? `1/${Math.round(1 / dt)}` : dt.toFixed(1)} s</option>)}
+              </select>
+            </label>
+            <p className="text-slate-500 font-sans leading-tight">
+               Coarse steps make Euler clamp speeds and lose gaps first; ballistic and RK4 degrade more gracefully.
+            </p>
+           </div>
+
            {/* Politeness */}
            <div className="space-y-1">
             <label className="flex justify-between text-xs text-slate-400">
@@ -109,6 +672,41 @@ const ControlPanel: React.FC<Props> = ({ config, setConfig, onReset, onAccident
             </p>
            </div>
 
+           {/* MOBIL rule set and thresholds */}
+           <div className="space-y-1 text-[10px] text-slate-400 font-mono">
+            <label className="flex items-center justify-between">
+              <span>Lane-change rules</span>
+              <select
+                value={config.laneChange.rules}
+                onChange={(e) => updateLaneChange({ rules: e.target.value as LaneChangeRules })}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+              >
+                <option value={LaneChangeRules.EUROPEAN}>European (keep right)</option>
+                <option value={LaneChangeRules.SYMMETRIC}>US (symmetric)</option>
+              </select>
+            </label>
+            {config.laneChange.rules === LaneChangeRules.EUROPEAN && (
+              <div className="flex items-center justify-between">
+                <span>Keep-right bias (Δa_bias)</span>
+                <span><input type="number" min="0" max="2" step="0.1" value={config.laneChange.bias}
+                  onChange={(e) => updateLaneChange({ bias: Math.max(0, Math.min(2, Number(e.target.value))) })} className={numberInputClass} /> m/s²</span>
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <span>Threshold (Δa_th)</span>
+              <span><input type="number" min="0" max="2" step="0.05" value={config.laneChange.threshold}
+                onChange={(e) => updateLaneChange({ threshold: Math.max(0, Math.min(2, Number(e.target.value))) })} className={numberInputClass} /> m/s²</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span>Safe decel (b_safe)</span>
+              <span><input type="number" min="1" max="9" step="0.5" value={config.laneChange.safeDecel}
+                onChange={(e) => updateLaneChange({ safeDecel: Math.max(1, Math.min(9, Number(e.target.value))) })} className={numberInputClass} /> m/s²</span>
+            </div>
+            <p className="text-slate-500 font-sans leading-tight">
+               European drivers keep right and never pass on the right outside congestion. Merging and exiting drivers change as soon as it is safe.
+            </p>
+           </div>
+
            {/* Time Gap */}
            <div className="space-y-1">
             <label className="flex justify-between text-xs text-slate-400">
@@ -142,6 +740,766 @@ const ControlPanel: React.FC<Props> = ({ config, setConfig, onReset, onAccident
         </div>
       )}
 
+      {/* Vehicle Classes Toggle */}
+      <button 
+        onClick={() => setShowClasses(!showClasses)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><Truck size={12} /> Vehicle Classes ({config.vehicleClasses.length})</span>
+        {showClasses ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showClasses && (
+        <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300 text-[10px] text-slate-400 font-mono">
+          {config.vehicleClasses.map(cls => (
+            <div key={cls.id} className="space-y-1 border-b border-slate-700/50 pb-2">
+              <div className="flex items-center gap-1">
+                <input type="color" value={cls.color ?? '#10b981'} title={cls.color ? 'Colour' : 'Shaded by desired speed'}
+                  onChange={(e) => updateClass(cls.id, { color: e.target.value })}
+                  className="w-4 h-4 bg-transparent border-0 p-0 cursor-pointer" />
+                <input type="text" value={cls.name} onChange={(e) => updateClass(cls.id, { name: e.target.value })}
+                  className="w-20 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300" />
+                <select value={cls.type} onChange={(e) => updateClass(cls.id, { type: e.target.value as VehicleType })}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+                  {Object.entries(VEHICLE_TYPE_LABELS).map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                </select>
+                <button onClick={() => setConfig(prev => ({ ...prev, vehicleClasses: prev.vehicleClasses.filter(c => c.id !== cls.id) }))}
+                  disabled={config.vehicleClasses.length === 1}
+                  className="ml-auto text-slate-500 hover:text-red-400 disabled:opacity-30" title="Remove class">
+                  <X size={12} />
+                </button>
+              </div>
+              <div className="flex items-center justify-between">
+                <span title={`Relative weight among the ${isHeavy(cls.type) ? 'heavy (truck, bus)' : 'light'} classes; the heavy-vehicle share splits heavy from light`}>Share in {isHeavy(cls.type) ? 'heavy' : 'light'} <span className="text-slate-500">({(trafficShare(cls) * 100).toFixed(0)}% of traffic)</span></span>
+                <span>
+                  <input type="number" min="0" max="10" step="0.05" value={cls.shareWithinGroup}
+                    onChange={(e) => updateClass(cls.id, { shareWithinGroup: Math.max(0, Number(e.target.value)) })}
+                    className={numberInputClass} />
+                  <input type="number" min="0.5" max="4" step="0.1" value={cls.width} title="Width (m)"
+                    onChange={(e) => updateClass(cls.id, { width: Math.max(0.5, Math.min(4, Number(e.target.value))) })}
+                    className={`${numberInputClass} ml-1`} /> m
+                </span>
+              </div>
+              {CLASS_PARAMS.map(({ key, label, step }) => {
+                const d = cls[key];
+                return (
+                  <div key={key} className="flex items-center gap-1">
+                    <span className="w-16">{label}</span>
+                    <select value={d.type} onChange={(e) => updateClassParam(cls, key, withType(d, e.target.value as DistributionType))}
+                      className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+                      title="Normal (mean, std), uniform (min, max) or empirical (observed values)">
+                      <option value={DistributionType.NORMAL}>N</option>
+                      <option value={DistributionType.UNIFORM}>U</option>
+                      <option value={DistributionType.EMPIRICAL}>E</option>
+                    </select>
+                    {d.type === DistributionType.NORMAL && (
+                      <span className="ml-auto">
+                        <input type="number" min="0" step={step} value={d.mean} title="Mean"
+                          onChange={(e) => { const mean = Math.max(0, Number(e.target.value)); updateClassParam(cls, key, normal(mean, d.std, Math.max(0, mean - 3 * d.std), mean + 3 * d.std)); }}
+                          className={numberInputClass} />
+                        <input type="number" min="0" step={step} value={d.std} title="Standard deviation (draws clamped to ±3σ)"
+                          onChange={(e) => { const std = Math.max(0, Number(e.target.value)); updateClassParam(cls, key, normal(d.mean, std, Math.max(0, d.mean - 3 * std), d.mean + 3 * std)); }}
+                          className={`${numberInputClass} ml-1`} />
+                      </span>
+                    )}
+                    {d.type === DistributionType.UNIFORM && (
+                      <span className="ml-auto">
+                        <input type="number" min="0" step={step} value={d.min} title="Minimum"
+                          onChange={(e) => updateClassParam(cls, key, uniform(Math.max(0, Number(e.target.value)), Math.max(d.max, Number(e.target.value))))}
+                          className={numberInputClass} />
+                        <input type="number" min="0" step={step} value={d.max} title="Maximum"
+                          onChange={(e) => updateClassParam(cls, key, uniform(Math.min(d.min, Number(e.target.value)), Math.max(0, Number(e.target.value))))}
+                          className={`${numberInputClass} ml-1`} />
+                      </span>
+                    )}
+                    {d.type === DistributionType.EMPIRICAL && (
+                      <input type="text" key={d.values.join()} defaultValue={d.values.join(', ')} title="Observed values, comma separated"
+                        onBlur={(e) => {
+                          const values = e.target.value.split(/[\s,;]+/).map(Number).filter(v => v > 0 && Number.isFinite(v));
+                          if (values.length > 0) updateClassParam(cls, key, empirical(values));
+                        }}
+                        className="ml-auto w-28 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+          <button
+            onClick={addClass}
+            className="w-full flex items-center justify-center gap-1 py-1 text-slate-400 hover:text-white border border-dashed border-slate-600 rounded"
+          >
+            <Plus size={12} /> Add Class
+          </button>
+          <p className="text-slate-500 leading-tight">
+            Each entering vehicle draws its length, desired speed and driver from its class. T, a and b are factors on the global time gap, acceleration and the model's deceleration. The heavy-vehicle share splits trucks and buses from the rest; each class's share counts only within its group (heavy or light), so a class's share of all traffic is shown next to it.
+          </p>
+        </div>
+      )}
+
+      {/* Demand Profile Toggle */}
+      <button 
+        onClick={() => setShowDemand(!showDemand)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><TrendingUp size={12} /> Demand Profile {config.demand.enabled ? `(${config.demand.points.length} points)` : '(off)'}</span>
+        {showDemand ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showDemand && (
+        <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300 text-[10px] text-slate-400 font-mono">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={config.demand.enabled} onChange={(e) => updateDemand({ enabled: e.target.checked })} />
+              Time-varying inflow
+            </label>
+            <select
+              value={config.demand.interpolation}
+              onChange={(e) => updateDemand({ interpolation: e.target.value as DemandInterpolation })}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+            >
+              <option value={DemandInterpolation.LINEAR}>Linear</option>
+              <option value={DemandInterpolation.STEP}>Step</option>
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-slate-500 uppercase">Points: time s / veh/h{config.demand.varyTruckRatio && ' / truck %'}</div>
+            {config.demand.points.map((point, i) => (
+              <div key={i} className="flex items-center gap-1">
+                <input type="number" min="0" step="60" value={point.time}
+                  onChange={(e) => updateDemandPoint(i, { time: Math.max(0, Number(e.target.value)) })}
+                  className={numberInputClass} />
+                <input type="number" min="0" max="10000" step="100" value={point.inflowRate}
+                  onChange={(e) => updateDemandPoint(i, { inflowRate: Math.max(0, Number(e.target.value)) })}
+                  className={numberInputClass} />
+                {config.demand.varyTruckRatio && (
+                  <input type="number" min="0" max="100" step="5" value={Math.round(point.truckRatio * 100)}
+                    onChange={(e) => updateDemandPoint(i, { truckRatio: Math.max(0, Math.min(100, Number(e.target.value))) / 100 })}
+                    className={numberInputClass} />
+                )}
+                <button onClick={() => removeDemandPoint(i)}
+                  className="ml-auto text-slate-500 hover:text-red-400" title="Remove point">
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addDemandPoint}
+              className="w-full flex items-center justify-center gap-1 py-1 text-slate-400 hover:text-white border border-dashed border-slate-600 rounded"
+            >
+              <Plus size={12} /> Add Point
+            </button>
+          </div>
+
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={config.demand.varyTruckRatio} onChange={(e) => updateDemand({ varyTruckRatio: e.target.checked })} />
+            Truck share from profile
+          </label>
+
+          <div className="space-y-1">
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={config.demand.laneSplit !== null}
+                onChange={(e) => updateDemand({ laneSplit: e.target.checked ? Array(config.lanes).fill(1) : null })} />
+              Split by lane (relative shares)
+            </label>
+            {config.demand.laneSplit && (
+              <div className="flex items-center gap-1">
+                {Array.from({ length: config.lanes }, (_, l) => (
+                  <input key={l} type="number" min="0" max="10" step="0.5" value={config.demand.laneSplit![l] ?? 0} title={`Lane ${l + 1}`}
+                    onChange={(e) => updateDemand({
+                      laneSplit: Array.from({ length: config.lanes }, (_, k) => k === l ? Math.max(0, Number(e.target.value)) : config.demand.laneSplit![k] ?? 0)
+                    })}
+                    className={numberInputClass} />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Ramps Toggle */}
+      <button 
+        onClick={() => setShowRamps(!showRamps)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><GitMerge size={12} /> Ramps ({config.onRamps.length} on / {config.offRamps.length} off)</span>
+        {showRamps ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showRamps && (
+        <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300 text-[10px] text-slate-400 font-mono">
+          <div className="space-y-2">
+            <div className="text-slate-500 uppercase">On-ramps: start m / length m / veh/h</div>
+            {config.onRamps.map(ramp => (
+              <div key={ramp.id} className="flex items-center gap-1">
+                <input type="number" min="0" max={config.roadLength} step="100" value={ramp.position}
+                  onChange={(e) => updateOnRamp(ramp.id, { position: Math.max(0, Math.min(config.roadLength, Number(e.target.value))) })}
+                  className={numberInputClass} />
+                <input type="number" min="50" max="1000" step="50" value={ramp.length}
+                  onChange={(e) => updateOnRamp(ramp.id, { length: Math.max(50, Number(e.target.value)) })}
+                  className={numberInputClass} />
+                <input type="number" min="0" max="2000" step="100" value={ramp.inflowRate}
+                  onChange={(e) => updateOnRamp(ramp.id, { inflowRate: Math.max(0, Number(e.target.value)) })}
+                  className={numberInputClass} />
+                <button onClick={() => setConfig(prev => ({ ...prev, onRamps: prev.onRamps.filter(r => r.id !== ramp.id) }))}
+                  className="ml-auto text-slate-500 hover:text-red-400" title="Remove on-ramp">
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addOnRamp}
+              className="w-full flex items-center justify-center gap-1 py-1 text-slate-400 hover:text-white border border-dashed border-slate-600 rounded"
+            >
+              <Plus size={12} /> Add On-ramp
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-slate-500 uppercase">Off-ramps: exit m / share %</div>
+            {config.offRamps.map(ramp => (
+              <div key={ramp.id} className="flex items-center gap-1">
+                <input type="number" min="0" max={config.roadLength} step="100" value={ramp.position}
+                  onChange={(e) => updateOffRamp(ramp.id, { position: Math.max(0, Math.min(config.roadLength, Number(e.target.value))) })}
+                  className={numberInputClass} />
+                <input type="number" min="0" max="100" step="5" value={Math.round(ramp.share * 100)}
+                  onChange={(e) => updateOffRamp(ramp.id, { share: Math.max(0, Math.min(100, Number(e.target.value))) / 100 })}
+                  className={numberInputClass} />
+                <button onClick={() => setConfig(prev => ({ ...prev, offRamps: prev.offRamps.filter(r => r.id !== ramp.id) }))}
+                  className="ml-auto text-slate-500 hover:text-red-400" title="Remove off-ramp">
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addOffRamp}
+              className="w-full flex items-center justify-center gap-1 py-1 text-slate-400 hover:text-white border border-dashed border-slate-600 rounded"
+            >
+              <Plus size={12} /> Add Off-ramp
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Speed Control Toggle */}
+      <button 
+        onClick={() => setShowSpeed(!showSpeed)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><Gauge size={12} /> Speed Limits ({config.speedLimits.length}{config.vsl.enabled ? ' + VSL' : ''})</span>
+        {showSpeed ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showSpeed && (
+        <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300 text-[10px] text-slate-400 font-mono">
+          <div className="space-y-2">
+            <div className="text-slate-500 uppercase">Zones: from m / to m / km/h</div>
+            {config.speedLimits.map(zone => (
+              <div key={zone.id} className="flex items-center gap-1">
+                <input type="number" min="0" max={config.roadLength} step="100" value={zone.start}
+                  onChange={(e) => updateZone(zone.id, { start: Math.max(0, Math.min(zone.end, Number(e.target.value))) })}
+                  className={numberInputClass} />
+                <input type="number" min="0" max={config.roadLength} step="100" value={zone.end}
+                  onChange={(e) => updateZone(zone.id, { end: Math.max(zone.start, Math.min(config.roadLength, Number(e.target.value))) })}
+                  className={numberInputClass} />
+                <select value={zone.limit} onChange={(e) => updateZone(zone.id, { limit: Number(e.target.value) })}
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+                  {[40, 60, 80, 100, 120].map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+                <button onClick={() => setConfig(prev => ({ ...prev, speedLimits: prev.speedLimits.filter(z => z.id !== zone.id) }))}
+                  className="ml-auto text-slate-500 hover:text-red-400" title="Remove zone">
+                  <X size={12} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={addZone}
+              className="w-full flex items-center justify-center gap-1 py-1 text-slate-400 hover:text-white border border-dashed border-slate-600 rounded"
+            >
+              <Plus size={12} /> Add Zone
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-slate-300 uppercase">
+              <input type="checkbox" checked={config.vsl.enabled} onChange={(e) => updateVsl({ enabled: e.target.checked })} />
+              Variable Speed Limits
+            </label>
+            {config.vsl.enabled && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span>Trigger below</span>
+                  <span><input type="number" min="20" max="100" step="10" value={config.vsl.triggerSpeed}
+                    onChange={(e) => updateVsl({ triggerSpeed: Number(e.target.value) })} className={numberInputClass} /> km/h</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Minimum limit</span>
+                  <span><input type="number" min="20" max="100" step="10" value={config.vsl.minLimit}
+                    onChange={(e) => updateVsl({ minLimit: Number(e.target.value) })} className={numberInputClass} /> km/h</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Stage length</span>
+                  <span><input type="number" min="100" max="2000" step="100" value={config.vsl.zoneLength}
+                    onChange={(e) => updateVsl({ zoneLength: Number(e.target.value) })} className={numberInputClass} /> m</span>
+                </div>
+                <p className="text-slate-500 leading-tight">
+                   Limits are posted upstream of any loop detector whose speed drops below the trigger.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Signals and Ramp Metering Toggle */}
+      <button 
+        onClick={() => setShowControl(!showControl)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><TrafficCone size={12} /> Signals & Metering ({config.signals.length} / {config.rampMeters.length})</span>
+        {showControl ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showControl && (
+        <div className="space-y-3 animate-in fade-in slide-in-from-top-2 duration-300 text-[10px] text-slate-400 font-mono">
+          <div className="space-y-2">
+            <div className="text-slate-500 uppercase">Signals</div>
+            {config.signals.map(signal => (
+              <div key={signal.id} className="space-y-1 border-b border-slate-700/50 pb-2">
+                <div className="flex items-center gap-1">
+                  <span className="w-6 text-slate-500">S{signal.id}</span>
+                  <select value={signal.rampId ?? ''}
+                    onChange={(e) => updateSignal(signal.id, { rampId: e.target.value === '' ? null : Number(e.target.value) })}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+                    <option value="">Mainline</option>
+                    {config.onRamps.map(r => <option key={r.id} value={r.id}>On-ramp @ {r.position} m</option>)}
+                  </select>
+                  {signal.rampId === null && (
+                    <span><input type="number" min="0" max={config.roadLength} step="100" value={signal.position}
+                      onChange={(e) => updateSignal(signal.id, { position: Math.max(0, Math.min(config.roadLength, Number(e.target.value))) })}
+                      className={numberInputClass} /> m</span>
+                  )}
+                  <button onClick={() => setConfig(prev => ({ ...prev, signals: prev.signals.filter(s => s.id !== signal.id) }))}
+                    className="ml-auto text-slate-500 hover:text-red-400" title="Remove signal">
+                    <X size={12} />
+                  </button>
+                </div>
+                <div className="flex items-center gap-1">
+                  <select value={signal.plan} onChange={(e) => updateSignal(signal.id, { plan: e.target.value as SignalPlanType })}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+                    <option value={SignalPlanType.FIXED}>Fixed-time</option>
+                    <option value={SignalPlanType.ACTUATED}>Actuated</option>
+                  </select>
+                  <span className="ml-auto" title={signal.plan === SignalPlanType.ACTUATED ? 'Minimum green' : 'Green'}>G</span>
+                  <input type="number" min="1" max="300" step="1" value={signal.green}
+                    onChange={(e) => updateSignal(signal.id, { green: Math.max(1, Number(e.target.value)) })}
+                    className={numberInputClass} />
+                  <span>R</span>
+                  <input type="number" min="1" max="300" step="1" value={signal.red}
+                    onChange={(e) => updateSignal(signal.id, { red: Math.max(1, Number(e.target.value)) })}
+                    className={numberInputClass} />
+                </div>
+                {signal.plan === SignalPlanType.FIXED ? (
+                  <div className="flex items-center justify-between">
+                    <span>Offset</span>
+                    <span><input type="number" min="0" max="300" step="1" value={signal.offset}
+                      onChange={(e) => updateSignal(signal.id, { offset: Math.max(0, Number(e.target.value)) })}
+                      className={numberInputClass} /> s</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <span>Max green / gap</span>
+                    <span>
+                      <input type="number" min={signal.green} max="600" step="1" value={signal.maxGreen}
+                        onChange={(e) => updateSignal(signal.id, { maxGreen: Math.max(signal.green, Number(e.target.value)) })}
+                        className={numberInputClass} />
+                      <input type="number" min="0.5" max="30" step="0.5" value={signal.extension}
+                        onChange={(e) => updateSignal(signal.id, { extension: Math.max(0.5, Number(e.target.value)) })}
+                        className={`${numberInputClass} ml-1`} /> s
+                    </span>
+                  </div>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={addSignal}
+              className="w-full flex items-center justify-center gap-1 py-1 text-slate-400 hover:text-white border border-dashed border-slate-600 rounded"
+            >
+              <Plus size={12} /> Add Signal
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-slate-500 uppercase">Ramp meters</div>
+            {config.rampMeters.map(meter => (
+              <div key={meter.id} className="space-y-1 border-b border-slate-700/50 pb-2">
+                <div className="flex items-center gap-1">
+                  <select value={meter.rampId} onChange={(e) => updateMeter(meter.id, { rampId: Number(e.target.value) })}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+                    {config.onRamps.map(r => <option key={r.id} value={r.id}>On-ramp @ {r.position} m</option>)}
+                  </select>
+                  <select value={meter.detectorId} onChange={(e) => updateMeter(meter.id, { detectorId: Number(e.target.value) })}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+                    {config.detectors.map(d => <option key={d.id} value={d.id}>D{d.id}</option>)}
+                  </select>
+                  <button onClick={() => setConfig(prev => ({ ...prev, rampMeters: prev.rampMeters.filter(m => m.id !== meter.id) }))}
+                    className="ml-auto text-slate-500 hover:text-red-400" title="Remove ramp meter">
+                    <X size={12} />
+                  </button>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Algorithm</span>
+                  <select value={meter.algorithm} onChange={(e) => updateMeter(meter.id, { algorithm: e.target.value as RampMeterAlgorithm })}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300">
+                    <option value={RampMeterAlgorithm.ALINEA}>ALINEA</option>
+                    <option value={RampMeterAlgorithm.PI_ALINEA}>PI-ALINEA</option>
+                  </select>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Target occupancy (ô)</span>
+                  <span><input type="number" min="5" max="50" step="1" value={meter.targetOccupancy}
+                    onChange={(e) => updateMeter(meter.id, { targetOccupancy: Math.max(5, Math.min(50, Number(e.target.value))) })}
+                    className={numberInputClass} /> %</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span>Gain (K_R)</span>
+                  <span><input type="number" min="0" max="500" step="10" value={meter.gain}
+                    onChange={(e) => updateMeter(meter.id, { gain: Math.max(0, Number(e.target.value)) })}
+                    className={numberInputClass} /> veh/h/%</span>
+                </div>
+                {meter.algorithm === RampMeterAlgorithm.PI_ALINEA && (
+                  <div className="flex items-center justify-between">
+                    <span>Proportional (K_P)</span>
+                    <span><input type="number" min="0" max="500" step="10" value={meter.proportionalGain}
+                      onChange={(e) => updateMeter(meter.id, { proportionalGain: Math.max(0, Number(e.target.value)) })}
+                      className={numberInputClass} /> veh/h/%</span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between">
+                  <span>Rate min / max</span>
+                  <span>
+                    <input type="number" min="0" max={meter.maxRate} step="50" value={meter.minRate}
+                      onChange={(e) => updateMeter(meter.id, { minRate: Math.max(0, Math.min(meter.maxRate, Number(e.target.value))) })}
+                      className={numberInputClass} />
+                    <input type="number" min={meter.minRate} max="3600" step="50" value={meter.maxRate}
+                      onChange={(e) => updateMeter(meter.id, { maxRate: Math.max(meter.minRate, Math.min(3600, Number(e.target.value))) })}
+                      className={`${numberInputClass} ml-1`} /> veh/h
+                  </span>
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={addMeter}
+              disabled={config.detectors.length === 0 || config.onRamps.every(r => config.rampMeters.some(m => m.rampId === r.id))}
+              className="w-full flex items-center justify-center gap-1 py-1 text-slate-400 hover:text-white border border-dashed border-slate-600 rounded disabled:opacity-40 disabled:hover:text-slate-400"
+            >
+              <Plus size={12} /> Add Ramp Meter
+            </button>
+            <p className="text-slate-500 leading-tight">
+               Metered ramps queue arrivals and release them at the rate set from the downstream detector's occupancy.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Detectors Toggle */}
+      <button 
+        onClick={() => setShowDetectors(!showDetectors)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><Radio size={12} /> Loop Detectors ({config.detectors.length})</span>
+        {showDetectors ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showDetectors && (
+        <div className="space-y-2 animate-in fade-in slide-in-from-top-2 duration-300">
+          {config.detectors.map(det => (
+            <div key={det.id} className="flex items-center gap-2 text-[10px] text-slate-400 font-mono">
+              <span className="w-6 text-slate-500">D{det.id}</span>
+              <input
+                type="number" min="0" max={config.roadLength} step="100"
+                value={det.position}
+                onChange={(e) => updateDetector(det.id, { position: Math.max(0, Math.min(config.roadLength, Number(e.target.value))) })}
+                className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 text-right"
+              />
+              <span>m</span>
+              <select
+                value={det.interval}
+                onChange={(e) => updateDetector(det.id, { interval: Number(e.target.value) })}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+              >
+                <option value={30}>30 s</option>
+                <option value={60}>1 min</option>
+                <option value={300}>5 min</option>
+              </select>
+              <button onClick={() => removeDetector(det.id)} className="ml-auto text-slate-500 hover:text-red-400" title="Remove detector">
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={addDetector}
+            className="w-full flex items-center justify-center gap-1 py-1 text-[10px] text-slate-400 hover:text-white border border-dashed border-slate-600 rounded"
+          >
+            <Plus size={12} /> Add Detector
+          </button>
+        </div>
+      )}
+
+      {/* Safety Thresholds Toggle */}
+      <button 
+        onClick={() => setShowSafety(!showSafety)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><ShieldAlert size={12} /> Safety Thresholds</span>
+        {showSafety ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showSafety && (
+        <div className="space-y-1 animate-in fade-in slide-in-from-top-2 duration-300 text-[10px] text-slate-400 font-mono">
+          <div className="flex items-center justify-between">
+            <span>Time-to-collision below</span>
+            <span><input type="number" min="0.1" max="10" step="0.1" value={config.safety.ttcThreshold}
+              onChange={(e) => updateSafety({ ttcThreshold: Math.min(10, Math.max(0.1, Number(e.target.value))) })} className={numberInputClass} /> s</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>DRAC above</span>
+            <span><input type="number" min="0.1" max="20" step="0.1" value={config.safety.dracThreshold}
+              onChange={(e) => updateSafety({ dracThreshold: Math.min(20, Math.max(0.1, Number(e.target.value))) })} className={numberInputClass} /> m/s²</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Post-encroachment below</span>
+            <span><input type="number" min="0.1" max="10" step="0.1" value={config.safety.petThreshold}
+              onChange={(e) => updateSafety({ petThreshold: Math.min(10, Math.max(0.1, Number(e.target.value))) })} className={numberInputClass} /> s</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Hotspot section</span>
+            <span><input type="number" min="10" max="1000" step="10" value={config.safety.binSize}
+              onChange={(e) => updateSafety({ binSize: Math.min(1000, Math.max(10, Number(e.target.value))) })} className={numberInputClass} /> m</span>
+          </div>
+          <p className="text-slate-500 leading-tight font-sans">
+            Conflicts below (DRAC: above) these values are logged in the Safety panel; overlapping vehicles are reported as crashes.
+          </p>
+        </div>
+      )}
+
+      {/* Macroscopic Model Toggle */}
+      <button 
+        onClick={() => setShowMacro(!showMacro)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><Layers size={12} /> Macroscopic Model {config.macro.enabled ? '(CTM)' : '(off)'}</span>
+        {showMacro ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showMacro && (
+        <div className="space-y-1 animate-in fade-in slide-in-from-top-2 duration-300 text-[10px] text-slate-400 font-mono">
+          <label className="flex items-center gap-2 text-slate-300 uppercase">
+            <input type="checkbox" checked={config.macro.enabled} onChange={(e) => updateMacro({ enabled: e.target.checked })} />
+            Run cell transmission model
+          </label>
+          <div className="flex items-center justify-between">
+            <span>Cell length</span>
+            <span><input type="number" min="10" max="1000" step="10" value={config.macro.cellLength}
+              onChange={(e) => updateMacro({ cellLength: Math.min(1000, Math.max(10, Number(e.target.value))) })} className={numberInputClass} /> m</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Free speed (v_f)</span>
+            <span><input type="number" min="10" max="200" step="5" value={config.macro.freeSpeed}
+              onChange={(e) => updateMacro({ freeSpeed: Math.min(200, Math.max(10, Number(e.target.value))) })} className={numberInputClass} /> km/h</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Capacity (q_max)</span>
+            <span><input type="number" min="100" max="4000" step="50" value={config.macro.capacity}
+              onChange={(e) => updateMacro({ capacity: Math.min(4000, 0.9 * config.macro.freeSpeed * config.macro.jamDensity, Math.max(100, Number(e.target.value))) })}
+              className={numberInputClass} /> veh/h/ln</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Jam density (k_j)</span>
+            <span><input type="number" min="50" max="300" step="5" value={config.macro.jamDensity}
+              onChange={(e) => updateMacro({ jamDensity: Math.min(300, Math.max(50, Number(e.target.value))) })} className={numberInputClass} /> veh/km/ln</span>
+          </div>
+          <div className="text-slate-500">
+            k_c {(config.macro.capacity / config.macro.freeSpeed).toFixed(1)} veh/km/ln · wave −{waveSpeed(config.macro).toFixed(1)} km/h
+          </div>
+          <button
+            onClick={fitMacro}
+            disabled={fitPoints.length < 10}
+            className="w-full flex items-center justify-center gap-1 py-1 border border-slate-600 rounded text-slate-400 hover:text-white disabled:opacity-40 disabled:hover:text-slate-400"
+            title={detectorFdPoints.length >= 10 ? 'Least-squares fit to the loop detector intervals' : 'Least-squares fit to the whole-road samples'}
+          >
+            <TrendingUp size={12} /> Fit to FD points ({fitPoints.length})
+          </button>
+          <p className="text-slate-500 leading-tight font-sans">
+            Triangular fundamental diagram per lane, on the same road, demand, ramps, speed limits and incidents. Compare both density fields in the Macro panel.
+          </p>
+        </div>
+      )}
+
+      {/* Jam Detection Toggle */}
+      <button 
+        onClick={() => setShowJams(!showJams)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><Waves size={12} /> Jam Detection</span>
+        {showJams ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showJams && (
+        <div className="space-y-1 animate-in fade-in slide-in-from-top-2 duration-300 text-[10px] text-slate-400 font-mono">
+          <div className="flex items-center justify-between">
+            <span>Speed threshold</span>
+            <span><input type="number" min="1" max="150" step="5" value={config.jamDetection.speedThreshold}
+              onChange={(e) => updateJamDetection({ speedThreshold: Math.min(150, Math.max(1, Number(e.target.value))) })} className={numberInputClass} /> km/h</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Minimum length</span>
+            <span><input type="number" min="10" max="5000" step="25" value={config.jamDetection.minLength}
+              onChange={(e) => updateJamDetection({ minLength: Math.min(5000, Math.max(10, Number(e.target.value))) })} className={numberInputClass} /> m</span>
+          </div>
+          <p className="text-slate-500 leading-tight font-sans">
+            Stretches slower than the threshold (mean over all lanes) and at least this long are tracked as jams, with the speeds of their tail and head fronts. See the Jams panel for the event log.
+          </p>
+        </div>
+      )}
+
+      {/* Trajectory Recorder Toggle */}
+      <button 
+        onClick={() => setShowRecorder(!showRecorder)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1">
+          <Video size={12} /> Trajectories
+          {recorderStatus?.state === 'recording' && <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />}
+        </span>
+        {showRecorder ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showRecorder && (
+        <div className="space-y-2 text-[10px] text-slate-400 font-mono animate-in fade-in slide-in-from-top-2 duration-300">
+          <div className="flex items-center justify-between">
+            <span>Sample every</span>
+            <select
+              value={recordInterval}
+              onChange={(e) => setRecordInterval(Number(e.target.value))}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+            >
+              <option value={0.04}>0.04 s (highD)</option>
+              <option value={0.1}>0.1 s (NGSIM)</option>
+              <option value={0.5}>0.5 s</option>
+              <option value={1}>1 s</option>
+            </select>
+          </div>
+          <div className="flex items-center justify-between">
+            <span>Window</span>
+            <span>
+              <input type="number" min="0" step="10" placeholder="now" value={recordFrom}
+                onChange={(e) => setRecordFrom(e.target.value)} className={numberInputClass} />
+              {' – '}
+              <input type="number" min="0" step="10" placeholder="stop" value={recordTo}
+                onChange={(e) => setRecordTo(e.target.value)} className={numberInputClass} /> s
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {recorderStatus && recorderStatus.state !== 'done' ? (
+              <button onClick={onStopRecording} className="flex-1 flex items-center justify-center gap-1 py-1 border border-red-500/50 rounded text-red-400 hover:bg-red-500/10">
+                <Square size={12} /> Stop
+              </button>
+            ) : (
+              <button onClick={startRecording} className="flex-1 flex items-center justify-center gap-1 py-1 border border-slate-600 rounded text-slate-400 hover:text-white">
+                <Video size={12} /> Record
+              </button>
+            )}
+            <span className="text-slate-500">{recorderLabel()}</span>
+          </div>
+          {recording && (
+            <div className="grid grid-cols-3 gap-1">
+              <button onClick={() => downloadFile(`${fileStem}-ngsim.csv`, ngsimCsv(recording), 'text/csv')}
+                className="flex items-center justify-center gap-1 py-1 border border-slate-600 rounded text-slate-400 hover:text-white" title="NGSIM column layout (feet)">
+                <Download size={12} /> NGSIM
+              </button>
+              <button onClick={() => downloadFile(`${fileStem}-highd.csv`, highDCsv(recording), 'text/csv')}
+                className="flex items-center justify-center gap-1 py-1 border border-slate-600 rounded text-slate-400 hover:text-white" title="highD tracks.csv layout (metres)">
+                <Download size={12} /> highD
+              </button>
+              <button onClick={() => downloadFile(`${fileStem}.trj`, [encodeTrajectoryBinary(recording)], 'application/octet-stream')}
+                className="flex items-center justify-center gap-1 py-1 border border-slate-600 rounded text-slate-400 hover:text-white" title="Compact columnar binary for large runs">
+                <Download size={12} /> Binary
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Incidents Toggle */}
+      <button 
+        onClick={() => setShowIncidents(!showIncidents)}
+        className="flex items-center justify-between text-xs font-semibold text-slate-400 hover:text-white transition py-2 border-b border-slate-700"
+      >
+        <span className="flex items-center gap-1"><AlertTriangle size={12} /> Incidents ({config.incidents.length})</span>
+        {showIncidents ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showIncidents && (
+        <div className="space-y-2 animate-in fade-in slide-in-from-top-2 duration-300 text-[10px] text-slate-400 font-mono">
+          {config.incidents.map(inc => {
+            const status = incidentStatus(inc);
+            return (
+              <div key={inc.id} className="bg-slate-900/60 p-2 rounded space-y-1">
+                <div className="flex items-center justify-between">
+                  <span>#{inc.id} <span className={status.className}>{status.label}</span></span>
+                  <button onClick={() => setConfig(prev => ({ ...prev, incidents: prev.incidents.filter(i => i.id !== inc.id) }))}
+                    className="text-slate-500 hover:text-red-400" title="Remove incident">
+                    <X size={12} />
+                  </button>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="w-10">at</span>
+                  <input type="number" min="0" max={config.roadLength} step="50" value={inc.position}
+                    onChange={(e) => updateIncident(inc.id, { position: Math.max(0, Math.min(config.roadLength, Number(e.target.value))) })}
+                    className={numberInputClass} /> m
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="w-10">lanes</span>
+                  {Array.from({ length: config.lanes }, (_, l) => (
+                    <label key={l} className="flex items-center gap-0.5">
+                      <input type="checkbox" checked={inc.lanes.includes(l)} onChange={() => toggleIncidentLane(inc, l)} />{l + 1}
+                    </label>
+                  ))}
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="w-10">time</span>
+                  <input type="number" min="0" step="10" value={inc.startTime}
+                    onChange={(e) => updateIncident(inc.id, { startTime: Math.max(0, Number(e.target.value)) })}
+                    className={numberInputClass} /> +
+                  <input type="number" min="1" step="10" value={inc.duration}
+                    onChange={(e) => updateIncident(inc.id, { duration: Math.max(1, Number(e.target.value)) })}
+                    className={numberInputClass} /> s
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="w-10">slow</span>
+                  <select
+                    value={inc.rubberneckSpeed ?? ''}
+                    onChange={(e) => updateIncident(inc.id, { rubberneckSpeed: e.target.value === '' ? null : Number(e.target.value) })}
+                    className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+                  >
+                    <option value="">No rubbernecking</option>
+                    {[30, 50, 70].map(v => <option key={v} value={v}>{v} km/h</option>)}
+                  </select>
+                </div>
+              </div>
+            );
+          })}
+          <button
+            onClick={onTogglePlaceIncident}
+            className={`w-full flex items-center justify-center gap-1 py-1 border border-dashed rounded ${placingIncident ? 'border-red-500 text-red-400' : 'border-slate-600 text-slate-400 hover:text-white'}`}
+          >
+            <Crosshair size={12} /> {placingIncident ? 'Click a lane on the road...' : 'Place on Canvas'}
+          </button>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="mt-auto space-y-3 pt-4 border-t border-slate-700">
         <button 
@@ -149,15 +1507,40 @@ const ControlPanel: React.FC<Props> = ({ config, setConfig, onReset, onAccident
           className="w-full flex items-center justify-center gap-2 py-3 bg-red-500/10 hover:bg-red-500/20 border border-red-500/50 text-red-400 rounded shadow-sm hover:shadow-md transition active:scale-95"
         >
           <AlertTriangle size={18} />
-          Create Incident (5s)
+          Create Incident (2 min)
         </button>
         <div className="bg-slate-900 p-2 rounded text-[10px] text-slate-500 font-mono">
-           Sim Speed: {config.timeScale.toFixed(1)}x
+           <div className="flex items-center justify-between">
+             <span>Sim Speed: {config.maxSpeed ? 'max' : `${config.timeScale.toFixed(1)}x`}</span>
+             <label className="flex items-center gap-1" title="Run as fast as the CPU allows">
+               <input type="checkbox" checked={config.maxSpeed} onChange={(e) => setConfig(prev => ({ ...prev, maxSpeed: e.target.checked }))} />
+               <FastForward size={12} />
+             </label>
+           </div>
            <input 
-             type="range" min="0.1" max="5.0" step="0.1"
+             type="range" min="0.1" max="10.0" step="0.1"
              value={config.timeScale}
+             disabled={config.maxSpeed}
              onChange={(e) => handleChange('timeScale', Number(e.target.value))}
-             className="w-full h-1 bg-slate-800 mt-1 rounded accent-slate-500"
+             className="w-full h-1 bg-slate-800 mt-1 rounded accent-slate-500 disabled:opacity-40"
+           />
+        </div>
+        <div className="bg-slate-900 p-2 rounded text-[10px] text-slate-500 font-mono flex items-center justify-between gap-2">
+           <span title="Applied on reset">Seed</span>
+           <input
+             type="number" min="0" step="1"
+             value={config.seed}
+             onChange={(e) => handleChange('seed', Math.max(0, Math.floor(Number(e.target.value))))}
+             className="w-24 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300 text-right"
+           />
+        </div>
+        <div className="bg-slate-900 p-2 rounded text-[10px] text-slate-500 font-mono flex items-center justify-between gap-2">
+           <span title="Applied on reset">Road Length (m)</span>
+           <input
+             type="number" min="100" max="100000" step="100"
+             value={config.roadLength}
+             onChange={(e) => changeRoadLength(Math.max(100, Math.min(100000, Number(e.target.value))))}
+             className="w-24 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300 text-right"
            />
         </div>
       </div>
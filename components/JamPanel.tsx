@@ -0,0 +1,75 @@
+import React from 'react';
+import { JamEventType, JamStats } from '../types';
+import { describeJamEvent } from '../services/JamDetection';
+
+interface Props {
+  jams: JamStats;
+}
+
+const EVENT_COLORS: Record<JamEventType, string> = {
+  [JamEventType.FORMED]: '#f87171',
+  [JamEventType.DISSOLVED]: '#4ade80',
+  [JamEventType.MERGED]: '#fbbf24',
+  [JamEventType.SPLIT]: '#38bdf8'
+};
+
+const speed = (v: number | null) => v === null ? '–' : `${v >= 0 ? '+' : ''}${v.toFixed(1)}`;
+
+const JamPanel: React.FC<Props> = ({ jams }) => {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-4 w-full h-full">
+
+      {/* Event log */}
+      <div className="col-span-1 md:col-span-2 bg-slate-800 p-2 rounded-lg border border-slate-700 flex flex-col min-h-0">
+        <div className="text-[10px] font-bold text-slate-400 uppercase mb-1">
+          Jam Events <span className="font-normal normal-case text-slate-500">· {jams.formed} formed since reset</span>
+        </div>
+        <div className="flex-1 overflow-y-auto text-[10px] font-mono text-slate-400 space-y-0.5">
+          {jams.events.length === 0 && <div className="text-slate-600">No jams yet</div>}
+          {jams.events.map((e, i) => (
+            <div key={i} style={{ color: EVENT_COLORS[e.type] }}>{describeJamEvent(e)}</div>
+          ))}
+        </div>
+      </div>
+
+      {/* Active jams */}
+      <div className="col-span-1 md:col-span-3 bg-slate-800 p-2 rounded-lg border border-slate-700 overflow-y-auto">
+        <table className="w-full text-[10px] font-mono text-slate-300">
+          <thead className="text-slate-500 uppercase text-left">
+            <tr>
+              <th className="font-bold">Jam</th>
+              <th className="font-bold">Position km</th>
+              <th className="font-bold">Length m</th>
+              <th className="font-bold">Max m</th>
+              <th className="font-bold">Age s</th>
+              <th className="font-bold">Veh</th>
+              <th className="font-bold">Speed km/h</th>
+              <th className="font-bold" title="Propagation speed of the upstream front (tail) and downstream front (head); wide moving jams travel upstream at about -15 km/h">Tail / head km/h</th>
+              <th className="font-bold" title="Mean flow just downstream of the head">Discharge veh/h</th>
+            </tr>
+          </thead>
+          <tbody>
+            {jams.jams.length === 0 && (
+              <tr><td colSpan={9} className="text-slate-600 pt-1">No active jams</td></tr>
+            )}
+            {jams.jams.map(jam => (
+              <tr key={jam.id}>
+                <td className="text-red-400">#{jam.id}</td>
+                <td>{(jam.upstream / 1000).toFixed(2)}–{(jam.downstream / 1000).toFixed(2)}</td>
+                <td>{jam.length.toFixed(0)}</td>
+                <td>{jam.maxLength.toFixed(0)}</td>
+                <td>{jam.lifetime.toFixed(0)}</td>
+                <td>{jam.vehicles}</td>
+                <td>{jam.meanSpeed.toFixed(1)}</td>
+                <td>{speed(jam.upstreamSpeed)} / {speed(jam.downstreamSpeed)}</td>
+                <td>{jam.dischargeRate === null ? '–' : jam.dischargeRate.toFixed(0)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default JamPanel;
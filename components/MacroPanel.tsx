@@ -0,0 +1,122 @@
+import React, { useEffect, useRef } from 'react';
+import { MacroConfig, MacroSample, MacroStats } from '../types';
+import { densityToColor } from '../services/SpaceTime';
+
+interface Props {
+  macro: MacroStats | null;
+  config: MacroConfig;
+  lanes: number;
+}
+
+interface FieldProps {
+  title: React.ReactNode;
+  samples: MacroSample[];
+  cellLength: number;
+  value: (s: MacroSample, i: number) => number;
+  color: (value: number) => string;
+}
+
+const MARGIN = { left: 30, right: 4, top: 18, bottom: 14 };
+
+// Macro minus micro: blue where the CTM has fewer vehicles, red where it has more
+function differenceToColor(diff: number, scale: number): string {
+  const f = Math.min(1, Math.abs(diff) / scale);
+  return diff < 0 ? `hsl(215, 85%, ${(8 + 47 * f).toFixed(0)}%)` : `hsl(0, 85%, ${(8 + 47 * f).toFixed(0)}%)`;
+}
+
+// Space-time field of per-cell values: time to the right, upstream end at the bottom
+const DensityField: React.FC<FieldProps> = ({ title, samples, cellLength, value, color }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d', { alpha: false });
+    if (!canvas || !ctx) return;
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+    ctx.fillStyle = '#020617';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (samples.length === 0) return;
+
+    const w = canvas.width - MARGIN.left - MARGIN.right;
+    const h = canvas.height - MARGIN.top - MARGIN.bottom;
+    const cells = samples[0].micro.length;
+    const colW = w / samples.length;
+    const rowH = h / cells;
+    samples.forEach((s, j) => {
+      for (let i = 0; i < cells; i++) {
+        ctx.fillStyle = color(value(s, i));
+        ctx.fillRect(MARGIN.left + j * colW, MARGIN.top + h - (i + 1) * rowH, Math.ceil(colW), Math.ceil(rowH));
+      }
+    });
+
+    ctx.fillStyle = '#64748b';
+    ctx.font = '10px sans-serif';
+    const roadKm = (cells * cellLength) / 1000;
+    ctx.fillText('0km', 2, MARGIN.top + h);
+    ctx.fillText(`${roadKm.toFixed(1)}km`, 2, MARGIN.top + 8);
+    ctx.fillText(`${samples[0].time.toFixed(0)}s`, MARGIN.left, canvas.height - 2);
+    const end = `${samples[samples.length - 1].time.toFixed(0)}s`;
+    ctx.fillText(end, canvas.width - MARGIN.right - ctx.measureText(end).width, canvas.height - 2);
+  }, [samples, cellLength, value, color]);
+
+  return (
+    <div className="col-span-1 md:col-span-2 bg-slate-800 rounded-lg border border-slate-700 relative">
+      <span className="absolute top-1 left-3 text-[10px] font-bold text-slate-400 z-10 uppercase">{title}</span>
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full block" />
+    </div>
+  );
+};
+
+const microDensity = (s: MacroSample, i: number) => s.micro[i];
+const macroDensity = (s: MacroSample, i: number) => s.macro[i];
+const densityDifference = (s: MacroSample, i: number) => s.macro[i] - s.micro[i];
+
+const MacroPanel: React.FC<Props> = ({ macro, config, lanes }) => {
+  const samples = macro?.samples ?? [];
+  const cellLength = macro?.cellLength ?? config.cellLength;
+  const densityColor = (k: number) => densityToColor(k, config.jamDensity);
+  const differenceColor = (d: number) => differenceToColor(d, config.jamDensity / 4);
+  const ttsChange = macro && macro.microTts > 0 ? (macro.macroTts / macro.microTts - 1) * 100 : null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-7 gap-4 w-full h-full">
+
+      {/* Error summary */}
+      <div className="col-span-1 bg-slate-800 p-2 rounded-lg border border-slate-700 text-[10px] font-mono text-slate-400 space-y-1 overflow-y-auto">
+        <div className="font-bold uppercase">CTM vs Micro</div>
+        {!macro ? (
+          <div className="text-slate-600">Enable the cell transmission model in the Macroscopic Model section</div>
+        ) : (
+          <>
+            <div title="Root-mean-square difference of the cell densities over the shown window">
+              RMSE <span className="text-slate-200">{macro.rmse.toFixed(1)}</span> veh/km/ln
+            </div>
+            <div>MAE <span className="text-slate-200">{macro.mae.toFixed(1)}</span> · bias {macro.bias >= 0 ? '+' : ''}{macro.bias.toFixed(1)}</div>
+            <div title="Total time spent on the road over the shown window">
+              TTS {macro.microTts.toFixed(1)} / {macro.macroTts.toFixed(1)} veh·h
+              {ttsChange !== null && <span className={Math.abs(ttsChange) > 10 ? 'text-amber-400' : ''}> ({ttsChange >= 0 ? '+' : ''}{ttsChange.toFixed(0)}%)</span>}
+            </div>
+            <div>Vehicles {macro.microVehicles} / {macro.macroVehicles.toFixed(0)}</div>
+            {macro.entryQueue >= 1 && <div title="Demand the CTM could not yet let onto the road">CTM queue {macro.entryQueue.toFixed(0)} veh</div>}
+            <div className="text-slate-500 pt-1">
+              {samples.length} samples · {macro.cellLength.toFixed(0)} m cells · {lanes} ln
+            </div>
+          </>
+        )}
+      </div>
+
+      <DensityField title="Micro density" samples={samples} cellLength={cellLength} value={microDensity} color={densityColor} />
+      <DensityField
+        title={<>CTM density <span className="normal-case font-normal">v_f {config.freeSpeed} · q {config.capacity} · k_j {config.jamDensity}</span></>}
+        samples={samples} cellLength={cellLength} value={macroDensity} color={densityColor}
+      />
+      <DensityField
+        title={<>CTM − Micro <span className="text-sky-400">fewer</span> / <span className="text-red-400">more</span></>}
+        samples={samples} cellLength={cellLength} value={densityDifference} color={differenceColor}
+      />
+    </div>
+  );
+};
+
+export default MacroPanel;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { ControlStats, RampMeterConfig, SignalConfig, RampMeterAlgorithm } from '../types';
+import { ComposedChart, AreaChart, Area, Line, ReferenceLine, ResponsiveContainer, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+
+interface Props {
+  control: ControlStats;
+  meters: RampMeterConfig[];
+  signals: SignalConfig[];
+}
+
+const ALGORITHM_LABELS: Record<RampMeterAlgorithm, string> = {
+  [RampMeterAlgorithm.ALINEA]: 'ALINEA',
+  [RampMeterAlgorithm.PI_ALINEA]: 'PI-ALINEA'
+};
+
+const tooltipStyle = { backgroundColor: '#1e293b', borderColor: '#334155', fontSize: '12px' };
+
+const MeteringPanel: React.FC<Props> = ({ control, meters, signals }) => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const meter = meters.find(m => m.id === selectedId) ?? meters[0];
+  const state = meter && control.meters.find(m => m.id === meter.id);
+  const history = (state?.history ?? []).map(s => ({ ...s, minutes: s.time / 60 }));
+  const queueOf = (rampId: number) => control.rampQueues.find(q => q.rampId === rampId)?.queue ?? 0;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-4 w-full h-full">
+
+      {/* Current rates, queues and signal phases */}
+      <div className="col-span-1 bg-slate-800 p-2 rounded-lg border border-slate-700 flex flex-col min-h-0 text-[10px] font-mono text-slate-400">
+        <div className="flex-1 overflow-y-auto space-y-1">
+          {meters.length === 0 && signals.length === 0 && <div className="text-slate-600">No signals or ramp meters</div>}
+          {meters.map(m => {
+            const s = control.meters.find(x => x.id === m.id);
+            return (
+              <button
+                key={m.id}
+                onClick={() => setSelectedId(m.id)}
+                className={`w-full text-left px-1 rounded ${m.id === meter?.id ? 'bg-slate-700 text-slate-200' : 'hover:text-slate-200'}`}
+              >
+                <span className="text-sky-400">{ALGORITHM_LABELS[m.algorithm]}</span> ramp {m.rampId}:{' '}
+                {(s?.rate ?? m.maxRate).toFixed(0)} veh/h · queue {queueOf(m.rampId)}
+              </button>
+            );
+          })}
+          {control.signals.map(s => {
+            const signal = signals.find(x => x.id === s.id);
+            if (!signal) return null;
+            return (
+              <div key={s.id} className="px-1">
+                <span className={s.green ? 'text-green-400' : 'text-red-400'}>● S{s.id}</span>
+                {' '}{signal.rampId === null ? `${signal.position} m` : `ramp ${signal.rampId}`}
+                {' '}{s.green ? 'green' : 'red'} {s.elapsed.toFixed(0)}s
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Metering rate against downstream occupancy and its set-point */}
+      <div className="col-span-1 md:col-span-3 bg-slate-800 p-2 rounded-lg border border-slate-700 relative">
+        <span className="absolute top-2 left-3 text-[10px] font-bold text-slate-400 z-10 uppercase">
+          Metering Rate <span className="text-sky-400">(veh/h)</span> vs Occupancy <span className="text-amber-400">(%)</span>
+          {meter && <span className="normal-case font-normal"> · D{meter.detectorId}, ô = {meter.targetOccupancy}%</span>}
+        </span>
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={history} margin={{ top: 20, right: 0, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <XAxis dataKey="minutes" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(m: number) => `${m.toFixed(0)}m`} tick={{ fontSize: 10, fill: '#64748b' }} />
+            <YAxis yAxisId="rate" domain={[0, meter?.maxRate ?? 'auto']} tick={{ fontSize: 10, fill: '#64748b' }} width={36} />
+            <YAxis yAxisId="occupancy" orientation="right" domain={[0, 50]} tick={{ fontSize: 10, fill: '#64748b' }} width={26} />
+            <Tooltip contentStyle={tooltipStyle} labelFormatter={(m: number) => `t = ${(m * 60).toFixed(0)} s`} />
+            {meter && <ReferenceLine yAxisId="occupancy" y={meter.targetOccupancy} stroke="#fbbf24" strokeDasharray="4 3" />}
+            <Line yAxisId="rate" type="stepAfter" dataKey="rate" name="Rate" stroke="#38bdf8" dot={false} isAnimationActive={false} strokeWidth={2} />
+            <Line yAxisId="occupancy" type="monotone" dataKey="occupancy" name="Occupancy" stroke="#fbbf24" dot={false} isAnimationActive={false} strokeWidth={1.5} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Ramp queue at each control update */}
+      <div className="col-span-1 bg-slate-800 p-2 rounded-lg border border-slate-700 relative">
+        <span className="absolute top-2 left-3 text-[10px] font-bold text-slate-400 z-10 uppercase">Ramp Queue (veh)</span>
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={history} margin={{ top: 20, right: 10, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <XAxis dataKey="minutes" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(m: number) => `${m.toFixed(0)}m`} tick={{ fontSize: 10, fill: '#64748b' }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 10, fill: '#64748b' }} width={30} />
+            <Tooltip contentStyle={tooltipStyle} labelFormatter={(m: number) => `t = ${(m * 60).toFixed(0)} s`} />
+            <Area type="stepAfter" dataKey="queue" name="Queue" stroke="#f472b6" fill="#f472b633" isAnimationActive={false} />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default MeteringPanel;
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { SafetyStats, ConflictType } from '../types';
+import { BarChart, Bar, ResponsiveContainer, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+
+interface Props {
+  safety: SafetyStats;
+}
+
+const CONFLICT_COLORS: Record<ConflictType, string> = {
+  [ConflictType.TTC]: '#fbbf24',
+  [ConflictType.DRAC]: '#fb923c',
+  [ConflictType.PET]: '#38bdf8',
+  [ConflictType.CRASH]: '#ef4444'
+};
+
+const CONFLICT_UNITS: Record<ConflictType, string> = {
+  [ConflictType.TTC]: 's',
+  [ConflictType.DRAC]: 'm/s²',
+  [ConflictType.PET]: 's',
+  [ConflictType.CRASH]: 'm overlap'
+};
+
+const HISTOGRAM_TYPES = [ConflictType.TTC, ConflictType.DRAC, ConflictType.PET];
+
+const tooltipStyle = { backgroundColor: '#1e293b', borderColor: '#334155', fontSize: '12px' };
+
+const SafetyPanel: React.FC<Props> = ({ safety }) => {
+  const [histType, setHistType] = useState<ConflictType>(ConflictType.TTC);
+
+  const histogram = safety.histogram
+    .filter(b => b.type === histType)
+    .map(b => ({ label: b.to === null ? `≥${b.from.toFixed(1)}` : `${b.from.toFixed(1)}–${b.to.toFixed(1)}`, count: b.count }));
+  const hotspots = safety.hotspots.map(h => ({ km: (h.position / 1000).toFixed(1), ...h.counts }));
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-4 w-full h-full">
+
+      {/* Counts and event log */}
+      <div className="col-span-1 bg-slate-800 p-2 rounded-lg border border-slate-700 flex flex-col min-h-0">
+        <div className="grid grid-cols-4 gap-1 mb-1">
+          {Object.values(ConflictType).map(type => (
+            <div key={type} className="text-center">
+              <div className="text-[9px] font-bold uppercase" style={{ color: CONFLICT_COLORS[type] }}>{type}</div>
+              <div className="text-sm font-mono font-bold text-slate-200">{safety.counts[type]}</div>
+            </div>
+          ))}
+        </div>
+        <div className="flex-1 overflow-y-auto text-[10px] font-mono text-slate-400 space-y-0.5">
+          {safety.events.length === 0 && <div className="text-slate-600">No conflicts yet</div>}
+          {safety.events.map((e, i) => (
+            <div key={i} title={`Vehicle ${e.followerId} behind ${e.leaderId}`}>
+              <span style={{ color: CONFLICT_COLORS[e.type] }}>{e.type}</span>
+              {' '}{e.value.toFixed(2)} {CONFLICT_UNITS[e.type]} · {(e.position / 1000).toFixed(2)} km L{e.lane + 1} · t={e.time.toFixed(0)}s
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Severity histogram */}
+      <div className="col-span-1 md:col-span-2 bg-slate-800 p-2 rounded-lg border border-slate-700 relative">
+        <span className="absolute top-2 left-3 text-[10px] font-bold text-slate-400 z-10 uppercase">Conflict Severity ({CONFLICT_UNITS[histType]})</span>
+        <div className="absolute top-1.5 right-3 z-10 flex gap-1 text-[9px] uppercase font-bold">
+          {HISTOGRAM_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => setHistType(type)}
+              className={`px-1.5 py-0.5 rounded ${histType === type ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {type}
+            </button>
+          ))}
+        </div>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={histogram} margin={{ top: 20, right: 10, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#64748b' }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 10, fill: '#64748b' }} width={30} />
+            <Tooltip contentStyle={tooltipStyle} cursor={{ fill: '#33415555' }} />
+            <Bar dataKey="count" name="Events" fill={CONFLICT_COLORS[histType]} isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Hotspot map along the road */}
+      <div className="col-span-1 md:col-span-2 bg-slate-800 p-2 rounded-lg border border-slate-700 relative">
+        <span className="absolute top-2 left-3 text-[10px] font-bold text-slate-400 z-10 uppercase">Hotspots (events per section, km)</span>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={hotspots} margin={{ top: 20, right: 10, bottom: 0, left: 0 }} barCategoryGap={0}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            <XAxis dataKey="km" tick={{ fontSize: 10, fill: '#64748b' }} minTickGap={20} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 10, fill: '#64748b' }} width={30} />
+            <Tooltip contentStyle={tooltipStyle} cursor={{ fill: '#33415555' }} />
+            {Object.values(ConflictType).map(type => (
+              <Bar key={type} dataKey={type} stackId="events" fill={CONFLICT_COLORS[type]} isAnimationActive={false} />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default SafetyPanel;
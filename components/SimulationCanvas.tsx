@@ -1,49 +1,60 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { TrafficModel } from '../services/TrafficPhysics';
-import { SimulationConfig, Vehicle, VehicleType } from '../types';
+import { SimulationClient } from '../services/SimulationClient';
+import { SimulationSnapshot, VehicleSnapshot } from '../services/SimulationProtocol';
+import { isIncidentActive, RUBBERNECK_UPSTREAM, RUBBERNECK_DOWNSTREAM } from '../services/Incidents';
+import { SimulationConfig, Jam } from '../types';
+
+// Emission overlay: green (idling) to red (EMISSION_SCALE g/s CO2 and above), square-root scale
+const EMISSION_SCALE = 30;
+const emissionColor = (rate: number) => `hsl(${(120 * (1 - Math.min(1, Math.sqrt(rate / EMISSION_SCALE)))).toFixed(0)}, 85%, 50%)`;
 
 interface Props {
-  model: TrafficModel;
+  client: SimulationClient;
   config: SimulationConfig;
-  onStatsUpdate: (stats: any) => void;
+  jams: Jam[];
+  onPlaceIncident?: (position: number, lane: number) => void; // Set while in placement mode
 }
 
-const SimulationCanvas: React.FC<Props> = ({ model, config, onStatsUpdate }) => {
+// Signed front speed for labels
+const frontSpeedLabel = (speed: number | null) => speed === null ? '…' : `${speed >= 0 ? '+' : '−'}${Math.abs(speed).toFixed(0)}`;
+
+const SimulationCanvas: React.FC<Props> = ({ client, config, jams, onPlaceIncident }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [viewportOffset, setViewportOffset] = useState(0); 
+  const [showEmissions, setShowEmissions] = useState(false);
+  const [showJams, setShowJams] = useState(true);
   
   // Render Constants
   const PIXELS_PER_METER = 5; 
   const LANE_WIDTH_M = 3.5;
   const LANE_HEIGHT_PX = LANE_WIDTH_M * PIXELS_PER_METER; // ~17.5px
   const ROAD_TOP_MARGIN = 80;
+  const RAMP_TAPER_M = 40;
+  const OFFRAMP_DECEL_LANE_M = 150;
+
+  // Latest props for the render loop, which subscribes once per client
+  const configRef = useRef(config);
+  configRef.current = config;
+  const viewportRef = useRef(viewportOffset);
+  viewportRef.current = viewportOffset;
+  const showEmissionsRef = useRef(showEmissions);
+  showEmissionsRef.current = showEmissions;
+  const jamsRef = useRef(showJams ? jams : []);
+  jamsRef.current = showJams ? jams : [];
 
   useEffect(() => {
     let animationFrameId: number;
-    let lastTime = performance.now();
-    let frameCount = 0;
 
+    // The simulation runs in the worker: only interpolate and draw here
     const render = (time: number) => {
-      // Robust Delta Time
-      let dt = (time - lastTime) / 1000;
-      if (dt > 0.1) dt = 0.1; // Cap at 100ms to prevent explosion on tab switch
-      lastTime = time;
-
-      if (!config.isPaused) {
-        model.step(config);
-      }
-
-      frameCount++;
-      if (frameCount % 10 === 0) {
-        onStatsUpdate(model.getStats());
-      }
-      
-      draw(model, time);
+      if (client.latest) draw(client.latest, client.interpolatedVehicles(time), time);
       animationFrameId = requestAnimationFrame(render);
     };
 
-    const draw = (sim: TrafficModel, time: number) => {
+    const draw = (sim: SimulationSnapshot, vehicles: VehicleSnapshot[], time: number) => {
+      const config = configRef.current;
+      const viewportOffset = viewportRef.current;
       const canvas = canvasRef.current;
       const ctx = canvas?.getContext('2d', { alpha: false });
       if (!canvas || !ctx) return;
@@ -58,7 +69,7 @@ const SimulationCanvas: React.FC<Props> = ({ model, config, onStatsUpdate }) =>
 
       // --- Road Rendering ---
       const roadY = ROAD_TOP_MARGIN;
-      const roadHeight = LANE_HEIGHT_PX * 3;
+      const roadHeight = LANE_HEIGHT_PX * sim.lanes;
       
       // Shoulders
       ctx.fillStyle = '#334155'; // Gravel/Shoulder
@@ -79,7 +90,7 @@ const SimulationCanvas: React.FC<Props> = ({ model, config, onStatsUpdate }) =>
       ctx.setLineDash([20, 20]);
       ctx.lineDashOffset = lineDashOffset;
 
-      for (let i = 1; i < 3; i++) {
+      for (let i = 1; i < sim.lanes; i++) {
         const y = roadY + i * LANE_HEIGHT_PX;
         ctx.beginPath();
         ctx.moveTo(0, y);
@@ -101,12 +112,214 @@ const SimulationCanvas: React.FC<Props> = ({ model, config, onStatsUpdate }) =>
       ctx.lineTo(width, roadY + roadHeight);
       ctx.stroke();
 
+      // --- Ramps ---
+      const rampY = roadY + roadHeight;
+      const toSx = (x: number) => (x - viewportOffset) * PIXELS_PER_METER;
+      ctx.font = '10px monospace';
+
+      for (const ramp of config.onRamps) {
+        const x0 = toSx(ramp.position);
+        const x1 = toSx(ramp.position + ramp.length);
+        if (x1 < -200 || x0 > width + 200) continue;
+        const taper = RAMP_TAPER_M * PIXELS_PER_METER;
+
+        // Acceleration lane with entry taper from below and closing taper at the end
+        ctx.fillStyle = '#1e293b';
+        ctx.beginPath();
+        ctx.moveTo(x0 - taper, rampY + LANE_HEIGHT_PX * 2);
+        ctx.lineTo(x0, rampY);
+        ctx.lineTo(x1, rampY);
+        ctx.lineTo(x1 + taper, rampY);
+        ctx.lineTo(x1, rampY + LANE_HEIGHT_PX);
+        ctx.lineTo(x0, rampY + LANE_HEIGHT_PX);
+        ctx.lineTo(x0 - taper, rampY + LANE_HEIGHT_PX * 3);
+        ctx.closePath();
+        ctx.fill();
+
+        // Broken edge line where merging is allowed
+        ctx.strokeStyle = '#1e293b';
+        ctx.lineWidth = 3;
+        ctx.beginPath();
+        ctx.moveTo(x0, rampY);
+        ctx.lineTo(x1, rampY);
+        ctx.stroke();
+        ctx.strokeStyle = 'rgba(255,255,255,0.6)';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([6, 6]);
+        ctx.beginPath();
+        ctx.moveTo(x0, rampY);
+        ctx.lineTo(x1, rampY);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = '#38bdf8';
+        const metered = config.rampMeters.some(m => m.rampId === ramp.id);
+        ctx.fillText(`ON-RAMP ${ramp.inflowRate} veh/h${metered ? ' · METERED' : ''}`, x0 + 4, rampY + LANE_HEIGHT_PX + 12);
+      }
+
+      for (const ramp of config.offRamps) {
+        const x1 = toSx(ramp.position);
+        const x0 = toSx(ramp.position - OFFRAMP_DECEL_LANE_M);
+        if (x1 < -200 || x0 > width + 200) continue;
+        const taper = RAMP_TAPER_M * PIXELS_PER_METER;
+
+        // Deceleration lane diverging to the right
+        ctx.fillStyle = '#1e293b';
+        ctx.beginPath();
+        ctx.moveTo(x0 - taper, rampY);
+        ctx.lineTo(x1, rampY);
+        ctx.lineTo(x1 + taper, rampY + LANE_HEIGHT_PX * 3);
+        ctx.lineTo(x1 + taper, rampY + LANE_HEIGHT_PX * 4);
+        ctx.lineTo(x1, rampY + LANE_HEIGHT_PX);
+        ctx.lineTo(x0, rampY + LANE_HEIGHT_PX);
+        ctx.closePath();
+        ctx.fill();
+
+        ctx.fillStyle = '#f472b6';
+        ctx.fillText(`EXIT ${(ramp.share * 100).toFixed(0)}%`, x0 + 4, rampY + LANE_HEIGHT_PX + 12);
+      }
+
+      // --- Speed Limit Zones (static: red, VSL: amber) ---
+      const drawZone = (start: number, end: number, limit: number, color: string) => {
+        const x0 = toSx(start);
+        const x1 = toSx(end);
+        if (x1 < 0 || x0 > width) return;
+        ctx.fillStyle = color + '33';
+        ctx.fillRect(x0, roadY - 9, x1 - x0, 4);
+
+        // Sign at the zone entry
+        ctx.beginPath();
+        ctx.arc(x0, roadY - 19, 8, 0, Math.PI * 2);
+        ctx.fillStyle = '#f8fafc';
+        ctx.fill();
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = color;
+        ctx.stroke();
+        ctx.fillStyle = '#0f172a';
+        ctx.font = 'bold 8px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.fillText(`${limit}`, x0, roadY - 16);
+        ctx.textAlign = 'left';
+      };
+      for (const zone of config.speedLimits) drawZone(zone.start, zone.end, zone.limit, '#ef4444');
+      for (const zone of sim.vslZones) drawZone(zone.start, zone.end, zone.limit, '#f59e0b');
+      ctx.lineWidth = 1;
+      ctx.font = '10px monospace';
+
+      // --- Signals: stop line across the mainline, or a light at the ramp entry ---
+      const signalStates = new Map(sim.signals.map(s => [s.id, s]));
+      for (const signal of config.signals) {
+        const ramp = signal.rampId !== null ? config.onRamps.find(r => r.id === signal.rampId) : undefined;
+        if (signal.rampId !== null && !ramp) continue;
+        const sx = toSx(ramp ? ramp.position : signal.position);
+        if (sx < -20 || sx > width + 20) continue;
+        const green = signalStates.get(signal.id)?.green ?? true;
+        const color = green ? '#22c55e' : '#ef4444';
+        const lightY = ramp ? rampY + LANE_HEIGHT_PX * 2 + 8 : roadY - 30;
+
+        if (!ramp) {
+          ctx.fillStyle = color;
+          ctx.fillRect(sx - 1, roadY, 3, roadHeight);
+        }
+        ctx.fillStyle = '#0f172a';
+        ctx.fillRect(sx - 5, lightY - 10, 10, 20);
+        ctx.beginPath();
+        ctx.arc(sx, lightY + (green ? 5 : -5), 3.5, 0, Math.PI * 2);
+        ctx.fillStyle = color;
+        ctx.fill();
+        ctx.fillStyle = '#cbd5e1';
+        ctx.fillText(`S${signal.id}`, sx + 8, lightY + 4);
+      }
+
+      // --- Incidents ---
+      for (const inc of config.incidents) {
+        const active = isIncidentActive(inc, sim.time);
+        const pending = sim.time < inc.startTime;
+        if (!active && !pending) continue;
+        const ix = toSx(inc.position);
+        if (ix < -RUBBERNECK_UPSTREAM * PIXELS_PER_METER || ix > width + 100) continue;
+
+        if (active && inc.rubberneckSpeed !== null) {
+          ctx.fillStyle = 'rgba(245, 158, 11, 0.12)';
+          ctx.fillRect(toSx(inc.position - RUBBERNECK_UPSTREAM), roadY, (RUBBERNECK_UPSTREAM + RUBBERNECK_DOWNSTREAM) * PIXELS_PER_METER, roadHeight);
+        }
+
+        for (const lane of inc.lanes) {
+          if (lane >= sim.lanes) continue;
+          const ly = roadY + lane * LANE_HEIGHT_PX + 2;
+          const blockW = 8 * PIXELS_PER_METER;
+          if (active) {
+            ctx.fillStyle = '#ef4444';
+            ctx.fillRect(ix, ly, blockW, LANE_HEIGHT_PX - 4);
+            ctx.fillStyle = '#fef08a';
+            for (let s = 0; s < blockW; s += 8) ctx.fillRect(ix + s, ly, 3, LANE_HEIGHT_PX - 4);
+          } else {
+            ctx.strokeStyle = 'rgba(239, 68, 68, 0.6)';
+            ctx.setLineDash([3, 3]);
+            ctx.strokeRect(ix, ly, blockW, LANE_HEIGHT_PX - 4);
+            ctx.setLineDash([]);
+          }
+        }
+        ctx.fillStyle = active ? '#ef4444' : 'rgba(239, 68, 68, 0.6)';
+        ctx.fillText(active ? `INCIDENT #${inc.id}` : `#${inc.id} @ ${inc.startTime}s`, ix, roadY - 12);
+      }
+
+      // --- Jams: congested stretch with tail and head, labelled with the front speeds (km/h) ---
+      for (const jam of jamsRef.current) {
+        // A jam across the ring seam is drawn at both ends of the road
+        for (const shift of jam.downstream > sim.roadLength ? [0, -sim.roadLength] : [0]) {
+          const x0 = toSx(jam.upstream + shift);
+          const x1 = toSx(jam.downstream + shift);
+          if (x1 < 0 || x0 > width) continue;
+          ctx.fillStyle = 'rgba(239, 68, 68, 0.12)';
+          ctx.fillRect(x0, roadY, x1 - x0, roadHeight);
+          ctx.fillStyle = '#f87171';
+          ctx.fillRect(x0, roadY - 4, 2, roadHeight + 8);
+          ctx.fillRect(x1 - 2, roadY - 4, 2, roadHeight + 8);
+          ctx.fillText(
+            `JAM #${jam.id} ${jam.length.toFixed(0)}m  tail ${frontSpeedLabel(jam.upstreamSpeed)} head ${frontSpeedLabel(jam.downstreamSpeed)} km/h`,
+            Math.max(x0, 4), roadY + roadHeight + 34
+          );
+        }
+      }
+
+      // Loop Detectors
+      for (const det of config.detectors) {
+        const dx = (det.position - viewportOffset) * PIXELS_PER_METER;
+        if (dx < -20 || dx > width + 20) continue;
+        ctx.fillStyle = 'rgba(250, 204, 21, 0.35)';
+        ctx.fillRect(dx - 1, roadY, 3, roadHeight);
+        ctx.fillStyle = '#facc15';
+        ctx.fillText(`D${det.id}`, dx - 6, roadY + roadHeight + 22);
+      }
+
       // --- Vehicle Rendering (LOD) ---
       // Filter visible vehicles + buffer
-      const visibleVehicles = sim.vehicles.filter(v => 
+      const visibleVehicles = vehicles.filter(v => 
         v.x >= viewportOffset - 20 && v.x <= viewportOffset + viewWidthMeters + 20
       );
 
+      // V2V links between consecutive platoon members
+      const platoonSlots = new Map<string, VehicleSnapshot>();
+      for (const v of visibleVehicles) {
+        if (v.platoonId !== null) platoonSlots.set(`${v.platoonId}:${v.platoonIndex}`, v);
+      }
+      ctx.strokeStyle = 'rgba(232, 121, 249, 0.7)';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([3, 3]);
+      for (const v of visibleVehicles) {
+        if (v.platoonId === null || v.platoonIndex === 0) continue;
+        const ahead = platoonSlots.get(`${v.platoonId}:${v.platoonIndex - 1}`);
+        if (!ahead || ahead.x < v.x) continue; // Link across the ring seam is not drawn
+        const y1 = roadY + (v.y + 0.5) * LANE_HEIGHT_PX;
+        const y2 = roadY + (ahead.y + 0.5) * LANE_HEIGHT_PX;
+        ctx.beginPath();
+        ctx.moveTo((v.x - viewportOffset) * PIXELS_PER_METER + v.length * PIXELS_PER_METER, y1);
+        ctx.lineTo((ahead.x - viewportOffset) * PIXELS_PER_METER, y2);
+        ctx.stroke();
+      }
+      ctx.setLineDash([]);
+
       for (const v of visibleVehicles) {
         const sx = (v.x - viewportOffset) * PIXELS_PER_METER;
         const sy = roadY + v.y * LANE_HEIGHT_PX + (LANE_HEIGHT_PX - v.width * PIXELS_PER_METER)/2;
@@ -118,7 +331,7 @@ const SimulationCanvas: React.FC<Props> = ({ model, config, onStatsUpdate }) =>
         ctx.fillRect(sx + 2, sy + 2, vLen, vWid);
 
         // Body
-        ctx.fillStyle = (v as any).isCrashed ? '#ef4444' : v.color;
+        ctx.fillStyle = showEmissionsRef.current ? emissionColor(v.emissionRate) : v.color;
         ctx.beginPath();
         ctx.roundRect(sx, sy, vLen, vWid, 3);
         ctx.fill();
@@ -189,9 +402,9 @@ const SimulationCanvas: React.FC<Props> = ({ model, config, onStatsUpdate }) =>
       // Minimap Dots
       // Optimize: Only draw every Nth car if count > 1000? 
       // Canvas rects are fast, 3000 is fine.
-      for (const v of sim.vehicles) {
+      for (const v of vehicles) {
         const mx = mmX + v.x * mmScale;
-        const my = mmY + (v.y / 3) * mmHeight; // Map lanes to height
+        const my = mmY + (v.y / sim.lanes) * mmHeight; // Map lanes to height
         
         // Color based on speed for heat map effect in minimap
         // Red < 20kmh, Yellow < 60kmh, Green > 60kmh
@@ -203,17 +416,42 @@ const SimulationCanvas: React.FC<Props> = ({ model, config, onStatsUpdate }) =>
         ctx.fillRect(mx, my, 2, 3);
       }
       
+      // Minimap Jams
+      ctx.fillStyle = 'rgba(239, 68, 68, 0.3)';
+      for (const jam of jamsRef.current) {
+        ctx.fillRect(mmX + jam.upstream * mmScale, mmY, (Math.min(jam.downstream, sim.roadLength) - jam.upstream) * mmScale, mmHeight);
+        if (jam.downstream > sim.roadLength) ctx.fillRect(mmX, mmY, (jam.downstream - sim.roadLength) * mmScale, mmHeight);
+      }
+
+      // Minimap Incident Markers
+      ctx.fillStyle = '#ef4444';
+      for (const inc of config.incidents) {
+        if (isIncidentActive(inc, sim.time)) ctx.fillRect(mmX + inc.position * mmScale - 1, mmY, 3, mmHeight);
+      }
+
+      // Minimap Detector Ticks
+      ctx.fillStyle = '#facc15';
+      for (const det of config.detectors) {
+        ctx.fillRect(mmX + det.position * mmScale, mmY + mmHeight, 1, 4);
+      }
+      
       // Scale markings
       ctx.fillStyle = '#64748b';
       ctx.font = '10px sans-serif';
+      const km = (m: number) => `${Number((m / 1000).toFixed(1))}km`;
+      const end = km(sim.roadLength);
       ctx.fillText('0km', mmX, mmY + mmHeight + 12);
-      ctx.fillText('2.5km', mmX + mmWidth/2, mmY + mmHeight + 12);
-      ctx.fillText('5km', mmX + mmWidth - 20, mmY + mmHeight + 12);
+      ctx.fillText(km(sim.roadLength / 2), mmX + mmWidth/2, mmY + mmHeight + 12);
+      ctx.fillText(end, mmX + mmWidth - ctx.measureText(end).width, mmY + mmHeight + 12);
+
+      // Measured simulation speed (worker throughput)
+      ctx.fillStyle = '#64748b';
+      ctx.fillText(`t=${sim.time.toFixed(0)}s  ${sim.realtimeFactor.toFixed(1)}x real time`, mmX, height - 8);
     };
 
     animationFrameId = requestAnimationFrame(render);
     return () => cancelAnimationFrame(animationFrameId);
-  }, [model, config, viewportOffset]);
+  }, [client]);
 
   // Resize Handler
   useEffect(() => {
@@ -232,10 +470,21 @@ const SimulationCanvas: React.FC<Props> = ({ model, config, onStatsUpdate }) =>
     const delta = e.deltaY + e.deltaX;
     setViewportOffset(prev => {
       const next = prev + delta * 1.0; 
-      return Math.max(0, Math.min(next, model.roadLength - 100));
+      return Math.max(0, Math.min(next, (client.latest?.roadLength ?? config.roadLength) - 100));
     });
   };
 
+  const handleClick = (e: React.MouseEvent) => {
+    if (!onPlaceIncident || !canvasRef.current) return;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const position = viewportOffset + (e.clientX - rect.left) / PIXELS_PER_METER;
+    const lane = Math.floor((e.clientY - rect.top - ROAD_TOP_MARGIN) / LANE_HEIGHT_PX);
+    const lanes = client.latest?.lanes ?? config.lanes;
+    const roadLength = client.latest?.roadLength ?? config.roadLength;
+    if (lane < 0 || lane >= lanes || position < 0 || position > roadLength) return;
+    onPlaceIncident(position, lane);
+  };
+
   return (
     <div ref={containerRef} className="flex-1 relative h-full w-full overflow-hidden bg-slate-900 border-2 border-slate-700 rounded-lg shadow-inner">
       <div className="absolute top-2 left-4 text-xs font-mono text-slate-400 pointer-events-none opacity-70 z-10">
@@ -244,10 +493,25 @@ const SimulationCanvas: React.FC<Props> = ({ model, config, onStatsUpdate }) =>
             <span>VIEW: {viewportOffset.toFixed(0)}m - {(viewportOffset + (containerRef.current?.clientWidth || 0)/PIXELS_PER_METER).toFixed(0)}m</span>
         </div>
       </div>
+      <button
+        onClick={() => setShowEmissions(!showEmissions)}
+        className={`absolute bottom-2 right-4 z-10 px-2 py-0.5 rounded text-[10px] font-mono border ${showEmissions ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-900/70 border-slate-700 text-slate-400 hover:text-white'}`}
+        title={`Colour vehicles by current CO₂ emission rate (green idle, red ≥ ${EMISSION_SCALE} g/s)`}
+      >
+        CO₂ overlay
+      </button>
+      <button
+        onClick={() => setShowJams(!showJams)}
+        className={`absolute bottom-2 right-28 z-10 px-2 py-0.5 rounded text-[10px] font-mono border ${showJams ? 'bg-slate-700 border-slate-500 text-white' : 'bg-slate-900/70 border-slate-700 text-slate-400 hover:text-white'}`}
+        title="Mark detected jams with their tail and head fronts and propagation speeds"
+      >
+        Jam overlay
+      </button>
       <canvas 
         ref={canvasRef} 
         onWheel={handleWheel}
-        className="w-full h-full block cursor-ew-resize touch-none"
+        onClick={handleClick}
+        className={`w-full h-full block touch-none ${onPlaceIncident ? 'cursor-crosshair' : 'cursor-ew-resize'}`}
       />
     </div>
   );
@@ -0,0 +1,216 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { SimulationClient } from '../services/SimulationClient';
+import { SpaceTimeBuffer, SpaceTimePoint, speedToColor } from '../services/SpaceTime';
+
+interface Props {
+  client: SimulationClient;
+}
+
+interface HoverInfo {
+  px: number;
+  py: number;
+  t: number;
+  point: SpaceTimePoint;
+}
+
+interface Measure {
+  t0: number; x0: number;
+  t1: number; x1: number;
+}
+
+const WINDOWS = [120, 300, 600]; // Rolling window options (s)
+const MARGIN = { left: 40, right: 10, top: 8, bottom: 18 };
+
+const SpaceTimeDiagram: React.FC<Props> = ({ client }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const bufferRef = useRef(new SpaceTimeBuffer(1.0));
+  const [lane, setLane] = useState<number | null>(null);
+  const [windowSec, setWindowSec] = useState(300);
+  const [hover, setHover] = useState<HoverInfo | null>(null);
+  const [measure, setMeasure] = useState<Measure | null>(null);
+  const draggingRef = useRef(false);
+
+  // Screen <-> (t, x) mapping for the current canvas size
+  const getScale = () => {
+    const canvas = canvasRef.current;
+    const w = (canvas?.width || 1) - MARGIN.left - MARGIN.right;
+    const h = (canvas?.height || 1) - MARGIN.top - MARGIN.bottom;
+    const roadLength = client.latest?.roadLength ?? 1;
+    const tEnd = Math.max(windowSec, client.latest?.time ?? 0);
+    const tStart = tEnd - windowSec;
+    return {
+      tStart, tEnd,
+      toPx: (t: number) => MARGIN.left + ((t - tStart) / windowSec) * w,
+      toPy: (x: number) => MARGIN.top + h - (x / roadLength) * h,
+      toT: (px: number) => tStart + ((px - MARGIN.left) / w) * windowSec,
+      toX: (py: number) => ((MARGIN.top + h - py) / h) * roadLength
+    };
+  };
+
+  useEffect(() => {
+    let animationFrameId: number;
+    let dirty = true;
+
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d', { alpha: false });
+      if (!canvas || !ctx) return;
+
+      const { tStart, tEnd, toPx, toPy } = getScale();
+      ctx.fillStyle = '#020617';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      // Trajectory points coloured by speed
+      const samples = bufferRef.current.samples;
+      const dotW = Math.max(1.5, (canvas.width - MARGIN.left - MARGIN.right) / (windowSec / bufferRef.current.sampleInterval));
+      for (const s of samples) {
+        if (s.t < tStart) continue;
+        const px = toPx(s.t);
+        for (const p of s.points) {
+          if (lane !== null && p.lane !== lane) continue;
+          ctx.fillStyle = speedToColor(p.v * 3.6);
+          ctx.fillRect(px, toPy(p.x) - 1, dotW, 2);
+        }
+      }
+
+      // Axes
+      ctx.strokeStyle = '#334155';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(MARGIN.left, MARGIN.top, canvas.width - MARGIN.left - MARGIN.right, canvas.height - MARGIN.top - MARGIN.bottom);
+      ctx.fillStyle = '#64748b';
+      ctx.font = '10px sans-serif';
+      for (let km = 0; km <= (client.latest?.roadLength ?? 0) / 1000; km++) {
+        ctx.fillText(`${km}km`, 4, toPy(km * 1000) + 3);
+      }
+      const tickStep = windowSec / 5;
+      for (let t = Math.ceil(tStart / tickStep) * tickStep; t <= tEnd; t += tickStep) {
+        ctx.fillText(`${t.toFixed(0)}s`, toPx(t) - 8, canvas.height - 4);
+      }
+
+      // Wave speed measuring line
+      if (measure) {
+        ctx.strokeStyle = '#f8fafc';
+        ctx.setLineDash([4, 3]);
+        ctx.beginPath();
+        ctx.moveTo(toPx(measure.t0), toPy(measure.x0));
+        ctx.lineTo(toPx(measure.t1), toPy(measure.x1));
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
+    };
+
+    const tick = () => {
+      const buffer = bufferRef.current;
+      const snapshot = client.latest;
+      if (snapshot && buffer.record(snapshot.time, snapshot.vehicles, WINDOWS[WINDOWS.length - 1])) dirty = true;
+      if (dirty) {
+        draw();
+        dirty = false;
+      }
+      animationFrameId = requestAnimationFrame(tick);
+    };
+
+    animationFrameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [client, lane, windowSec, measure]);
+
+  // Resize Handler
+  useEffect(() => {
+    const resize = () => {
+      if (containerRef.current && canvasRef.current) {
+        canvasRef.current.width = containerRef.current.clientWidth;
+        canvasRef.current.height = containerRef.current.clientHeight;
+      }
+    };
+    window.addEventListener('resize', resize);
+    resize();
+    return () => window.removeEventListener('resize', resize);
+  }, []);
+
+  const eventPos = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return { px: e.clientX - rect.left, py: e.clientY - rect.top };
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const { px, py } = eventPos(e);
+    const { toT, toX } = getScale();
+    draggingRef.current = true;
+    setMeasure({ t0: toT(px), x0: toX(py), t1: toT(px), x1: toX(py) });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const { px, py } = eventPos(e);
+    const { toT, toX } = getScale();
+    const t = toT(px);
+    const x = toX(py);
+
+    if (draggingRef.current) {
+      setMeasure(prev => prev ? { ...prev, t1: t, x1: x } : prev);
+      return;
+    }
+
+    const metersPerPx = (client.latest?.roadLength ?? 0) / Math.max(1, (canvasRef.current?.height || 1) - MARGIN.top - MARGIN.bottom);
+    const hit = bufferRef.current.nearest(t, x, lane, metersPerPx * 6);
+    setHover(hit ? { px, py, t: hit.sample.t, point: hit.point } : null);
+  };
+
+  const handleMouseUp = () => {
+    draggingRef.current = false;
+  };
+
+  const waveSpeed = measure && Math.abs(measure.t1 - measure.t0) > 1
+    ? ((measure.x1 - measure.x0) / (measure.t1 - measure.t0)) * 3.6
+    : null;
+
+  return (
+    <div className="h-full flex flex-col bg-slate-800 rounded-lg border border-slate-700">
+      <div className="flex items-center gap-3 px-3 py-1 text-[10px] text-slate-400">
+        <span className="font-bold uppercase">Space-Time Diagram (x-t)</span>
+        <select
+          value={lane === null ? 'all' : lane}
+          onChange={(e) => setLane(e.target.value === 'all' ? null : Number(e.target.value))}
+          className="bg-slate-900 border border-slate-700 rounded px-1 text-slate-300"
+        >
+          <option value="all">All lanes</option>
+          {Array.from({ length: client.latest?.lanes ?? 0 }, (_, i) => (
+            <option key={i} value={i}>Lane {i + 1}</option>
+          ))}
+        </select>
+        <select
+          value={windowSec}
+          onChange={(e) => setWindowSec(Number(e.target.value))}
+          className="bg-slate-900 border border-slate-700 rounded px-1 text-slate-300"
+        >
+          {WINDOWS.map(w => <option key={w} value={w}>{w / 60} min</option>)}
+        </select>
+        <span className="ml-auto font-mono">
+          {waveSpeed !== null ? `Wave speed: ${waveSpeed.toFixed(1)} km/h` : 'Drag to measure wave speed'}
+        </span>
+      </div>
+      <div ref={containerRef} className="flex-1 relative">
+        <canvas
+          ref={canvasRef}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={() => { handleMouseUp(); setHover(null); }}
+          className="absolute inset-0 w-full h-full block cursor-crosshair"
+        />
+        {hover && (
+          <div
+            className="absolute pointer-events-none bg-slate-900/95 border border-slate-700 rounded px-2 py-1 text-[10px] font-mono text-slate-300"
+            style={{ left: hover.px + 12, top: Math.max(0, hover.py - 40) }}
+          >
+            <div>#{hover.point.id} @ {hover.point.x.toFixed(0)}m, t={hover.t.toFixed(0)}s</div>
+            <div>v = {(hover.point.v * 3.6).toFixed(1)} km/h</div>
+            <div>a = {hover.point.a.toFixed(2)} m/s²</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpaceTimeDiagram;
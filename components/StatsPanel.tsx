@@ -1,13 +1,24 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { SimulationStats } from '../types';
-import { AreaChart, Area, ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { ComposedChart, Area, Line, ResponsiveContainer, ScatterChart, Scatter, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
 
 interface Props {
   stats: SimulationStats;
   history: any[];
+  lanes: number;
 }
 
-const StatsPanel: React.FC<Props> = ({ stats, history }) => {
+// Per-lane axis limits for the fundamental diagram
+const MAX_DENSITY_PER_LANE = 50; // veh/km
+const MAX_FLOW_PER_LANE = 2000;  // veh/h
+
+const DETECTOR_COLORS = ['#f472b6', '#38bdf8', '#facc15', '#4ade80', '#fb923c', '#a78bfa'];
+
+const StatsPanel: React.FC<Props> = ({ stats, history, lanes }) => {
+  const [fdSource, setFdSource] = useState<'global' | 'detectors'>('global');
+  const detectorIds = Array.from(new Set(stats.detectorPoints.map(p => p.detectorId)));
+  const showDemand = history.some(h => h.demand > 0);
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-5 gap-4 w-full h-auto md:h-48">
       
@@ -19,6 +30,12 @@ const StatsPanel: React.FC<Props> = ({ stats, history }) => {
             <span className="text-2xl font-mono font-bold text-purple-400">{stats.density.toFixed(1)}</span>
             <span className="text-xs text-slate-500">v/km</span>
           </div>
+          <span
+            className="text-[10px] font-mono text-slate-500"
+            title={`Since reset: ${stats.emissions.fuel.toFixed(1)} L fuel, ${stats.emissions.co2.toFixed(1)} kg CO₂ over ${stats.emissions.distance.toFixed(1)} veh-km (${stats.emissions.fuelPer100Km.toFixed(1)} L/100 km, ${stats.emissions.co2PerVehicle.toFixed(0)} g per vehicle); now ${stats.emissions.co2Rate.toFixed(0)} kg/h`}
+          >
+            CO₂ {stats.emissions.co2.toFixed(1)} kg · {stats.emissions.co2PerKm.toFixed(0)} g/km
+          </span>
         </div>
         <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex flex-col justify-center">
           <span className="text-slate-500 text-[10px] uppercase font-bold tracking-wider">Avg Speed (v)</span>
@@ -26,6 +43,12 @@ const StatsPanel: React.FC<Props> = ({ stats, history }) => {
              <span className="text-2xl font-mono font-bold text-blue-400">{stats.avgSpeed.toFixed(0)}</span>
              <span className="text-xs text-slate-500">km/h</span>
           </div>
+          <span
+            className={`text-[10px] font-mono ${stats.integration.overlapEvents > 0 ? 'text-red-400' : 'text-slate-500'}`}
+            title={`Integration diagnostics since reset: ${stats.integration.negativeGapSteps} vehicle-steps with a negative gap, ${stats.integration.speedClamps} speed clamps`}
+          >
+            {stats.integration.overlapEvents} overlaps · min gap {stats.integration.minGap === null ? '–' : `${stats.integration.minGap.toFixed(1)} m`}
+          </span>
         </div>
         <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex flex-col justify-center col-span-2 md:col-span-1">
           <span className="text-slate-500 text-[10px] uppercase font-bold tracking-wider">Flow (q)</span>
@@ -33,12 +56,28 @@ const StatsPanel: React.FC<Props> = ({ stats, history }) => {
              <span className="text-2xl font-mono font-bold text-emerald-400">{stats.flow.toFixed(0)}</span>
              <span className="text-xs text-slate-500">v/h</span>
           </div>
+          {stats.platoons.automated > 0 && (
+            <span className="text-[10px] font-mono text-fuchsia-400" title="Connected CACC platoons (2+ vehicles)">
+              {stats.platoons.automated} AV · {stats.platoons.platoons} platoons · ⌀{stats.platoons.meanSize.toFixed(1)} / max {stats.platoons.maxSize}
+            </span>
+          )}
         </div>
       </div>
 
       {/* Fundamental Diagram */}
       <div className="col-span-1 md:col-span-2 bg-slate-800 p-2 rounded-lg border border-slate-700 relative">
         <span className="absolute top-2 left-3 text-[10px] font-bold text-slate-400 z-10 uppercase">Fundamental Diagram (k-q)</span>
+        <div className="absolute top-1.5 right-3 z-10 flex gap-1 text-[9px] uppercase font-bold">
+          {(['global', 'detectors'] as const).map(src => (
+            <button
+              key={src}
+              onClick={() => setFdSource(src)}
+              className={`px-1.5 py-0.5 rounded ${fdSource === src ? 'bg-slate-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {src}
+            </button>
+          ))}
+        </div>
         <ResponsiveContainer width="100%" height="100%">
           <ScatterChart margin={{ top: 20, right: 10, bottom: 0, left: 0 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
@@ -47,7 +86,7 @@ const StatsPanel: React.FC<Props> = ({ stats, history }) => {
                 dataKey="k" 
                 name="Density" 
                 unit=" v/km" 
-                domain={[0, 150]} 
+                domain={[0, MAX_DENSITY_PER_LANE * lanes]} 
                 tick={{fontSize: 10, fill: '#64748b'}}
             />
             <YAxis 
@@ -55,7 +94,7 @@ const StatsPanel: React.FC<Props> = ({ stats, history }) => {
                 dataKey="q" 
                 name="Flow" 
                 unit=" v/h" 
-                domain={[0, 6000]} // Max capacity 3 lanes ~6000
+                domain={[0, MAX_FLOW_PER_LANE * lanes]} // Capacity ~2000 veh/h per lane
                 tick={{fontSize: 10, fill: '#64748b'}}
                 width={30}
             />
@@ -63,20 +102,35 @@ const StatsPanel: React.FC<Props> = ({ stats, history }) => {
                 cursor={{ strokeDasharray: '3 3' }} 
                 contentStyle={{backgroundColor: '#1e293b', borderColor: '#334155', fontSize: '12px'}}
             />
-            <Scatter name="Traffic State" data={stats.points} fill="#8884d8">
-                {stats.points.map((entry, index) => (
-                    <circle key={`cell-${index}`} cx="0" cy="0" r="2" fill={index === stats.points.length - 1 ? '#fff' : '#8b5cf6'} opacity={index/stats.points.length} />
-                ))}
-            </Scatter>
+            {fdSource === 'global' ? (
+              <Scatter name="Traffic State" data={stats.points} fill="#8884d8">
+                  {stats.points.map((entry, index) => (
+                      <circle key={`cell-${index}`} cx="0" cy="0" r="2" fill={index === stats.points.length - 1 ? '#fff' : '#8b5cf6'} opacity={index/stats.points.length} />
+                  ))}
+              </Scatter>
+            ) : (
+              detectorIds.map((id, i) => (
+                <Scatter
+                  key={id}
+                  name={`D${id}`}
+                  data={stats.detectorPoints.filter(p => p.detectorId === id)}
+                  fill={DETECTOR_COLORS[i % DETECTOR_COLORS.length]}
+                  shape="circle"
+                  isAnimationActive={false}
+                />
+              ))
+            )}
           </ScatterChart>
         </ResponsiveContainer>
       </div>
 
       {/* Time Series */}
       <div className="col-span-1 md:col-span-2 bg-slate-800 p-2 rounded-lg border border-slate-700 relative">
-         <span className="absolute top-2 left-3 text-[10px] font-bold text-slate-400 z-10 uppercase">Flow Rate History</span>
+         <span className="absolute top-2 left-3 text-[10px] font-bold text-slate-400 z-10 uppercase">
+           Flow Rate History{showDemand && <span className="text-amber-400 normal-case font-normal"> · demand {stats.demand.toFixed(0)} v/h</span>}
+         </span>
          <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={history} margin={{ top: 20, right: 0, bottom: 0, left: 0 }}>
+            <ComposedChart data={history} margin={{ top: 20, right: 0, bottom: 0, left: 0 }}>
               <defs>
                 <linearGradient id="colorFlow" x1="0" y1="0" x2="0" y2="1">
                   <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
@@ -86,7 +140,10 @@ const StatsPanel: React.FC<Props> = ({ stats, history }) => {
               <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
               <YAxis hide domain={[0, 'auto']} />
               <Area type="monotone" dataKey="flow" stroke="#10b981" fillOpacity={1} fill="url(#colorFlow)" isAnimationActive={false} strokeWidth={2} />
-            </AreaChart>
+              {showDemand && (
+                <Line type="stepAfter" dataKey="demand" stroke="#fbbf24" strokeDasharray="4 3" dot={false} isAnimationActive={false} strokeWidth={1.5} />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
       </div>
     </div>
@@ -0,0 +1,52 @@
+// Headless batch runner / parameter sweep.
+//
+// Usage:
+//   npm run batch -- <scenario.json> [--out <dir>]
+//
+// Writes <dir>/summary.csv, <dir>/fd_points.csv, <dir>/detectors.csv and <dir>/results.json.
+
+import fs from 'fs';
+import path from 'path';
+import { BatchScenario, CellResult, runBatch, summaryCsv, fundamentalDiagramCsv, detectorCsv } from '../services/BatchRunner';
+
+function parseArgs(argv: string[]) {
+  let scenarioPath: string | null = null;
+  let outDir = 'batch-output';
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--out') outDir = argv[++i];
+    else scenarioPath = argv[i];
+  }
+  if (!scenarioPath) {
+    console.error('Usage: npm run batch -- <scenario.json> [--out <dir>]');
+    process.exit(1);
+  }
+  return { scenarioPath, outDir };
+}
+
+const { scenarioPath, outDir } = parseArgs(process.argv.slice(2));
+const scenario: BatchScenario = JSON.parse(fs.readFileSync(scenarioPath, 'utf8'));
+
+if (!(scenario.duration > 0)) {
+  console.error(`Scenario "duration" must be a positive number of seconds`);
+  process.exit(1);
+}
+
+const started = Date.now();
+let results: CellResult[];
+try {
+  results = runBatch(scenario, (done, total) => {
+    process.stderr.write(`\rRun ${done}/${total}`);
+  });
+} catch (e) {
+  console.error(e instanceof Error ? e.message : String(e));
+  process.exit(1);
+}
+process.stderr.write(`\nFinished in ${((Date.now() - started) / 1000).toFixed(1)}s\n`);
+
+fs.mkdirSync(outDir, { recursive: true });
+fs.writeFileSync(path.join(outDir, 'summary.csv'), summaryCsv(results));
+fs.writeFileSync(path.join(outDir, 'fd_points.csv'), fundamentalDiagramCsv(results));
+fs.writeFileSync(path.join(outDir, 'detectors.csv'), detectorCsv(results));
+fs.writeFileSync(path.join(outDir, 'results.json'), JSON.stringify({ scenario, results }, null, 2));
+
+console.log(`Wrote ${results.length} cells to ${outDir}/`);
@@ -0,0 +1,38 @@
+// Step-time benchmark against vehicle count.
+//
+// Usage:
+//   npm run benchmark -- [--steps <n>] [--vehicles <n,n,...> --road <m> --lanes <n>]
+//
+// Without --vehicles the default cases (250 to 5,000 vehicles, up to 20 km) are run.
+
+import { BenchmarkCase, BenchmarkResult, DEFAULT_BENCHMARK_CASES, runBenchmark } from '../services/Benchmark';
+
+function parseArgs(argv: string[]) {
+  let steps = 600;
+  let vehicles: number[] | null = null;
+  let roadLength = 20000;
+  let lanes = 4;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--steps') steps = Number(argv[++i]);
+    else if (argv[i] === '--vehicles') vehicles = argv[++i].split(',').map(Number);
+    else if (argv[i] === '--road') roadLength = Number(argv[++i]);
+    else if (argv[i] === '--lanes') lanes = Number(argv[++i]);
+    else {
+      console.error('Usage: npm run benchmark -- [--steps <n>] [--vehicles <n,n,...> --road <m> --lanes <n>]');
+      process.exit(1);
+    }
+  }
+  const cases: BenchmarkCase[] = vehicles
+    ? vehicles.map(n => ({ vehicles: n, roadLength, lanes }))
+    : DEFAULT_BENCHMARK_CASES;
+  return { steps, cases };
+}
+
+const { steps, cases } = parseArgs(process.argv.slice(2));
+
+const format = (r: BenchmarkResult) =>
+  [String(r.vehicles).padStart(8), String(r.roadLength).padStart(8), String(r.lanes).padStart(6),
+   r.msPerStep.toFixed(3).padStart(10), `${r.realtimeFactor.toFixed(1)}x`.padStart(10)].join('  ');
+
+console.log(['vehicles', 'road_m', 'lanes', 'ms/step', 'realtime'].map((h, i) => h.padStart([8, 8, 6, 10, 10][i])).join('  '));
+runBenchmark(cases, steps, r => console.log(format(r)));
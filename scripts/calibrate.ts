@@ -0,0 +1,106 @@
+// Headless parameter calibration against trajectory or detector data.
+//
+// Usage:
+//   npm run calibrate -- <scenario.json> (--trajectories <file.csv> | --detectors <file.csv>)
+//     [--params maxAccel,safeTimeGap,...] [--measure gap|speed|flow|speedFlow] [--method nelderMead|genetic]
+//     [--max-evals <n>] [--warmup <s>] [--cell <n>] [--desired-speed <km/h>] [--frame-interval <s>] [--out <file.json>]
+//
+// Trajectories are NGSIM or highD style CSV (e.g. from npm run record); detector data needs detector,
+// time, flow and spaceMeanSpeed columns (e.g. a batch detectors.csv) and matching detectors in the scenario;
+// --cell picks one sweep cell of a batch file.
+// --desired-speed sets the mean desired speed of the scenario's vehicle mix (the start value if desiredSpeed is calibrated).
+// Prints the best parameters, the error and a sensitivity summary; --out also writes the calibrated scenario.
+
+import fs from 'fs';
+import { parseScenarioJson, applyScenario, toScenario } from '../services/Scenario';
+import { parseTrajectoryCsv } from '../services/TrajectoryRecorder';
+import { CALIBRATION_PARAMS, CalibrationMethod, CalibrationParam, CalibrationResult, CalibrationTarget, calibrate, parseDetectorCsv } from '../services/Calibration';
+
+const USAGE = 'Usage: npm run calibrate -- <scenario.json> (--trajectories <file.csv> | --detectors <file.csv>) [--params a,b,...] [--measure gap|speed|flow|speedFlow] [--method nelderMead|genetic] [--max-evals <n>] [--warmup <s>] [--cell <n>] [--desired-speed <km/h>] [--frame-interval <s>] [--out <file.json>]';
+
+function parseArgs(argv: string[]) {
+  let scenarioPath: string | null = null;
+  let trajectories: string | null = null;
+  let detectors: string | null = null;
+  let params = 'maxAccel,safeTimeGap,comfortDecel,minGap';
+  let measure: string | null = null;
+  let method = 'nelderMead';
+  let maxEvaluations = 100;
+  let warmup = 0;
+  let cell: number | null = null;
+  let desiredSpeed: number | null = null;
+  let frameInterval: number | undefined;
+  let out: string | null = null;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--trajectories') trajectories = argv[++i];
+    else if (argv[i] === '--detectors') detectors = argv[++i];
+    else if (argv[i] === '--params') params = argv[++i];
+    else if (argv[i] === '--measure') measure = argv[++i];
+    else if (argv[i] === '--method') method = argv[++i];
+    else if (argv[i] === '--max-evals') maxEvaluations = Number(argv[++i]);
+    else if (argv[i] === '--warmup') warmup = Number(argv[++i]);
+    else if (argv[i] === '--cell') cell = Number(argv[++i]);
+    else if (argv[i] === '--desired-speed') desiredSpeed = Number(argv[++i]);
+    else if (argv[i] === '--frame-interval') frameInterval = Number(argv[++i]);
+    else if (argv[i] === '--out') out = argv[++i];
+    else scenarioPath = argv[i];
+  }
+  measure ??= trajectories ? 'gap' : 'speedFlow';
+  const measures = trajectories ? ['gap', 'speed'] : ['speed', 'flow', 'speedFlow'];
+  if (!scenarioPath || !trajectories === !detectors || !measures.includes(measure) || !['nelderMead', 'genetic'].includes(method)
+    || !(maxEvaluations > 0) || !(warmup >= 0) || (cell !== null && !Number.isInteger(cell)) || (desiredSpeed !== null && !(desiredSpeed > 0))) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  return {
+    scenarioPath, trajectories, detectors, measure, warmup, cell, desiredSpeed, frameInterval, out,
+    params: params.split(',').map(p => p.trim()).filter(Boolean) as CalibrationParam[],
+    method: method as CalibrationMethod,
+    maxEvaluations
+  };
+}
+
+const args = parseArgs(process.argv.slice(2));
+const { scenario, errors } = parseScenarioJson(fs.readFileSync(args.scenarioPath, 'utf8'));
+if (!scenario) {
+  console.error(`${args.scenarioPath} is not a valid scenario:\n  ${errors.join('\n  ')}`);
+  process.exit(1);
+}
+const scenarioConfig = applyScenario(scenario, { isPaused: false, timeScale: 1, maxSpeed: false });
+const config = args.desiredSpeed !== null ? CALIBRATION_PARAMS.desiredSpeed.set(scenarioConfig, args.desiredSpeed) : scenarioConfig;
+
+let result: CalibrationResult;
+try {
+  const target: CalibrationTarget = args.trajectories
+    ? {
+      type: 'trajectories', measure: args.measure as 'gap' | 'speed',
+      recording: parseTrajectoryCsv(fs.readFileSync(args.trajectories, 'utf8'), args.frameInterval)
+    }
+    : {
+      type: 'detectors', measure: args.measure as 'speed' | 'flow' | 'speedFlow', warmup: args.warmup,
+      observations: parseDetectorCsv(fs.readFileSync(args.detectors!, 'utf8'), args.cell)
+    };
+
+  const started = Date.now();
+  result = calibrate(config, target, { params: args.params, method: args.method, maxEvaluations: args.maxEvaluations }, (n, best) => {
+    process.stderr.write(`\rEvaluation ${n}/${args.maxEvaluations} · best RMSPE ${best.toFixed(4)}`);
+  });
+  process.stderr.write(`\nFinished in ${((Date.now() - started) / 1000).toFixed(1)}s\n`);
+} catch (e) {
+  console.error(e instanceof Error ? e.message : String(e));
+  process.exit(1);
+}
+
+console.log(`RMSPE (${args.measure}): ${result.initialError.toFixed(4)} -> ${result.error.toFixed(4)} after ${result.evaluations} evaluations`);
+console.log('\nSensitivity (each parameter moved by 10% of its range, most influential first):');
+console.log('Parameter              value   error low  error high    increase');
+for (const s of result.sensitivity) {
+  console.log(`${s.param.padEnd(20)} ${s.value.toFixed(3).padStart(7)}  ${s.errorMinus.toFixed(4).padStart(10)}  ${s.errorPlus.toFixed(4).padStart(10)}  ${s.increase.toFixed(4).padStart(10)}`);
+}
+
+if (args.out) {
+  const calibrated = toScenario(result.config, `${scenario.name} (calibrated)`, scenario.description);
+  const { params, error, initialError, evaluations, history, sensitivity } = result;
+  fs.writeFileSync(args.out, JSON.stringify({ params, error, initialError, evaluations, history, sensitivity, scenario: calibrated }, null, 2));
+  console.log(`\nWrote ${args.out}`);
+}
@@ -0,0 +1,71 @@
+// Headless trajectory recording.
+//
+// Usage:
+//   npm run record -- <scenario.json> --duration <s> [--interval <s>] [--from <s>] [--format ngsim|highd|binary] [--out <file>]
+//
+// Runs the scenario for --duration simulated seconds and records every vehicle from --from
+// (default 0) onwards at --interval (default 0.1 s). Writes to --out, or CSV to stdout.
+
+import fs from 'fs';
+import { parseScenarioJson, applyScenario } from '../services/Scenario';
+import { TrafficModel } from '../services/TrafficPhysics';
+import { TrajectoryRecorder, ngsimCsv, highDCsv, encodeTrajectoryBinary } from '../services/TrajectoryRecorder';
+
+const USAGE = 'Usage: npm run record -- <scenario.json> --duration <s> [--interval <s>] [--from <s>] [--format ngsim|highd|binary] [--out <file>]';
+
+function parseArgs(argv: string[]) {
+  let scenarioPath: string | null = null;
+  let duration = NaN;
+  let interval = 0.1;
+  let from = 0;
+  let format = 'ngsim';
+  let out: string | null = null;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--duration') duration = Number(argv[++i]);
+    else if (argv[i] === '--interval') interval = Number(argv[++i]);
+    else if (argv[i] === '--from') from = Number(argv[++i]);
+    else if (argv[i] === '--format') format = argv[++i];
+    else if (argv[i] === '--out') out = argv[++i];
+    else scenarioPath = argv[i];
+  }
+  if (!scenarioPath || !(duration > 0) || !(interval > 0) || !['ngsim', 'highd', 'binary'].includes(format)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (format === 'binary' && !out) {
+    console.error('Binary output needs --out <file>');
+    process.exit(1);
+  }
+  return { scenarioPath, duration, interval, from, format, out };
+}
+
+const { scenarioPath, duration, interval, from, format, out } = parseArgs(process.argv.slice(2));
+const { scenario, errors } = parseScenarioJson(fs.readFileSync(scenarioPath, 'utf8'));
+if (!scenario) {
+  console.error(`${scenarioPath} is not a valid scenario:\n  ${errors.join('\n  ')}`);
+  process.exit(1);
+}
+
+const config = applyScenario(scenario, { isPaused: false, timeScale: 1, maxSpeed: false });
+const model = new TrafficModel(config.roadLength, config.seed);
+const recorder = new TrajectoryRecorder({ interval, start: from, end: duration });
+while (model.time < duration && !recorder.finished) {
+  model.step(config);
+  recorder.observe(model);
+}
+
+const recording = recorder.recording(model);
+if (recording.truncated) console.error('Row limit reached: the recording is incomplete');
+if (format === 'binary') {
+  fs.writeFileSync(out!, new Uint8Array(encodeTrajectoryBinary(recording)));
+} else {
+  // Written part by part: a large recording does not fit in one string
+  const csv = format === 'highd' ? highDCsv(recording) : ngsimCsv(recording);
+  const fd = out ? fs.openSync(out, 'w') : null;
+  for (const chunk of csv) {
+    if (fd !== null) fs.writeSync(fd, chunk);
+    else process.stdout.write(chunk);
+  }
+  if (fd !== null) fs.closeSync(fd);
+}
+if (out) console.error(`Wrote ${recording.rows} rows to ${out}`);
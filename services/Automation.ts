@@ -0,0 +1,75 @@
+import { Vehicle, VehicleType, SimulationConfig, PlatoonStats } from '../types';
+import { accAcceleration, freeRoadAcceleration, REFERENCE_DRIVER } from './CarFollowing';
+
+// Linear CACC controller (van Arem et al. 2006): gap and speed feedback plus the
+// leader's acceleration received over V2V as feed-forward.
+const CACC_K_A = 1.0;   // Feed-forward gain on the leader's acceleration
+const CACC_K_V = 0.58;  // 1/s: speed difference gain
+const CACC_K_D = 0.1;   // 1/s^2: gap error gain
+const CACC_MIN_GAP = 2; // m at standstill
+const MAX_DECEL = 8;    // m/s^2: physical braking limit of the controller
+
+export const AUTOMATED_COLOR = '#e879f9';
+
+// Whether veh can follow leader over a V2V link (both automated, in range, room in the platoon)
+export function isConnected(veh: Vehicle, leader: Vehicle | null, gap: number | null, config: SimulationConfig): boolean {
+  if (!leader || gap === null || leader.id < 0) return false;
+  if (veh.type !== VehicleType.AUTOMATED || leader.type !== VehicleType.AUTOMATED) return false;
+  return gap <= config.automation.commRange && leader.platoonIndex + 1 < config.automation.maxPlatoonSize;
+}
+
+// CACC inside a platoon, on-board ACC (sensor data only, longer time gap) otherwise.
+// Controllers run the reference parameters whatever the vehicle's driver draw.
+export function automatedAcceleration(
+  veh: Vehicle,
+  leader: Vehicle | null,
+  gap: number | null,
+  desiredSpeed: number,
+  config: SimulationConfig
+): number {
+  const vLeader = leader ? leader.v : null;
+  const aLeader = leader && leader.id >= 0 ? leader.a : null;
+  if (!isConnected(veh, leader, gap, config)) {
+    return accAcceleration(veh.v, vLeader, gap, desiredSpeed, config, aLeader, REFERENCE_DRIVER, config.automation.accTimeGap);
+  }
+
+  const aFree = freeRoadAcceleration(veh.v, desiredSpeed, config);
+  const gapError = gap! - CACC_MIN_GAP - config.automation.caccTimeGap * veh.v;
+  const aCacc = CACC_K_A * leader!.a + CACC_K_V * (leader!.v - veh.v) + CACC_K_D * gapError;
+  return Math.max(-MAX_DECEL, Math.min(aFree, aCacc));
+}
+
+// Join the leader's platoon or lead a new one (leaders are updated first, front to back)
+export function updatePlatoon(veh: Vehicle, leader: Vehicle | null, gap: number | null, config: SimulationConfig) {
+  if (veh.type !== VehicleType.AUTOMATED) {
+    veh.platoonId = null;
+    veh.platoonIndex = 0;
+  } else if (isConnected(veh, leader, gap, config)) {
+    veh.platoonId = leader!.platoonId ?? leader!.id;
+    veh.platoonIndex = leader!.platoonIndex + 1;
+  } else {
+    veh.platoonId = veh.id;
+    veh.platoonIndex = 0;
+  }
+}
+
+export function platoonStats(vehicles: Vehicle[]): PlatoonStats {
+  const members = new Map<number, number>(); // platoon id -> size
+  for (const veh of vehicles) {
+    if (veh.platoonId !== null) members.set(veh.platoonId, (members.get(veh.platoonId) ?? 0) + 1);
+  }
+
+  const sizes: number[] = [0];
+  let automated = 0, platoons = 0, connected = 0, maxSize = 0;
+  for (const size of members.values()) {
+    while (sizes.length <= size) sizes.push(0);
+    sizes[size]++;
+    automated += size;
+    maxSize = Math.max(maxSize, size);
+    if (size > 1) {
+      platoons++;
+      connected += size;
+    }
+  }
+  return { automated, platoons, meanSize: platoons > 0 ? connected / platoons : 0, maxSize, sizes };
+}
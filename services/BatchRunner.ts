@@ -0,0 +1,241 @@
+import { SimulationConfig, DetectorMeasurement, IntegrationDiagnostics } from '../types';
+import { TrafficModel } from './TrafficPhysics';
+import { DEFAULT_CONFIG, SCENARIO_VERSION, parseScenario, applyScenario } from './Scenario';
+
+// Headless execution of TrafficModel: no canvas, no requestAnimationFrame.
+// Kept free of Node APIs so the same code can run in a browser or worker.
+
+export type SweepParam = 'lanes' | 'ringVehicles' | 'inflowRate' | 'truckRatio' | 'automatedRatio' | 'politeness' | 'safeTimeGap' | 'maxAccel' | 'accelerationNoise' | 'timeStep';
+
+// Either an explicit list of values or an inclusive {from, to, step} range
+export type SweepRange = number[] | { from: number; to: number; step: number };
+
+export interface BatchScenario {
+  config: Partial<SimulationConfig>;
+  duration: number;      // Simulated seconds per replication (after warm-up)
+  warmup?: number;       // Simulated seconds discarded before sampling
+  sampleInterval?: number; // Seconds between getStats() samples
+  replications?: number; // Runs per sweep cell (seed = base seed + replication index)
+  sweep?: Partial<Record<SweepParam, SweepRange>>;
+}
+
+export interface ReplicationResult {
+  seed: number;
+  meanCount: number;
+  meanSpeed: number;   // km/h
+  meanDensity: number; // veh/km
+  meanFlow: number;    // veh/h
+  fdPoints: { k: number; q: number }[];
+  detectors: DetectorMeasurement[]; // Intervals completed after warm-up
+  integration: IntegrationDiagnostics; // Whole run including warm-up
+  fuelPer100Km: number; // L per 100 vehicle-km, after warm-up
+  co2PerKm: number;     // g per vehicle-km, after warm-up
+}
+
+export interface CellResult {
+  cell: number;
+  params: Partial<Record<SweepParam, number>>;
+  replications: ReplicationResult[];
+  meanSpeed: number;
+  stdSpeed: number;
+  meanDensity: number;
+  stdDensity: number;
+  meanFlow: number;
+  stdFlow: number;
+  meanOverlapEvents: number;
+  meanFuelPer100Km: number;
+  meanCo2PerKm: number;
+}
+
+export function expandRange(range: SweepRange): number[] {
+  if (Array.isArray(range)) return range;
+  const { from, to, step } = range;
+  if (step <= 0) throw new Error(`Sweep step must be positive (got ${step})`);
+  const values: number[] = [];
+  // Integer stepping avoids accumulating floating point drift
+  const n = Math.floor((to - from) / step + 1e-9);
+  for (let i = 0; i <= n; i++) values.push(Number((from + i * step).toFixed(10)));
+  return values;
+}
+
+// Cartesian product of all sweep ranges
+export function expandSweep(sweep: BatchScenario['sweep'] = {}): Partial<Record<SweepParam, number>>[] {
+  let cells: Partial<Record<SweepParam, number>>[] = [{}];
+  for (const key of Object.keys(sweep) as SweepParam[]) {
+    const values = expandRange(sweep[key]!);
+    cells = cells.flatMap(cell => values.map(value => ({ ...cell, [key]: value })));
+  }
+  return cells;
+}
+
+// Advance a model for `seconds` of simulated time
+export function advance(model: TrafficModel, config: SimulationConfig, seconds: number, onStep?: (model: TrafficModel) => void) {
+  const steps = Math.ceil(seconds / config.timeStep);
+  for (let i = 0; i < steps; i++) {
+    model.step(config);
+    if (onStep) onStep(model);
+  }
+}
+
+export function runReplication(config: SimulationConfig, duration: number, warmup = 0, sampleInterval = 1): ReplicationResult {
+  const model = new TrafficModel(config.roadLength, config.seed);
+  const runConfig = { ...config, isPaused: false };
+
+  advance(model, runConfig, warmup);
+  const warm = { fuel: model.emissions.fuel, co2: model.emissions.co2, distance: model.emissions.distance };
+
+  const detectors: DetectorMeasurement[] = [];
+  let samples = 0;
+  let sumCount = 0, sumSpeed = 0, sumDensity = 0, sumFlow = 0;
+  const fdPoints: { k: number; q: number }[] = [];
+  const end = model.time + duration;
+  let nextSample = model.time + sampleInterval;
+
+  while (model.time < end) {
+    model.step(runConfig);
+    detectors.push(...model.newMeasurements);
+    if (model.time >= nextSample) {
+      nextSample += sampleInterval;
+      const stats = model.getStats();
+      samples++;
+      sumCount += stats.count;
+      sumSpeed += stats.avgSpeed;
+      sumDensity += stats.density;
+      sumFlow += stats.flow;
+      if (stats.count > 0) fdPoints.push({ k: stats.density, q: stats.flow });
+    }
+  }
+
+  const n = Math.max(1, samples);
+  const km = (model.emissions.distance - warm.distance) / 1000;
+  return {
+    seed: config.seed,
+    meanCount: sumCount / n,
+    meanSpeed: sumSpeed / n,
+    meanDensity: sumDensity / n,
+    meanFlow: sumFlow / n,
+    fdPoints,
+    detectors: detectors
+      .filter(m => m.time - m.interval >= end - duration - 1e-9)
+      .sort((a, b) => a.detectorId - b.detectorId), // Per detector, in time order
+    integration: { ...model.integration },
+    fuelPer100Km: km > 0 ? ((model.emissions.fuel - warm.fuel) / km) * 100 : 0,
+    co2PerKm: km > 0 ? (model.emissions.co2 - warm.co2) / km : 0
+  };
+}
+
+const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / Math.max(1, xs.length);
+const std = (xs: number[]) => {
+  if (xs.length < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((s, x) => s + (x - m) * (x - m), 0) / (xs.length - 1));
+};
+
+// Config of every sweep cell, checked against the scenario schema (omitted fields and block keys take their defaults)
+function cellConfigs(scenario: BatchScenario, cells: Partial<Record<SweepParam, number>>[]): SimulationConfig[] {
+  const parse = (config: Partial<SimulationConfig>, what: string) => {
+    const { scenario: parsed, errors } = parseScenario({ version: SCENARIO_VERSION, config });
+    if (!parsed) throw new Error(`Invalid ${what}:\n  ${errors.join('\n  ')}`);
+    return applyScenario(parsed, { isPaused: false, timeScale: DEFAULT_CONFIG.timeScale, maxSpeed: false });
+  };
+  const base = parse(scenario.config, 'batch config');
+  // Spawning follows the demand profile when it is on, so inflowRate would have no effect
+  if (scenario.sweep?.inflowRate && base.demand.enabled) {
+    throw new Error('Invalid batch config:\n  sweep.inflowRate: has no effect while config.demand.enabled is true (sweep the demand profile in separate batch files instead)');
+  }
+  return cells.map((params, cell) => {
+    const values = Object.entries(params).map(([key, value]) => `${key}=${value}`).join(', ');
+    return parse({ ...scenario.config, ...params }, `sweep cell ${cell} (${values})`);
+  });
+}
+
+// Throws before running anything when the config or any sweep cell fails the scenario schema
+export function runBatch(scenario: BatchScenario, onProgress?: (done: number, total: number) => void): CellResult[] {
+  const cells = expandSweep(scenario.sweep);
+  const configs = cellConfigs(scenario, cells);
+  const replications = scenario.replications ?? 1;
+  const total = cells.length * replications;
+  const results: CellResult[] = [];
+  let done = 0;
+
+  cells.forEach((params, cell) => {
+    const runs: ReplicationResult[] = [];
+    for (let r = 0; r < replications; r++) {
+      const config = { ...configs[cell], seed: configs[cell].seed + r };
+      runs.push(runReplication(config, scenario.duration, scenario.warmup, scenario.sampleInterval));
+      done++;
+      if (onProgress) onProgress(done, total);
+    }
+    const speeds = runs.map(r => r.meanSpeed);
+    const densities = runs.map(r => r.meanDensity);
+    const flows = runs.map(r => r.meanFlow);
+    results.push({
+      cell,
+      params,
+      replications: runs,
+      meanSpeed: mean(speeds),
+      stdSpeed: std(speeds),
+      meanDensity: mean(densities),
+      stdDensity: std(densities),
+      meanFlow: mean(flows),
+      stdFlow: std(flows),
+      meanOverlapEvents: mean(runs.map(r => r.integration.overlapEvents)),
+      meanFuelPer100Km: mean(runs.map(r => r.fuelPer100Km)),
+      meanCo2PerKm: mean(runs.map(r => r.co2PerKm))
+    });
+  });
+
+  return results;
+}
+
+// --- Export helpers ---
+
+export function toCsv(header: string[], rows: (string | number)[][]): string {
+  const fmt = (x: string | number) => typeof x === 'number' ? String(Number(x.toFixed(6))) : x;
+  return [header.join(','), ...rows.map(row => row.map(fmt).join(','))].join('\n') + '\n';
+}
+
+export function summaryCsv(results: CellResult[]): string {
+  const keys = Array.from(new Set(results.flatMap(r => Object.keys(r.params)))) as SweepParam[];
+  const header = ['cell', ...keys, 'replications', 'meanSpeed', 'stdSpeed', 'meanDensity', 'stdDensity', 'meanFlow', 'stdFlow', 'meanOverlapEvents', 'meanFuelPer100Km', 'meanCo2PerKm'];
+  const rows = results.map(r => [
+    r.cell,
+    ...keys.map(k => r.params[k] ?? ''),
+    r.replications.length,
+    r.meanSpeed, r.stdSpeed, r.meanDensity, r.stdDensity, r.meanFlow, r.stdFlow, r.meanOverlapEvents, r.meanFuelPer100Km, r.meanCo2PerKm
+  ]);
+  return toCsv(header, rows);
+}
+
+export function fundamentalDiagramCsv(results: CellResult[]): string {
+  const keys = Array.from(new Set(results.flatMap(r => Object.keys(r.params)))) as SweepParam[];
+  const header = ['cell', ...keys, 'seed', 'k', 'q'];
+  const rows: (string | number)[][] = [];
+  for (const r of results) {
+    for (const rep of r.replications) {
+      for (const p of rep.fdPoints) {
+        rows.push([r.cell, ...keys.map(k => r.params[k] ?? ''), rep.seed, p.k, p.q]);
+      }
+    }
+  }
+  return toCsv(header, rows);
+}
+
+export function detectorCsv(results: CellResult[]): string {
+  const keys = Array.from(new Set(results.flatMap(r => Object.keys(r.params)))) as SweepParam[];
+  const header = ['cell', ...keys, 'seed', 'detector', 'position', 'time', 'lane', 'count', 'flow', 'timeMeanSpeed', 'spaceMeanSpeed', 'occupancy'];
+  const rows: (string | number)[][] = [];
+  for (const r of results) {
+    for (const rep of r.replications) {
+      for (const m of rep.detectors) {
+        for (const d of [...m.lanes, m.total]) {
+          rows.push([
+            r.cell, ...keys.map(k => r.params[k] ?? ''), rep.seed, m.detectorId, m.position, m.time,
+            d.lane < 0 ? 'all' : d.lane, d.count, d.flow, d.timeMeanSpeed, d.spaceMeanSpeed, d.occupancy
+          ]);
+        }
+      }
+    }
+  }
+  return toCsv(header, rows);
+}
@@ -0,0 +1,67 @@
+import { BoundaryCondition, SimulationConfig } from '../types';
+import { TrafficModel } from './TrafficPhysics';
+import { DEFAULT_CONFIG } from './Scenario';
+
+// Step-time benchmark: vehicles are held on a ring so the count stays fixed while timing.
+// Kept free of Node APIs like BatchRunner.
+
+export interface BenchmarkCase {
+  vehicles: number;
+  roadLength: number; // m
+  lanes: number;
+}
+
+export interface BenchmarkResult extends BenchmarkCase {
+  steps: number;
+  msPerStep: number;
+  realtimeFactor: number; // Simulated seconds per wall-clock second
+}
+
+export const DEFAULT_BENCHMARK_CASES: BenchmarkCase[] = [
+  { vehicles: 250, roadLength: 5000, lanes: 3 },
+  { vehicles: 500, roadLength: 5000, lanes: 3 },
+  { vehicles: 1000, roadLength: 10000, lanes: 3 },
+  { vehicles: 2500, roadLength: 20000, lanes: 4 },
+  { vehicles: 5000, roadLength: 20000, lanes: 4 }
+];
+
+export function runBenchmarkCase(
+  benchCase: BenchmarkCase,
+  steps = 600,
+  warmupSteps = 60,
+  now: () => number = () => performance.now()
+): BenchmarkResult {
+  const config: SimulationConfig = {
+    ...DEFAULT_CONFIG,
+    roadLength: benchCase.roadLength,
+    lanes: benchCase.lanes,
+    boundary: BoundaryCondition.RING,
+    ringVehicles: benchCase.vehicles,
+    detectors: []
+  };
+  const model = new TrafficModel(config.roadLength, config.seed);
+  for (let i = 0; i < warmupSteps; i++) model.step(config);
+
+  const start = now();
+  for (let i = 0; i < steps; i++) model.step(config);
+  const msPerStep = (now() - start) / steps;
+
+  return {
+    ...benchCase,
+    steps,
+    msPerStep,
+    realtimeFactor: msPerStep > 0 ? (config.timeStep * 1000) / msPerStep : Infinity
+  };
+}
+
+export function runBenchmark(
+  cases: BenchmarkCase[] = DEFAULT_BENCHMARK_CASES,
+  steps = 600,
+  onResult?: (result: BenchmarkResult) => void
+): BenchmarkResult[] {
+  return cases.map(c => {
+    const result = runBenchmarkCase(c, steps);
+    if (onResult) onResult(result);
+    return result;
+  });
+}
@@ -0,0 +1,434 @@
+import { SimulationConfig } from '../types';
+import { TrafficModel } from './TrafficPhysics';
+import { CAR_FOLLOWING_MODELS, REFERENCE_DRIVER } from './CarFollowing';
+import { TrajectoryRecording } from './TrajectoryRecorder';
+import { Mulberry32, RandomSource } from './Random';
+import { classMean, moments, shifted } from './VehicleClasses';
+import { speedLimitAt } from './SpeedControl';
+
+// Parameter calibration against observed data with derivative-free optimisers.
+// Trajectories: every follower is replayed behind its observed leader with the car-following model
+// (noise-free, so only longitudinal parameters matter). Detectors: the whole scenario runs headless
+// with a fixed seed (common random numbers) and its detector intervals are compared with the data.
+// Kept free of Node APIs, like BatchRunner.
+
+export type CalibrationParam =
+  | 'maxAccel' | 'safeTimeGap' | 'comfortDecel' | 'minGap' | 'delta' | 'desiredSpeed'
+  | 'politeness' | 'laneChangeThreshold' | 'laneChangeBias' | 'accelerationNoise';
+
+export type CalibrationMethod = 'nelderMead' | 'genetic';
+
+interface ParamSpec {
+  min: number;
+  max: number;
+  carFollowing: boolean; // Acts on the car-following model (identifiable from trajectories)
+  get: (config: SimulationConfig) => number;
+  set: (config: SimulationConfig, value: number) => SimulationConfig;
+}
+
+// Mean desired speed (km/h) of the vehicle mix
+export function meanDesiredSpeed(config: SimulationConfig): number {
+  return classMean(config.vehicleClasses, config.truckRatio, cls => moments(cls.desiredSpeed).mean);
+}
+
+// Moves every class's desired speed distribution so that the mix has the given mean
+function withDesiredSpeed(config: SimulationConfig, speed: number): SimulationConfig {
+  const delta = speed - meanDesiredSpeed(config);
+  return { ...config, vehicleClasses: config.vehicleClasses.map(cls => ({ ...cls, desiredSpeed: shifted(cls.desiredSpeed, delta) })) };
+}
+
+export const CALIBRATION_PARAMS: Record<CalibrationParam, ParamSpec> = {
+  maxAccel: { min: 0.3, max: 4, carFollowing: true, get: c => c.maxAccel, set: (c, v) => ({ ...c, maxAccel: v }) },
+  safeTimeGap: { min: 0.5, max: 3, carFollowing: true, get: c => c.safeTimeGap, set: (c, v) => ({ ...c, safeTimeGap: v }) },
+  comfortDecel: { min: 0.5, max: 5, carFollowing: true, get: c => c.idm.comfortDecel, set: (c, v) => ({ ...c, idm: { ...c.idm, comfortDecel: v } }) },
+  minGap: { min: 0.5, max: 6, carFollowing: true, get: c => c.idm.minGap, set: (c, v) => ({ ...c, idm: { ...c.idm, minGap: v } }) },
+  delta: { min: 1, max: 8, carFollowing: true, get: c => c.idm.delta, set: (c, v) => ({ ...c, idm: { ...c.idm, delta: v } }) },
+  desiredSpeed: { min: 30, max: 200, carFollowing: true, get: meanDesiredSpeed, set: withDesiredSpeed },
+  politeness: { min: 0, max: 1, carFollowing: false, get: c => c.politeness, set: (c, v) => ({ ...c, politeness: v }) },
+  laneChangeThreshold: { min: 0, max: 1, carFollowing: false, get: c => c.laneChange.threshold, set: (c, v) => ({ ...c, laneChange: { ...c.laneChange, threshold: v } }) },
+  laneChangeBias: { min: 0, max: 1, carFollowing: false, get: c => c.laneChange.bias, set: (c, v) => ({ ...c, laneChange: { ...c.laneChange, bias: v } }) },
+  accelerationNoise: { min: 0, max: 1, carFollowing: false, get: c => c.accelerationNoise, set: (c, v) => ({ ...c, accelerationNoise: v }) }
+};
+
+// One observed detector interval (aggregated over lanes)
+export interface DetectorObservation {
+  detectorId: number;
+  time: number;  // s: simulation time at the end of the interval
+  flow: number;  // veh/h
+  speed: number; // km/h (space-mean); 0 = no vehicles
+}
+
+export type CalibrationTarget =
+  | { type: 'trajectories'; recording: TrajectoryRecording; measure: 'gap' | 'speed' }
+  | { type: 'detectors'; observations: DetectorObservation[]; measure: 'speed' | 'flow' | 'speedFlow'; warmup: number };
+
+export interface CalibrationOptions {
+  params: CalibrationParam[];
+  method: CalibrationMethod;
+  maxEvaluations: number;
+  bounds?: Partial<Record<CalibrationParam, [number, number]>>;
+  seed?: number; // Genetic algorithm
+}
+
+export interface SensitivityEntry {
+  param: CalibrationParam;
+  value: number;
+  errorMinus: number;       // Error with the parameter lowered by SENSITIVITY_STEP of its range
+  errorPlus: number;        // ... and raised
+  increase: number;         // Mean of the two minus the best error (0 = no influence)
+}
+
+export interface CalibrationResult {
+  params: Partial<Record<CalibrationParam, number>>;
+  error: number;
+  initialError: number;
+  evaluations: number;
+  history: number[]; // Best error after each evaluation
+  sensitivity: SensitivityEntry[];
+  config: SimulationConfig;
+}
+
+const MIN_PAIR_DURATION = 10;  // s: shorter car-following episodes are skipped
+const SENSITIVITY_STEP = 0.1;  // Fraction of the parameter range
+const NM_INITIAL_STEP = 0.2;   // Initial simplex size in the unit cube
+const NM_TOLERANCE = 1e-6;     // Stop once the simplex errors agree this closely
+const GA_POPULATION = 16;
+const GA_ELITES = 2;
+const GA_MUTATION_STD = 0.1;   // In the unit cube
+
+// Root mean square percentage error (Punzo et al.): sqrt(sum (sim - obs)^2 / sum obs^2)
+class Rmspe {
+  sq = 0;
+  obs = 0;
+  add(sim: number, obs: number) {
+    this.sq += (sim - obs) ** 2;
+    this.obs += obs * obs;
+  }
+  get value(): number {
+    return this.obs > 0 ? Math.sqrt(this.sq / this.obs) : 0;
+  }
+}
+
+// --- Trajectories ---
+
+// A follower behind one leader, both sampled at the same times
+interface FollowingPair {
+  t: number[];
+  x: number[];       // Follower front (m)
+  v: number[];
+  xLeader: number[];
+  vLeader: number[];
+  aLeader: number[];
+  leaderLength: number;
+}
+
+function extractPairs(rec: TrajectoryRecording): FollowingPair[] {
+  const c = rec.columns;
+  const rowAt = new Map<string, number>();
+  const byVehicle = new Map<number, number[]>();
+  for (let i = 0; i < rec.rows; i++) {
+    rowAt.set(`${c.id[i]}@${Math.round(rec.time[i] / rec.interval)}`, i);
+    const rows = byVehicle.get(c.id[i]) ?? [];
+    rows.push(i);
+    byVehicle.set(c.id[i], rows);
+  }
+
+  const pairs: FollowingPair[] = [];
+  for (const rows of byVehicle.values()) {
+    rows.sort((p, q) => rec.time[p] - rec.time[q]);
+    let pair: FollowingPair | null = null;
+    let leaderId = 0;
+    const close = () => {
+      if (pair && pair.t[pair.t.length - 1] - pair.t[0] >= MIN_PAIR_DURATION) pairs.push(pair);
+      pair = null;
+    };
+    for (const i of rows) {
+      const j = c.leaderId[i] > 0 ? rowAt.get(`${c.leaderId[i]}@${Math.round(rec.time[i] / rec.interval)}`) : undefined;
+      const last = pair ? pair.t[pair.t.length - 1] : -Infinity;
+      if (j === undefined || c.leaderId[i] !== leaderId || rec.time[i] - last > 1.5 * rec.interval) close();
+      leaderId = c.leaderId[i];
+      if (j === undefined) continue;
+      if (!pair) pair = { t: [], x: [], v: [], xLeader: [], vLeader: [], aLeader: [], leaderLength: c.length[j] };
+      pair.t.push(rec.time[i]);
+      pair.x.push(c.x[i]);
+      pair.v.push(c.v[i]);
+      pair.xLeader.push(c.x[j]);
+      pair.vLeader.push(c.v[j]);
+      pair.aLeader.push(c.a[j]);
+    }
+    close();
+  }
+  return pairs;
+}
+
+// Replays each follower from its first observed state (ballistic update, leader interpolated between samples).
+// Every follower drives at the mix's mean desired speed, capped by the fixed speed limits.
+function trajectoryError(pairs: FollowingPair[], config: SimulationConfig, measure: 'gap' | 'speed'): number {
+  const model = CAR_FOLLOWING_MODELS[config.carFollowingModel];
+  const desiredSpeed = Math.max(1, meanDesiredSpeed(config) / 3.6);
+  const error = new Rmspe();
+  for (const p of pairs) {
+    let x = p.x[0], v = p.v[0];
+    for (let k = 0; k + 1 < p.t.length; k++) {
+      const dt = p.t[k + 1] - p.t[k];
+      const n = Math.max(1, Math.ceil(dt / config.timeStep - 1e-9));
+      const h = dt / n;
+      for (let s = 0; s < n; s++) {
+        const f = s / n;
+        const xL = p.xLeader[k] + f * (p.xLeader[k + 1] - p.xLeader[k]);
+        const vL = p.vLeader[k] + f * (p.vLeader[k + 1] - p.vLeader[k]);
+        const limit = speedLimitAt(x, config.speedLimits);
+        const v0 = limit !== null ? Math.min(desiredSpeed, limit / 3.6) : desiredSpeed;
+        const a = model.acceleration(v, vL, xL - p.leaderLength - x, v0, config, p.aLeader[k], REFERENCE_DRIVER);
+        const vNext = v + a * h;
+        // Stop within the step rather than roll backwards
+        x += vNext < 0 ? -(v * v) / (2 * a) : (v + vNext) / 2 * h;
+        v = Math.max(0, vNext);
+      }
+      if (measure === 'gap') {
+        const obsGap = p.xLeader[k + 1] - p.leaderLength - p.x[k + 1];
+        error.add(p.xLeader[k + 1] - p.leaderLength - x, obsGap);
+      } else {
+        error.add(v, p.v[k + 1]);
+      }
+    }
+  }
+  return error.value;
+}
+
+// --- Detectors ---
+
+// Reads detector intervals from CSV: columns detector (or detectorId), time, flow and spaceMeanSpeed
+// (or speed); with a lane column only the "all" rows count. A batch detectors.csv from a sweep holds
+// several cells (parameter sets): pick one with cell, files with more than one are rejected otherwise.
+// Repeated (detector, time) rows, e.g. several seeds of one cell, are averaged.
+export function parseDetectorCsv(text: string, cell: number | null = null): DetectorObservation[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = lines[0]?.split(',').map(h => h.trim()) ?? [];
+  const col = (...names: string[]) => {
+    const k = header.findIndex(h => names.includes(h));
+    if (k < 0) throw new Error(`Detector CSV has no ${names.map(n => `"${n}"`).join(' or ')} column`);
+    return k;
+  };
+  const k = { id: col('detector', 'detectorId'), time: col('time'), flow: col('flow'), speed: col('spaceMeanSpeed', 'speed') };
+  const lane = header.indexOf('lane');
+  const cellCol = header.indexOf('cell');
+  if (cell !== null && cellCol < 0) throw new Error('Detector CSV has no "cell" column to pick from');
+  if (cell === null && cellCol >= 0) {
+    const cells = new Set(lines.slice(1).map(line => line.split(',')[cellCol].trim()));
+    if (cells.size > 1) throw new Error(`Detector CSV holds ${cells.size} sweep cells (${Array.from(cells).join(', ')}): pick one`);
+  }
+
+  const sums = new Map<string, DetectorObservation & { n: number }>();
+  for (const line of lines.slice(1)) {
+    const f = line.split(',');
+    if (lane >= 0 && f[lane].trim() !== 'all') continue;
+    if (cell !== null && Number(f[cellCol]) !== cell) continue;
+    const obs = { detectorId: Number(f[k.id]), time: Number(f[k.time]), flow: Number(f[k.flow]), speed: Number(f[k.speed]) };
+    if (![obs.detectorId, obs.time, obs.flow, obs.speed].every(Number.isFinite)) throw new Error(`Detector CSV: bad row "${line}"`);
+    const key = `${obs.detectorId}@${obs.time}`;
+    const sum = sums.get(key);
+    if (sum) {
+      sum.flow += obs.flow;
+      sum.speed += obs.speed;
+      sum.n++;
+    } else {
+      sums.set(key, { ...obs, n: 1 });
+    }
+  }
+  if (sums.size === 0) throw new Error(cell !== null ? `Detector CSV has no rows for cell ${cell}` : 'Detector CSV has no data rows');
+  return Array.from(sums.values(), ({ n, ...o }) => ({ ...o, flow: o.flow / n, speed: o.speed / n }))
+    .sort((a, b) => a.time - b.time || a.detectorId - b.detectorId);
+}
+
+function detectorError(observations: DetectorObservation[], config: SimulationConfig, measure: 'speed' | 'flow' | 'speedFlow', warmup: number): number {
+  const model = new TrafficModel(config.roadLength, config.seed);
+  const runConfig = { ...config, isPaused: false };
+  const end = observations.reduce((max, o) => Math.max(max, o.time), 0);
+  const simulated = new Map<string, { flow: number; speed: number }>();
+  const seen = new Map<number, number>();
+  while (model.time < end + runConfig.timeStep / 2) {
+    model.step(runConfig);
+    for (const det of model.detectors) {
+      const m = det.latest;
+      if (!m || seen.get(det.id) === m.time) continue;
+      seen.set(det.id, m.time);
+      simulated.set(`${m.detectorId}@${Math.round(m.time)}`, { flow: m.total.flow, speed: m.total.spaceMeanSpeed });
+    }
+  }
+
+  const speed = new Rmspe();
+  const flow = new Rmspe();
+  let matched = 0;
+  for (const obs of observations) {
+    if (obs.time <= warmup) continue;
+    const sim = simulated.get(`${obs.detectorId}@${Math.round(obs.time)}`);
+    if (!sim) continue;
+    matched++;
+    flow.add(sim.flow, obs.flow);
+    if (obs.speed > 0) speed.add(sim.speed, obs.speed);
+  }
+  if (matched === 0) throw new Error('No observed detector interval matches a simulated one: check detector ids, positions and intervals in the scenario');
+  if (measure === 'speed') return speed.value;
+  if (measure === 'flow') return flow.value;
+  return (speed.value + flow.value) / 2;
+}
+
+// --- Optimisers (minimise f over the unit cube) ---
+
+type Objective = (u: number[]) => number;
+
+const clampUnit = (u: number[]) => u.map(x => Math.max(0, Math.min(1, x)));
+
+// Nelder-Mead simplex with the standard coefficients, points clamped to the cube
+function nelderMead(f: Objective, start: number[], maxEvaluations: number, evaluations: () => number): number[] {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => {
+    const u = [...start];
+    u[i] = u[i] + NM_INITIAL_STEP <= 1 ? u[i] + NM_INITIAL_STEP : u[i] - NM_INITIAL_STEP;
+    return u;
+  })].map(u => ({ u, e: f(u) }));
+
+  const combine = (a: number[], b: number[], t: number) => clampUnit(a.map((x, i) => x + t * (b[i] - x)));
+  while (evaluations() < maxEvaluations) {
+    simplex.sort((p, q) => p.e - q.e);
+    const best = simplex[0], worst = simplex[n];
+    if (worst.e - best.e < NM_TOLERANCE) break;
+
+    const centroid = start.map((_, i) => simplex.slice(0, n).reduce((s, p) => s + p.u[i], 0) / n);
+    const reflected = combine(centroid, worst.u, -1);
+    const r = f(reflected);
+    if (r < best.e) {
+      const expanded = combine(centroid, worst.u, -2);
+      const e = f(expanded);
+      simplex[n] = e < r ? { u: expanded, e } : { u: reflected, e: r };
+    } else if (r < simplex[n - 1].e) {
+      simplex[n] = { u: reflected, e: r };
+    } else {
+      const contracted = r < worst.e ? combine(centroid, reflected, 0.5) : combine(centroid, worst.u, 0.5);
+      const c = f(contracted);
+      if (c < Math.min(r, worst.e)) {
+        simplex[n] = { u: contracted, e: c };
+      } else {
+        // Shrink towards the best point
+        simplex = [best, ...simplex.slice(1).map(p => {
+          const u = combine(best.u, p.u, 0.5);
+          return { u, e: f(u) };
+        })];
+      }
+    }
+  }
+  simplex.sort((p, q) => p.e - q.e);
+  return simplex[0].u;
+}
+
+// Real-coded genetic algorithm: tournament selection, blend crossover (BLX-0.5), Gaussian mutation, elitism
+function genetic(f: Objective, start: number[], maxEvaluations: number, evaluations: () => number, rng: RandomSource): number[] {
+  const n = start.length;
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - rng.next())) * Math.cos(2 * Math.PI * rng.next());
+  let population = [start, ...Array.from({ length: GA_POPULATION - 1 }, () => start.map(() => rng.next()))]
+    .map(u => ({ u, e: f(u) }));
+
+  const tournament = () => {
+    let winner = population[Math.floor(rng.next() * population.length)];
+    for (let i = 0; i < 2; i++) {
+      const rival = population[Math.floor(rng.next() * population.length)];
+      if (rival.e < winner.e) winner = rival;
+    }
+    return winner.u;
+  };
+
+  while (evaluations() < maxEvaluations) {
+    population.sort((p, q) => p.e - q.e);
+    const next = population.slice(0, GA_ELITES);
+    while (next.length < GA_POPULATION && evaluations() < maxEvaluations) {
+      const a = tournament(), b = tournament();
+      const child = clampUnit(a.map((x, i) => {
+        const lo = Math.min(x, b[i]), hi = Math.max(x, b[i]), d = hi - lo;
+        const gene = lo - 0.5 * d + rng.next() * 2 * d;
+        return rng.next() < 1 / n ? gene + GA_MUTATION_STD * gaussian() : gene;
+      }));
+      next.push({ u: child, e: f(child) });
+    }
+    population = next;
+  }
+  population.sort((p, q) => p.e - q.e);
+  return population[0].u;
+}
+
+// --- Calibration ---
+
+export function calibrate(
+  base: SimulationConfig,
+  target: CalibrationTarget,
+  options: CalibrationOptions,
+  onProgress?: (evaluations: number, bestError: number) => void
+): CalibrationResult {
+  const { params } = options;
+  if (params.length === 0) throw new Error('Nothing to calibrate: no parameters given');
+  const unknown = params.filter(p => !(p in CALIBRATION_PARAMS));
+  if (unknown.length) throw new Error(`Unknown calibration parameter(s): ${unknown.join(', ')}`);
+  if (target.type === 'trajectories') {
+    const lateral = params.filter(p => !CALIBRATION_PARAMS[p].carFollowing);
+    if (lateral.length) throw new Error(`${lateral.join(', ')} cannot be calibrated from trajectories (car-following parameters only)`);
+  }
+
+  const bounds = params.map(p => options.bounds?.[p] ?? [CALIBRATION_PARAMS[p].min, CALIBRATION_PARAMS[p].max]);
+  const toValues = (u: number[]) => u.map((x, i) => bounds[i][0] + x * (bounds[i][1] - bounds[i][0]));
+  const toConfig = (u: number[]) => toValues(u).reduce((c, value, i) => CALIBRATION_PARAMS[params[i]].set(c, value), base);
+
+  const pairs = target.type === 'trajectories' ? extractPairs(target.recording) : [];
+  if (target.type === 'trajectories' && pairs.length === 0) {
+    throw new Error(`No car-following episode of at least ${MIN_PAIR_DURATION} s found in the trajectories`);
+  }
+  const error = (config: SimulationConfig) => target.type === 'trajectories'
+    ? trajectoryError(pairs, config, target.measure)
+    : detectorError(target.observations, config, target.measure, target.warmup);
+
+  let evaluations = 0;
+  let best = Infinity;
+  const history: number[] = [];
+  const objective: Objective = u => {
+    const e = error(toConfig(u));
+    evaluations++;
+    best = Math.min(best, e);
+    history.push(best);
+    if (onProgress) onProgress(evaluations, best);
+    return e;
+  };
+
+  const start = params.map((p, i) => {
+    const [lo, hi] = bounds[i];
+    return hi > lo ? Math.max(0, Math.min(1, (CALIBRATION_PARAMS[p].get(base) - lo) / (hi - lo))) : 0;
+  });
+  const initialError = objective(start);
+  const count = () => evaluations;
+  const bestU = options.method === 'genetic'
+    ? genetic(objective, start, options.maxEvaluations, count, new Mulberry32(options.seed ?? base.seed))
+    : nelderMead(objective, start, options.maxEvaluations, count);
+
+  const finalError = error(toConfig(bestU));
+  const values = toValues(bestU);
+
+  // One-at-a-time sensitivity around the optimum
+  const sensitivity = params.map((param, i): SensitivityEntry => {
+    const at = (delta: number) => {
+      const u = [...bestU];
+      u[i] = Math.max(0, Math.min(1, u[i] + delta));
+      return error(toConfig(u));
+    };
+    const errorMinus = at(-SENSITIVITY_STEP);
+    const errorPlus = at(SENSITIVITY_STEP);
+    return { param, value: values[i], errorMinus, errorPlus, increase: (errorMinus + errorPlus) / 2 - finalError };
+  });
+
+  return {
+    params: Object.fromEntries(params.map((p, i) => [p, values[i]])),
+    error: finalError,
+    initialError,
+    evaluations,
+    history,
+    sensitivity: sensitivity.sort((a, b) => b.increase - a.increase),
+    config: toConfig(bestU)
+  };
+}
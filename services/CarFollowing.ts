@@ -0,0 +1,174 @@
+import { CarFollowingModelType, DriverParams, SimulationConfig } from '../types';
+import { RandomSource } from './Random';
+
+const STANDSTILL_GAP = 2; // m kept to the leader at rest by Gipps and Krauss
+const MIN_EFFECTIVE_GAP = 0.1; // m: avoids division by zero when vehicles overlap
+
+// Driver with exactly the global parameters
+export const REFERENCE_DRIVER: DriverParams = { timeGap: 1, accel: 1, decel: 1 };
+
+// Longitudinal driver model the physics engine calls through.
+// gap / vLeader are null on a free road; aLeader is null when the leader's acceleration is unknown (obstacles).
+// driver scales the global T, a and b for this vehicle.
+export interface CarFollowingModel {
+  acceleration(
+    v: number,
+    vLeader: number | null,
+    gap: number | null,
+    desiredSpeed: number,
+    config: SimulationConfig,
+    aLeader: number | null,
+    driver: DriverParams
+  ): number;
+
+  // Optional stochastic term drawn once per vehicle and step (e.g. Krauss dawdling)
+  perturbation?(v: number, config: SimulationConfig, rng: RandomSource, driver: DriverParams): number;
+}
+
+// Gipps and Krauss plan speeds over their reaction time tau, but the engine steps much shorter. Relaxing over tau
+// would let the speed lag behind the safe speed, so the safe speed is reached within one simulation step.
+function safeStep(v: number, vSafe: number, config: SimulationConfig): number {
+  return (vSafe - v) / config.timeStep;
+}
+
+// IDM free road term (above the desired speed, e.g. entering a lower limit, brake comfortably)
+export function freeRoadAcceleration(v: number, desiredSpeed: number, config: SimulationConfig, driver: DriverParams = REFERENCE_DRIVER): number {
+  const maxAccel = config.maxAccel * driver.accel;
+  const comfortDecel = config.idm.comfortDecel * driver.decel;
+  const { delta } = config.idm;
+  return v <= desiredSpeed
+    ? maxAccel * (1 - Math.pow(v / desiredSpeed, delta))
+    : -comfortDecel * (1 - Math.pow(desiredSpeed / v, maxAccel * delta / comfortDecel));
+}
+
+// IDM (or IDM+ when plus is set)
+function idmAcceleration(
+  v: number,
+  vLeader: number | null,
+  gap: number | null,
+  desiredSpeed: number,
+  config: SimulationConfig,
+  plus: boolean,
+  driver: DriverParams,
+  safeTimeGap: number = config.safeTimeGap * driver.timeGap
+): number {
+  const maxAccel = config.maxAccel * driver.accel;
+  const comfortDecel = config.idm.comfortDecel * driver.decel;
+  const { minGap } = config.idm;
+
+  const a_free = freeRoadAcceleration(v, desiredSpeed, config, driver);
+  if (gap === null || vLeader === null) return a_free;
+
+  // Interaction term
+  const delta_v = v - vLeader;
+  const s_star = minGap + v * safeTimeGap + (v * delta_v) / (2 * Math.sqrt(maxAccel * comfortDecel));
+  const a_int = -maxAccel * Math.pow(s_star / Math.max(MIN_EFFECTIVE_GAP, gap), 2);
+
+  // IDM+: the stronger of the two restrictions wins instead of their sum
+  return plus ? Math.min(a_free, maxAccel + a_int) : a_free + a_int;
+}
+
+export class IdmModel implements CarFollowingModel {
+  acceleration(v: number, vLeader: number | null, gap: number | null, desiredSpeed: number, config: SimulationConfig, aLeader: number | null, driver: DriverParams): number {
+    return idmAcceleration(v, vLeader, gap, desiredSpeed, config, false, driver);
+  }
+}
+
+// Gipps (1981): next speed is the lower of a free-acceleration bound and a safe speed
+// that still allows stopping behind a leader braking at leaderDecel.
+export class GippsModel implements CarFollowingModel {
+  acceleration(v: number, vLeader: number | null, gap: number | null, desiredSpeed: number, config: SimulationConfig, aLeader: number | null, driver: DriverParams): number {
+    const { reactionTime: tau, leaderDecel } = config.gipps;
+    const b = config.gipps.decel * driver.decel;
+    const ratio = v / desiredSpeed;
+    const vAcc = v + 2.5 * config.maxAccel * driver.accel * tau * (1 - ratio) * Math.sqrt(0.025 + ratio);
+    if (gap === null || vLeader === null) return (vAcc - v) / tau;
+
+    const disc = b * b * tau * tau + b * (2 * (gap - STANDSTILL_GAP) - v * tau + (vLeader * vLeader) / leaderDecel);
+    const vSafe = Math.max(0, -b * tau + Math.sqrt(Math.max(0, disc)));
+    return Math.min((vAcc - v) / tau, safeStep(v, vSafe, config));
+  }
+}
+
+// Optimal Velocity Model (Bando et al. 1995): relax towards V(s) = v0 (tanh(s/ds - beta) + tanh beta) / (1 + tanh beta)
+export class OvmModel implements CarFollowingModel {
+  acceleration(v: number, vLeader: number | null, gap: number | null, desiredSpeed: number, config: SimulationConfig): number {
+    const { relaxationTime, transitionWidth, formFactor } = config.ovm;
+    let vOpt = desiredSpeed;
+    if (gap !== null) {
+      const tanhBeta = Math.tanh(formFactor);
+      vOpt = desiredSpeed * (Math.tanh(Math.max(0, gap) / transitionWidth - formFactor) + tanhBeta) / (1 + tanhBeta);
+    }
+    return (vOpt - v) / relaxationTime;
+  }
+}
+
+// Krauss (1998), as used by SUMO: the smallest of desired, accelerated and safe speed
+export class KraussModel implements CarFollowingModel {
+  acceleration(v: number, vLeader: number | null, gap: number | null, desiredSpeed: number, config: SimulationConfig, aLeader: number | null, driver: DriverParams): number {
+    const tau = config.krauss.reactionTime;
+    const b = config.krauss.decel * driver.decel;
+    // Above the desired speed (lower limit ahead), slow down at no more than b
+    const vNext = Math.max(v - b * tau, Math.min(desiredSpeed, v + config.maxAccel * driver.accel * tau));
+    const a = (Math.max(0, vNext) - v) / tau;
+    if (gap === null || vLeader === null) return a;
+    const vSafe = vLeader + (gap - STANDSTILL_GAP - vLeader * tau) / ((v + vLeader) / (2 * b) + tau);
+    return Math.min(a, safeStep(v, Math.max(0, vSafe), config));
+  }
+
+  // Dawdling: randomly fall short of the planned speed by up to sigma * a
+  perturbation(v: number, config: SimulationConfig, rng: RandomSource, driver: DriverParams): number {
+    if (v <= 0 || config.krauss.sigma <= 0) return 0;
+    return -config.krauss.sigma * config.maxAccel * driver.accel * rng.next();
+  }
+}
+
+// ACC model (Kesting et al. 2010): IDM blended with the constant-acceleration heuristic (CAH),
+// which assumes the leader keeps its current acceleration and so reacts less to harmless cut-ins.
+export function accAcceleration(
+  v: number,
+  vLeader: number | null,
+  gap: number | null,
+  desiredSpeed: number,
+  config: SimulationConfig,
+  aLeader: number | null,
+  driver: DriverParams,
+  safeTimeGap: number = config.safeTimeGap * driver.timeGap
+): number {
+  const { coolness, idmPlus } = config.acc;
+  const aIdm = idmAcceleration(v, vLeader, gap, desiredSpeed, config, idmPlus, driver, safeTimeGap);
+  if (gap === null || vLeader === null || coolness <= 0) return aIdm;
+
+  const s = Math.max(MIN_EFFECTIVE_GAP, gap);
+  const al = Math.min(aLeader ?? 0, config.maxAccel * driver.accel);
+  const denom = vLeader * vLeader - 2 * s * al; // 0 behind a standing obstacle: use the second branch
+  const aCah = vLeader * (v - vLeader) <= -2 * s * al && denom > 0
+    ? (v * v * al) / denom
+    : al - Math.pow(Math.max(0, v - vLeader), 2) / (2 * s);
+
+  if (aIdm >= aCah) return aIdm;
+  const b = config.idm.comfortDecel * driver.decel;
+  return (1 - coolness) * aIdm + coolness * (aCah + b * Math.tanh((aIdm - aCah) / b));
+}
+
+export class AccModel implements CarFollowingModel {
+  acceleration(
+    v: number,
+    vLeader: number | null,
+    gap: number | null,
+    desiredSpeed: number,
+    config: SimulationConfig,
+    aLeader: number | null,
+    driver: DriverParams
+  ): number {
+    return accAcceleration(v, vLeader, gap, desiredSpeed, config, aLeader, driver);
+  }
+}
+
+export const CAR_FOLLOWING_MODELS: Record<CarFollowingModelType, CarFollowingModel> = {
+  [CarFollowingModelType.IDM]: new IdmModel(),
+  [CarFollowingModelType.GIPPS]: new GippsModel(),
+  [CarFollowingModelType.OVM]: new OvmModel(),
+  [CarFollowingModelType.KRAUSS]: new KraussModel(),
+  [CarFollowingModelType.ACC]: new AccModel()
+};
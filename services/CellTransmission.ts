@@ -0,0 +1,249 @@
+import { MacroConfig, MacroSample, MacroStats, SimulationConfig, Vehicle } from '../types';
+import { demandAt } from './Demand';
+import { isIncidentActive, rubberneckLimitAt } from './Incidents';
+import { speedLimitAt } from './SpeedControl';
+
+// Macroscopic LWR model solved with the cell transmission model (Daganzo 1994), run on the same road as the
+// microsimulation: length, lanes, mainline and on-ramp demand, off-ramp shares, speed limits and incidents.
+// Each cell follows a triangular fundamental diagram per lane; a lower speed limit lowers the free-flow
+// branch (and so the capacity), a blocked lane removes its share of capacity and jam density.
+// Not modelled: signals, ramp metering and VSL (they are driven by the micro model's detectors).
+
+export const DEFAULT_MACRO: MacroConfig = {
+  enabled: false,
+  cellLength: 100,
+  freeSpeed: 100,
+  capacity: 1900,
+  jamDensity: 135
+};
+
+export type TriangularFd = Pick<MacroConfig, 'freeSpeed' | 'capacity' | 'jamDensity'>;
+
+const SAMPLE_INTERVAL = 5; // s
+const MAX_SAMPLES = 180;   // 15 min of space-time history
+const MIN_FIT_POINTS = 10;
+const MIN_CONGESTED_POINTS = 5;
+
+// Speed (km/h) of backward waves on the congested branch
+export function waveSpeed(fd: TriangularFd): number {
+  return fd.capacity / (fd.jamDensity - fd.capacity / fd.freeSpeed);
+}
+
+// Least-squares triangular FD through (k, q) points of the whole road (veh/km, veh/h over all lanes):
+// free branch through the origin, congested branch as a straight line. Without enough congested points only
+// the free speed is fitted (the capacity is raised to the largest observed flow if needed). null if there are too few points.
+export function fitTriangularFd(points: { k: number; q: number }[], lanes: number, initial: TriangularFd): TriangularFd | null {
+  const pts = points.filter(p => p.k > 0 && p.q >= 0).map(p => ({ k: p.k / lanes, q: p.q / lanes }));
+  if (pts.length < MIN_FIT_POINTS) return null;
+
+  const qMax = Math.max(...pts.map(p => p.q));
+  let kc = pts.find(p => p.q === qMax)!.k;
+  let fd = initial;
+  for (let iter = 0; iter < 5; iter++) {
+    const free = pts.filter(p => p.k <= kc);
+    const congested = pts.filter(p => p.k > kc);
+    const vf = free.reduce((s, p) => s + p.k * p.q, 0) / free.reduce((s, p) => s + p.k * p.k, 0);
+
+    let line: { w: number; kj: number } | null = null;
+    if (congested.length >= MIN_CONGESTED_POINTS) {
+      const mk = congested.reduce((s, p) => s + p.k, 0) / congested.length;
+      const mq = congested.reduce((s, p) => s + p.q, 0) / congested.length;
+      const sxx = congested.reduce((s, p) => s + (p.k - mk) ** 2, 0);
+      const slope = sxx > 0 ? congested.reduce((s, p) => s + (p.k - mk) * (p.q - mq), 0) / sxx : 0;
+      const intercept = mq - slope * mk;
+      if (slope < 0 && intercept > 0) line = { w: -slope, kj: intercept / -slope };
+    }
+
+    fd = line
+      ? { freeSpeed: vf, capacity: vf * line.w * line.kj / (vf + line.w), jamDensity: line.kj }
+      : { freeSpeed: vf, capacity: Math.max(initial.capacity, qMax), jamDensity: initial.jamDensity };
+    kc = fd.capacity / fd.freeSpeed;
+  }
+
+  const freeSpeed = Math.round(Math.max(10, Math.min(200, fd.freeSpeed)));
+  const jamDensity = Math.round(Math.max(50, Math.min(300, fd.jamDensity)));
+  const capacity = Math.round(Math.max(100, Math.min(4000, fd.capacity, 0.9 * freeSpeed * jamDensity)) / 10) * 10;
+  return { freeSpeed, capacity, jamDensity };
+}
+
+export class CellTransmissionModel {
+  count: Float64Array = new Float64Array(0); // Vehicles per cell
+  cellLength: number = 0;
+  entryQueue: number = 0;                    // Vehicles waiting at the upstream boundary
+  rampQueues: Map<number, number> = new Map();
+  clock: number = 0;                         // s owed to the macroscopic time step
+  microVehicles: number = 0;
+
+  // Time-weighted cell contents of both models since the last sample
+  microSum: Float64Array = new Float64Array(0);
+  macroSum: Float64Array = new Float64Array(0);
+  sumTime: number = 0;
+  samples: MacroSample[] = [];
+
+  reset() {
+    this.count = new Float64Array(0);
+    this.cellLength = 0;
+    this.entryQueue = 0;
+    this.rampQueues = new Map();
+    this.clock = 0;
+    this.microVehicles = 0;
+    this.microSum = new Float64Array(0);
+    this.macroSum = new Float64Array(0);
+    this.sumTime = 0;
+    this.samples = [];
+  }
+
+  // Called once per micro step, after the vehicles moved. Starts from the micro state on the first call
+  // and whenever the cell layout changes.
+  update(config: SimulationConfig, time: number, dt: number, vehicles: Vehicle[], ring: boolean) {
+    const n = Math.max(1, Math.round(config.roadLength / config.macro.cellLength));
+    const cellLength = config.roadLength / n;
+    const micro = this.cellCounts(vehicles, n, cellLength);
+    if (n !== this.count.length || cellLength !== this.cellLength) {
+      this.reset();
+      this.count = Float64Array.from(micro);
+      this.cellLength = cellLength;
+      this.microSum = new Float64Array(n);
+      this.macroSum = new Float64Array(n);
+    }
+    this.microVehicles = vehicles.length;
+
+    // CFL condition: no wave crosses more than one cell per step
+    const step = cellLength / (Math.max(config.macro.freeSpeed, waveSpeed(config.macro)) / 3.6);
+    this.clock += dt;
+    while (this.clock >= step) {
+      this.advance(config, time, step, ring);
+      this.clock -= step;
+    }
+
+    for (let i = 0; i < n; i++) {
+      this.microSum[i] += micro[i] * dt;
+      this.macroSum[i] += this.count[i] * dt;
+    }
+    this.sumTime += dt;
+    if (this.sumTime >= SAMPLE_INTERVAL) this.sample(time, config.lanes);
+  }
+
+  cellCounts(vehicles: Vehicle[], n: number, cellLength: number): Float64Array {
+    const counts = new Float64Array(n);
+    for (const veh of vehicles) {
+      const i = Math.floor(veh.x / cellLength);
+      if (i >= 0 && i < n) counts[i]++;
+    }
+    return counts;
+  }
+
+  // Lanes of cell i not blocked by an active incident
+  openLanes(config: SimulationConfig, i: number, time: number): number {
+    const blocked = new Set<number>();
+    for (const inc of config.incidents) {
+      if (!isIncidentActive(inc, time) || Math.floor(inc.position / this.cellLength) !== i) continue;
+      for (const lane of inc.lanes) if (lane < config.lanes) blocked.add(lane);
+    }
+    return config.lanes - blocked.size;
+  }
+
+  // One CTM step: sending and receiving flows per cell, then flows across every cell boundary
+  // (merging on-ramps share the receiving capacity in proportion to their demand, diverges are FIFO)
+  advance(config: SimulationConfig, time: number, dt: number, ring: boolean) {
+    const n = this.count.length;
+    const L = this.cellLength;
+    const vf = config.macro.freeSpeed / 3.6;
+    const kj = config.macro.jamDensity / 1000;
+    const w = waveSpeed(config.macro) / 3.6;
+
+    const sending = new Float64Array(n);   // veh/s
+    const receiving = new Float64Array(n); // veh/s
+    for (let i = 0; i < n; i++) {
+      const x = (i + 0.5) * L;
+      let v = vf;
+      const limit = speedLimitAt(x, config.speedLimits);
+      const rubberneck = rubberneckLimitAt(x, config.incidents, time);
+      if (limit !== null) v = Math.min(v, limit / 3.6);
+      if (rubberneck !== null) v = Math.min(v, rubberneck / 3.6);
+      const lanes = this.openLanes(config, i, time);
+      const q = lanes * v * w * kj / (v + w);
+      const k = this.count[i] / L;
+      sending[i] = Math.min(v * k, q);
+      receiving[i] = Math.max(0, Math.min(q, w * (lanes * kj - k)));
+    }
+
+    // Ramps and the upstream boundary only exist on the open road
+    const exitShare = new Float64Array(n);
+    const rampCell = new Map<number, number>();
+    if (!ring) {
+      this.entryQueue += (demandAt(config, time).inflowRate / 3600) * dt;
+      for (const ramp of config.onRamps) {
+        this.rampQueues.set(ramp.id, (this.rampQueues.get(ramp.id) ?? 0) + (ramp.inflowRate / 3600) * dt);
+        rampCell.set(ramp.id, Math.min(n - 1, Math.floor((ramp.position + ramp.length / 2) / L)));
+      }
+      for (const exit of config.offRamps) {
+        const i = Math.min(n - 1, Math.floor(exit.position / L));
+        exitShare[i] = 1 - (1 - exitShare[i]) * (1 - exit.share);
+      }
+    }
+
+    const change = new Float64Array(n);
+    for (let b = 0; b < (ring ? n : n + 1); b++) {
+      const up = b > 0 ? b - 1 : ring ? n - 1 : -1; // -1: upstream boundary
+      const down = b < n ? b : -1;                   // -1: end of the road
+      const ramps = config.onRamps.filter(r => rampCell.get(r.id) === down);
+
+      const mainDemand = up >= 0 ? sending[up] : this.entryQueue / dt;
+      const rampDemand = ramps.reduce((s, r) => s + (this.rampQueues.get(r.id) ?? 0), 0) / dt;
+      const beta = up >= 0 ? exitShare[up] : 0;
+      const wanted = (1 - beta) * mainDemand + rampDemand;
+      const f = down >= 0 && wanted > receiving[down] ? receiving[down] / wanted : 1;
+
+      const fromUp = f * mainDemand * dt;
+      if (up >= 0) change[up] -= fromUp;
+      else this.entryQueue -= fromUp;
+      if (down >= 0) change[down] += (1 - beta) * fromUp + f * rampDemand * dt;
+      for (const r of ramps) this.rampQueues.set(r.id, (1 - f) * this.rampQueues.get(r.id)!);
+    }
+    for (let i = 0; i < n; i++) this.count[i] = Math.max(0, this.count[i] + change[i]);
+  }
+
+  sample(time: number, lanes: number) {
+    const perKmLane = 1000 / (this.cellLength * lanes * this.sumTime);
+    this.samples.push({
+      time,
+      micro: Array.from(this.microSum, c => c * perKmLane),
+      macro: Array.from(this.macroSum, c => c * perKmLane)
+    });
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+    this.microSum.fill(0);
+    this.macroSum.fill(0);
+    this.sumTime = 0;
+  }
+
+  stats(lanes: number): MacroStats | null {
+    if (this.count.length === 0) return null;
+    let sumSq = 0, sumAbs = 0, sum = 0, cells = 0, micro = 0, macro = 0;
+    for (const s of this.samples) {
+      for (let i = 0; i < s.micro.length; i++) {
+        const d = s.macro[i] - s.micro[i];
+        sumSq += d * d;
+        sumAbs += Math.abs(d);
+        sum += d;
+        micro += s.micro[i];
+        macro += s.macro[i];
+        cells++;
+      }
+    }
+    // Density (veh/km/lane) x cell length x lanes x interval = vehicle-hours
+    const toVehHours = (this.cellLength / 1000) * lanes * (SAMPLE_INTERVAL / 3600);
+    return {
+      cellLength: this.cellLength,
+      samples: [...this.samples],
+      rmse: cells ? Math.sqrt(sumSq / cells) : 0,
+      mae: cells ? sumAbs / cells : 0,
+      bias: cells ? sum / cells : 0,
+      microVehicles: this.microVehicles,
+      macroVehicles: this.count.reduce((s, c) => s + c, 0),
+      microTts: micro * toVehHours,
+      macroTts: macro * toVehHours,
+      entryQueue: this.entryQueue + Array.from(this.rampQueues.values()).reduce((s, q) => s + q, 0)
+    };
+  }
+}
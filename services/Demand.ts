@@ -0,0 +1,37 @@
+import { SimulationConfig, DemandProfile, DemandInterpolation } from '../types';
+
+// Mainline demand at a given simulation time: the demand profile if enabled, the constant inflow otherwise
+
+export interface DemandState {
+  inflowRate: number; // veh/h
+  truckRatio: number; // 0-1
+}
+
+export function demandAt(config: SimulationConfig, time: number): DemandState {
+  const { demand } = config;
+  const constant = { inflowRate: config.inflowRate, truckRatio: config.truckRatio };
+  if (!demand.enabled || demand.points.length === 0) return constant;
+
+  const points = demand.points;
+  let i = 0;
+  while (i + 1 < points.length && points[i + 1].time <= time) i++;
+  const p = points[i];
+  const next = points[i + 1];
+
+  let inflowRate = p.inflowRate;
+  let truckRatio = p.truckRatio;
+  if (demand.interpolation === DemandInterpolation.LINEAR && next && time > p.time && next.time > p.time) {
+    const f = (time - p.time) / (next.time - p.time);
+    inflowRate += (next.inflowRate - p.inflowRate) * f;
+    truckRatio += (next.truckRatio - p.truckRatio) * f;
+  }
+  return { inflowRate, truckRatio: demand.varyTruckRatio ? truckRatio : config.truckRatio };
+}
+
+// Normalised per-lane shares, or null when inflow is not split by lane
+export function laneShares(demand: DemandProfile, lanes: number): number[] | null {
+  if (!demand.enabled || !demand.laneSplit) return null;
+  const shares = Array.from({ length: lanes }, (_, l) => Math.max(0, demand.laneSplit![l] ?? 0));
+  const total = shares.reduce((s, x) => s + x, 0);
+  return total > 0 ? shares.map(s => s / total) : null;
+}
@@ -0,0 +1,101 @@
+import { Vehicle, DetectorConfig, DetectorLaneData, DetectorMeasurement } from '../types';
+
+const MAX_HISTORY = 200; // Completed intervals kept per detector
+
+interface LaneAccumulator {
+  count: number;
+  sumV: number;    // For time-mean speed
+  sumInvV: number; // For space-mean (harmonic) speed
+  occupiedTime: number;
+}
+
+const emptyAccumulator = (): LaneAccumulator => ({ count: 0, sumV: 0, sumInvV: 0, occupiedTime: 0 });
+
+// Virtual inductive loop at a fixed cross-section.
+// Vehicle x is the front bumper; a vehicle covers the loop while x - length <= position < x.
+export class LoopDetector {
+  id: number;
+  position: number;
+  interval: number;
+  lanes: number;
+  intervalStart: number;
+  accumulators: LaneAccumulator[];
+  history: DetectorMeasurement[] = [];
+
+  constructor(config: DetectorConfig, lanes: number, startTime: number = 0) {
+    this.id = config.id;
+    this.position = config.position;
+    this.interval = config.interval;
+    this.lanes = lanes;
+    this.intervalStart = startTime;
+    this.accumulators = Array.from({ length: lanes }, emptyAccumulator);
+  }
+
+  // Called once per vehicle per step, after the position update
+  observe(veh: Vehicle, xOld: number, dt: number) {
+    const acc = this.accumulators[veh.lane];
+    if (!acc) return;
+
+    if (xOld < this.position && veh.x >= this.position) {
+      acc.count++;
+      acc.sumV += veh.v;
+      acc.sumInvV += 1 / Math.max(0.1, veh.v);
+    }
+
+    if (veh.x - veh.length <= this.position && veh.x > this.position) {
+      acc.occupiedTime += dt;
+    }
+  }
+
+  // Close the interval if it has elapsed. Returns the new measurement, if any.
+  update(time: number): DetectorMeasurement | null {
+    const elapsed = time - this.intervalStart;
+    if (elapsed < this.interval) return null;
+
+    const lanes = this.accumulators.map((acc, lane) => this.aggregate(lane, [acc], elapsed));
+    const total = this.aggregate(-1, this.accumulators, elapsed);
+
+    const measurement: DetectorMeasurement = {
+      detectorId: this.id,
+      position: this.position,
+      time,
+      interval: elapsed,
+      lanes,
+      total
+    };
+
+    this.history.push(measurement);
+    if (this.history.length > MAX_HISTORY) this.history.shift();
+
+    this.accumulators = Array.from({ length: this.lanes }, emptyAccumulator);
+    this.intervalStart = time;
+    return measurement;
+  }
+
+  aggregate(lane: number, accs: LaneAccumulator[], elapsed: number): DetectorLaneData {
+    const count = accs.reduce((s, a) => s + a.count, 0);
+    const sumV = accs.reduce((s, a) => s + a.sumV, 0);
+    const sumInvV = accs.reduce((s, a) => s + a.sumInvV, 0);
+    const occupiedTime = accs.reduce((s, a) => s + a.occupiedTime, 0);
+
+    return {
+      lane,
+      count,
+      flow: count * 3600 / elapsed,
+      timeMeanSpeed: count > 0 ? (sumV / count) * 3.6 : 0,
+      spaceMeanSpeed: count > 0 ? (count / sumInvV) * 3.6 : 0,
+      // Cross-section occupancy is the lane average
+      occupancy: occupiedTime / (elapsed * accs.length)
+    };
+  }
+
+  get latest(): DetectorMeasurement | null {
+    return this.history.length > 0 ? this.history[this.history.length - 1] : null;
+  }
+}
+
+// Fundamental diagram point from an interval: k = q / v_s (space-mean speed)
+export function measurementToFdPoint(m: DetectorMeasurement): { k: number; q: number } | null {
+  if (m.total.count === 0 || m.total.spaceMeanSpeed <= 0) return null;
+  return { k: m.total.flow / m.total.spaceMeanSpeed, q: m.total.flow };
+}
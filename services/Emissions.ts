@@ -0,0 +1,108 @@
+import { Vehicle, VehicleType, EmissionStats } from '../types';
+
+// Instantaneous fuel and CO2 from vehicle-specific power (VSP, kW per tonne), driven by each step's v and a.
+// Light vehicles: Jiménez-Palacios (1999), flat road. Heavy vehicles: same form with heavy-duty road-load terms.
+// Vans and motorcycles reuse the light-vehicle form with their own mass, drag and engine.
+// Fuel flow is engine power over efficiency and heating value, with an idle floor (no fuel while braking beyond idle).
+
+export interface EmissionClass {
+  mass: number;        // t
+  inertia: number;     // Rotating-mass factor on acceleration
+  rolling: number;     // kW/t per m/s (rolling resistance)
+  aero: number;        // kW/t per (m/s)^3 (aerodynamic drag)
+  efficiency: number;  // Engine + driveline efficiency
+  heatingValue: number; // MJ/kg fuel (lower heating value)
+  idleFuel: number;    // g/s
+  fuelDensity: number; // g/L
+  co2PerFuel: number;  // g CO2 per g fuel
+}
+
+export const GASOLINE_CAR: EmissionClass = {
+  mass: 1.5, inertia: 1.1, rolling: 0.132, aero: 0.000302,
+  efficiency: 0.25, heatingValue: 43.0, idleFuel: 0.17, fuelDensity: 745, co2PerFuel: 3.09
+};
+
+export const DIESEL_TRUCK: EmissionClass = {
+  mass: 15, inertia: 1.0, rolling: 0.092, aero: 0.000169,
+  efficiency: 0.38, heatingValue: 42.8, idleFuel: 0.6, fuelDensity: 835, co2PerFuel: 3.16
+};
+
+export const DIESEL_VAN: EmissionClass = {
+  mass: 2.5, inertia: 1.1, rolling: 0.132, aero: 0.00035,
+  efficiency: 0.3, heatingValue: 42.8, idleFuel: 0.2, fuelDensity: 835, co2PerFuel: 3.16
+};
+
+export const DIESEL_BUS: EmissionClass = {
+  mass: 13, inertia: 1.0, rolling: 0.092, aero: 0.00022,
+  efficiency: 0.36, heatingValue: 42.8, idleFuel: 0.5, fuelDensity: 835, co2PerFuel: 3.16
+};
+
+export const GASOLINE_MOTORCYCLE: EmissionClass = {
+  mass: 0.3, inertia: 1.05, rolling: 0.1, aero: 0.0008,
+  efficiency: 0.2, heatingValue: 43.0, idleFuel: 0.05, fuelDensity: 745, co2PerFuel: 3.09
+};
+
+export const EMISSION_CLASSES: Record<VehicleType, EmissionClass> = {
+  [VehicleType.CAR]: GASOLINE_CAR,
+  [VehicleType.TRUCK]: DIESEL_TRUCK,
+  [VehicleType.AUTOMATED]: GASOLINE_CAR,
+  [VehicleType.VAN]: DIESEL_VAN,
+  [VehicleType.BUS]: DIESEL_BUS,
+  [VehicleType.MOTORCYCLE]: GASOLINE_MOTORCYCLE
+};
+
+// kW/t
+export function vehicleSpecificPower(cls: EmissionClass, v: number, a: number): number {
+  return v * (cls.inertia * a + cls.rolling) + cls.aero * v * v * v;
+}
+
+// g/s
+export function fuelRate(cls: EmissionClass, v: number, a: number): number {
+  const power = Math.max(0, vehicleSpecificPower(cls, v, a)) * cls.mass; // kW
+  return cls.idleFuel + power / (cls.efficiency * cls.heatingValue);
+}
+
+// Running totals since the last reset
+export class EmissionMeter {
+  fuel: number = 0;     // L
+  co2: number = 0;      // g
+  distance: number = 0; // m, summed over vehicles
+  rate: number = 0;     // g/s CO2 of all vehicles in the last step
+
+  reset() {
+    this.fuel = 0;
+    this.co2 = 0;
+    this.distance = 0;
+    this.rate = 0;
+  }
+
+  // Called once per step before the vehicles are observed
+  beginStep() {
+    this.rate = 0;
+  }
+
+  // One vehicle over one step; stores its CO2 rate on the vehicle for drawing
+  observe(veh: Vehicle, distance: number, dt: number) {
+    const cls = EMISSION_CLASSES[veh.type];
+    const fuel = fuelRate(cls, veh.v, veh.a);
+    veh.emissionRate = fuel * cls.co2PerFuel;
+    this.fuel += (fuel / cls.fuelDensity) * dt;
+    this.co2 += veh.emissionRate * dt;
+    this.distance += Math.max(0, distance);
+    this.rate += veh.emissionRate;
+  }
+
+  stats(vehicles: number): EmissionStats {
+    const km = this.distance / 1000;
+    return {
+      fuel: this.fuel,
+      co2: this.co2 / 1000,
+      distance: km,
+      vehicles,
+      fuelPer100Km: km > 0 ? (this.fuel / km) * 100 : 0,
+      co2PerKm: km > 0 ? this.co2 / km : 0,
+      co2PerVehicle: vehicles > 0 ? this.co2 / vehicles : 0,
+      co2Rate: this.rate * 3.6
+    };
+  }
+}
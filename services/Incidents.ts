@@ -0,0 +1,38 @@
+import { Incident } from '../types';
+
+// Rubbernecking zone around an incident site (m)
+export const RUBBERNECK_UPSTREAM = 300;
+export const RUBBERNECK_DOWNSTREAM = 100;
+
+// Distance (m) before a blocked lane where drivers are forced out of it
+export const INCIDENT_APPROACH_DIST = 300;
+
+export function isIncidentActive(incident: Incident, time: number): boolean {
+  return time >= incident.startTime && time < incident.startTime + incident.duration;
+}
+
+// Lowest rubbernecking speed (km/h) in force at x, or null
+export function rubberneckLimitAt(x: number, incidents: Incident[], time: number): number | null {
+  let limit: number | null = null;
+  for (const inc of incidents) {
+    if (inc.rubberneckSpeed === null || !isIncidentActive(inc, time)) continue;
+    if (x < inc.position - RUBBERNECK_UPSTREAM || x > inc.position + RUBBERNECK_DOWNSTREAM) continue;
+    if (limit === null || inc.rubberneckSpeed < limit) limit = inc.rubberneckSpeed;
+  }
+  return limit;
+}
+
+// Nearest active blockage ahead of x in the given lane; on a ring the search wraps past the seam
+export function nextBlockage(x: number, lane: number, incidents: Incident[], time: number, roadLength: number, ring: boolean): Incident | null {
+  let next: Incident | null = null;
+  let nextDist = Infinity;
+  for (const inc of incidents) {
+    if (!inc.lanes.includes(lane) || !isIncidentActive(inc, time)) continue;
+    const dist = ring ? (((inc.position - x) % roadLength) + roadLength) % roadLength : inc.position - x;
+    if (dist > 0 && dist < nextDist) {
+      next = inc;
+      nextDist = dist;
+    }
+  }
+  return next;
+}
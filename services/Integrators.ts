@@ -0,0 +1,63 @@
+// Position/speed updates for one time step.
+// The single-vehicle schemes hold the acceleration computed at the start of the step constant.
+
+export interface KinematicUpdate {
+  x: number;
+  v: number;
+  clamped: boolean; // The scheme produced a negative speed that had to be cut off
+}
+
+export function eulerUpdate(x: number, v: number, a: number, dt: number): KinematicUpdate {
+  const vNew = v + a * dt;
+  if (vNew < 0) return { x, v: 0, clamped: true }; // No reversing
+  return { x: x + vNew * dt, v: vNew, clamped: false };
+}
+
+// Ballistic update (Treiber & Kanagaraj 2015): exact for constant acceleration,
+// including vehicles that come to a stop within the step
+export function ballisticUpdate(x: number, v: number, a: number, dt: number): KinematicUpdate {
+  const vNew = v + a * dt;
+  if (vNew < 0) return { x: x - (v * v) / (2 * a), v: 0, clamped: false };
+  return { x: x + v * dt + 0.5 * a * dt * dt, v: vNew, clamped: false };
+}
+
+// Classic RK4 over all vehicles at once; accelerations(x, v) evaluates the coupled system
+export function rk4Update(
+  x: Float64Array,
+  v: Float64Array,
+  dt: number,
+  accelerations: (x: Float64Array, v: Float64Array) => Float64Array
+): { x: Float64Array; v: Float64Array; clamps: number } {
+  const n = x.length;
+  const stage = (k: Float64Array, kv: Float64Array, h: number) => {
+    const xs = new Float64Array(n);
+    const vs = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      xs[i] = x[i] + h * kv[i];
+      vs[i] = Math.max(0, v[i] + h * k[i]);
+    }
+    return { xs, vs };
+  };
+
+  const a1 = accelerations(x, v);
+  const s2 = stage(a1, v, dt / 2);
+  const a2 = accelerations(s2.xs, s2.vs);
+  const s3 = stage(a2, s2.vs, dt / 2);
+  const a3 = accelerations(s3.xs, s3.vs);
+  const s4 = stage(a3, s3.vs, dt);
+  const a4 = accelerations(s4.xs, s4.vs);
+
+  const xNew = new Float64Array(n);
+  const vNew = new Float64Array(n);
+  let clamps = 0;
+  for (let i = 0; i < n; i++) {
+    vNew[i] = v[i] + (dt / 6) * (a1[i] + 2 * a2[i] + 2 * a3[i] + a4[i]);
+    xNew[i] = x[i] + (dt / 6) * (v[i] + 2 * s2.vs[i] + 2 * s3.vs[i] + s4.vs[i]);
+    if (vNew[i] < 0) {
+      vNew[i] = 0;
+      clamps++;
+    }
+    if (xNew[i] < x[i]) xNew[i] = x[i]; // No reversing
+  }
+  return { x: xNew, v: vNew, clamps };
+}
@@ -0,0 +1,288 @@
+import { Jam, JamDetectionConfig, JamEvent, JamEventType, JamStats, Vehicle } from '../types';
+
+// Jam detection and tracking. Every SAMPLE_INTERVAL the road is split into BIN_SIZE sections; sections whose
+// cross-lane mean speed is below the threshold are joined into congested regions (a single fast or empty
+// section does not split a region). Regions of at least minLength are matched to the jams of the previous
+// sample by overlap. The fronts are the rearmost and foremost slow vehicle of a region, and their propagation
+// speeds are least-squares slopes over the last FRONT_WINDOW seconds (wide moving jams: about -15 km/h).
+
+export const DEFAULT_JAM_DETECTION: JamDetectionConfig = {
+  speedThreshold: 30,
+  minLength: 100
+};
+
+const SAMPLE_INTERVAL = 1;  // s
+const BIN_SIZE = 25;        // m
+const MATCH_TOLERANCE = 50; // m: a region this close to a jam's last extent continues it
+const SPLIT_GAP = 100;      // m between two parts of a jam before they are tracked as separate jams
+const DISSOLVE_DELAY = 3;   // s a jam may go undetected before it is reported dissolved
+const FRONT_WINDOW = 30;    // s of front positions used for the propagation speeds
+const MIN_FRONT_SPAN = 10;  // s of front positions before a speed is reported
+const DISCHARGE_ZONE = 200; // m downstream of the head over which the discharge flow is measured
+const RECENT_EVENTS = 50;
+
+interface Region {
+  upstream: number;   // m (unwrapped on the ring)
+  downstream: number;
+  vehicles: number;
+  speedSum: number;   // m/s
+}
+
+interface TrackedJam {
+  jam: Jam;
+  upstream: number;   // m, unwrapped: continuous across the ring seam
+  downstream: number;
+  lastSeen: number;   // s
+  fronts: { t: number; upstream: number; downstream: number }[];
+  dischargeSum: number;
+  dischargeSamples: number;
+}
+
+export function describeJamEvent(e: JamEvent): string {
+  const at = `at ${(e.position / 1000).toFixed(1)} km, t=${e.time.toFixed(0)} s`;
+  const life = `after ${e.jam.lifetime.toFixed(0)} s`;
+  switch (e.type) {
+    case JamEventType.FORMED:
+      return `Jam #${e.jam.id} formed ${at}`;
+    case JamEventType.SPLIT:
+      return `Jam #${e.jam.id} split off #${e.relatedId} ${at}`;
+    case JamEventType.MERGED:
+      return `Jam #${e.jam.id} merged into #${e.relatedId} ${at} ${life}`;
+    case JamEventType.DISSOLVED: {
+      const discharge = e.jam.dischargeRate !== null ? `, discharge ${e.jam.dischargeRate.toFixed(0)} veh/h` : '';
+      return `Jam #${e.jam.id} dissolved ${at} ${life} (max ${e.jam.maxLength.toFixed(0)} m${discharge})`;
+    }
+  }
+}
+
+// Least-squares slope (km/h) of a front's position over time, null until the history is long enough
+function frontSpeed(fronts: TrackedJam['fronts'], key: 'upstream' | 'downstream'): number | null {
+  if (fronts.length < 2 || fronts[fronts.length - 1].t - fronts[0].t < MIN_FRONT_SPAN) return null;
+  const mt = fronts.reduce((s, f) => s + f.t, 0) / fronts.length;
+  const mx = fronts.reduce((s, f) => s + f[key], 0) / fronts.length;
+  let num = 0, den = 0;
+  for (const f of fronts) {
+    num += (f.t - mt) * (f[key] - mx);
+    den += (f.t - mt) ** 2;
+  }
+  return den > 0 ? (num / den) * 3.6 : null;
+}
+
+export class JamDetector {
+  tracked: TrackedJam[] = [];
+  events: JamEvent[] = [];
+  nextId: number = 1;
+  formed: number = 0;
+  lastSample: number = -Infinity;
+
+  reset() {
+    this.tracked = [];
+    this.events = [];
+    this.nextId = 1;
+    this.formed = 0;
+    this.lastSample = -Infinity;
+  }
+
+  // Called once per step, after the vehicles moved
+  update(vehicles: Vehicle[], time: number, lanes: number, roadLength: number, ring: boolean, config: JamDetectionConfig) {
+    if (time - this.lastSample < SAMPLE_INTERVAL) return;
+    this.lastSample = time;
+
+    const regions = this.detect(vehicles, lanes, roadLength, ring, config)
+      .sort((a, b) => (b.downstream - b.upstream) - (a.downstream - a.upstream));
+    const assigned = new Map<TrackedJam, Region>(); // Continued jams and their extent this sample
+    const created = new Set<TrackedJam>();
+    const merged = new Set<TrackedJam>();
+
+    // Largest regions first: each continues the oldest jam it overlaps and absorbs the others. A region next to
+    // a jam already continued by a larger one joins it, unless the gap has grown to SPLIT_GAP (a split)
+    for (const region of regions) {
+      const overlapping = this.tracked
+        .filter(t => !merged.has(t) && !created.has(t) && this.overlaps(t, region, roadLength, ring))
+        .sort((a, b) => a.jam.startTime - b.jam.startTime || a.jam.id - b.jam.id);
+      const owner = overlapping.find(t => !assigned.has(t));
+      const parent = overlapping.find(t => assigned.has(t));
+      if (!owner && parent) {
+        const main = assigned.get(parent)!;
+        const r = this.shifted(region, parent, roadLength, ring);
+        if (Math.max(r.upstream - main.downstream, main.upstream - r.downstream) < SPLIT_GAP) {
+          assigned.set(parent, {
+            upstream: Math.min(main.upstream, r.upstream),
+            downstream: Math.max(main.downstream, r.downstream),
+            vehicles: main.vehicles + r.vehicles,
+            speedSum: main.speedSum + r.speedSum
+          });
+          continue;
+        }
+      }
+      if (!owner) {
+        const jam = this.start(region, time, roadLength);
+        created.add(jam);
+        this.formed++;
+        this.log(parent ? JamEventType.SPLIT : JamEventType.FORMED, jam, time, roadLength, parent?.jam.id ?? null);
+        continue;
+      }
+      assigned.set(owner, this.shifted(region, owner, roadLength, ring));
+      for (const other of overlapping) {
+        if (other === owner || assigned.has(other)) continue;
+        merged.add(other);
+        this.log(JamEventType.MERGED, other, time, roadLength, owner.jam.id);
+      }
+    }
+    for (const [t, region] of assigned) this.observe(t, region, time, vehicles, lanes, roadLength, ring);
+
+    this.tracked = this.tracked.filter(t => {
+      if (merged.has(t)) return false;
+      if (assigned.has(t) || created.has(t) || time - t.lastSeen < DISSOLVE_DELAY) return true;
+      this.log(JamEventType.DISSOLVED, t, time, roadLength, null);
+      return false;
+    });
+  }
+
+  // Congested regions of at least minLength, from upstream
+  detect(vehicles: Vehicle[], lanes: number, roadLength: number, ring: boolean, config: JamDetectionConfig): Region[] {
+    const n = Math.max(1, Math.ceil(roadLength / BIN_SIZE));
+    const threshold = config.speedThreshold / 3.6;
+    const count = new Int32Array(n);
+    const speed = new Float64Array(n);
+    const rear = new Float64Array(n).fill(Infinity);
+    const front = new Float64Array(n).fill(-Infinity);
+    for (const veh of vehicles) {
+      if (veh.lane >= lanes || veh.x < 0 || veh.x >= roadLength) continue; // Acceleration lanes do not count
+      const i = Math.min(n - 1, Math.floor(veh.x / BIN_SIZE));
+      count[i]++;
+      speed[i] += veh.v;
+      if (veh.v < threshold) {
+        rear[i] = Math.min(rear[i], veh.x - veh.length);
+        front[i] = Math.max(front[i], veh.x);
+      }
+    }
+    const slow = (i: number) => count[i] > 0 && speed[i] / count[i] < threshold;
+
+    // On the ring, scan from a free section so that a region across the seam stays in one piece
+    let start = 0;
+    if (ring) {
+      for (let i = 0; i < n; i++) if (!slow(i)) { start = i + 1; break; }
+    }
+
+    const regions: Region[] = [];
+    let current: Region | null = null;
+    let gap = 0;
+    const close = () => {
+      if (current && current.downstream - current.upstream >= config.minLength) {
+        if (!ring) current.upstream = Math.max(0, current.upstream);
+        else if (current.upstream >= roadLength) {
+          current.upstream -= roadLength;
+          current.downstream -= roadLength;
+        }
+        regions.push(current);
+      }
+      current = null;
+    };
+    for (let j = start; j < start + n; j++) {
+      const i = j % n;
+      const offset = j >= n ? roadLength : 0;
+      if (!slow(i)) {
+        if (current && ++gap > 1) close();
+        continue;
+      }
+      if (!current) current = { upstream: Infinity, downstream: -Infinity, vehicles: 0, speedSum: 0 };
+      current.upstream = Math.min(current.upstream, rear[i] + offset);
+      current.downstream = Math.max(current.downstream, front[i] + offset);
+      current.vehicles += count[i];
+      current.speedSum += speed[i];
+      gap = 0;
+    }
+    close();
+    return regions;
+  }
+
+  // Region moved by whole ring lengths next to the jam's last extent
+  shifted(region: Region, t: TrackedJam, roadLength: number, ring: boolean): Region {
+    if (!ring) return region;
+    const d = (region.upstream + region.downstream - t.upstream - t.downstream) / 2;
+    const shift = Math.round(d / roadLength) * roadLength;
+    return { ...region, upstream: region.upstream - shift, downstream: region.downstream - shift };
+  }
+
+  overlaps(t: TrackedJam, region: Region, roadLength: number, ring: boolean): boolean {
+    const r = this.shifted(region, t, roadLength, ring);
+    return r.upstream <= t.downstream + MATCH_TOLERANCE && r.downstream >= t.upstream - MATCH_TOLERANCE;
+  }
+
+  start(region: Region, time: number, roadLength: number): TrackedJam {
+    const t: TrackedJam = {
+      jam: {
+        id: this.nextId++, upstream: 0, downstream: 0, length: 0, maxLength: 0, startTime: time, lifetime: 0,
+        vehicles: 0, meanSpeed: 0, upstreamSpeed: null, downstreamSpeed: null, dischargeRate: null
+      },
+      upstream: region.upstream,
+      downstream: region.downstream,
+      lastSeen: time,
+      fronts: [],
+      dischargeSum: 0,
+      dischargeSamples: 0
+    };
+    this.tracked.push(t);
+    this.setExtent(t, region, time, roadLength);
+    return t;
+  }
+
+  setExtent(t: TrackedJam, region: Region, time: number, roadLength: number) {
+    const length = region.downstream - region.upstream;
+    const upstream = ((region.upstream % roadLength) + roadLength) % roadLength;
+    t.upstream = region.upstream;
+    t.downstream = region.downstream;
+    t.lastSeen = time;
+    t.fronts.push({ t: time, upstream: region.upstream, downstream: region.downstream });
+    while (t.fronts[0].t < time - FRONT_WINDOW) t.fronts.shift();
+    Object.assign(t.jam, {
+      upstream,
+      downstream: upstream + length,
+      length,
+      maxLength: Math.max(t.jam.maxLength, length),
+      lifetime: time - t.jam.startTime,
+      vehicles: region.vehicles,
+      meanSpeed: (region.speedSum / Math.max(1, region.vehicles)) * 3.6,
+      upstreamSpeed: frontSpeed(t.fronts, 'upstream'),
+      downstreamSpeed: frontSpeed(t.fronts, 'downstream')
+    });
+  }
+
+  observe(t: TrackedJam, region: Region, time: number, vehicles: Vehicle[], lanes: number, roadLength: number, ring: boolean) {
+    this.setExtent(t, region, time, roadLength);
+    const q = this.dischargeFlow(vehicles, region.downstream, lanes, roadLength, ring);
+    if (q !== null) {
+      t.dischargeSum += q;
+      t.dischargeSamples++;
+      t.jam.dischargeRate = t.dischargeSum / t.dischargeSamples;
+    }
+  }
+
+  // Flow (veh/h, all lanes) just downstream of the head: sum of speeds over the zone length (Edie).
+  // null when the zone runs past the end of the open road
+  dischargeFlow(vehicles: Vehicle[], head: number, lanes: number, roadLength: number, ring: boolean): number | null {
+    if (!ring && head + DISCHARGE_ZONE > roadLength) return null;
+    let speedSum = 0;
+    for (const veh of vehicles) {
+      if (veh.lane >= lanes) continue;
+      const d = ring ? (((veh.x - head) % roadLength) + roadLength) % roadLength : veh.x - head;
+      if (d > 0 && d <= DISCHARGE_ZONE) speedSum += veh.v;
+    }
+    return (speedSum / DISCHARGE_ZONE) * 3600;
+  }
+
+  log(type: JamEventType, t: TrackedJam, time: number, roadLength: number, relatedId: number | null) {
+    const centre = (t.upstream + t.downstream) / 2;
+    this.events.push({ type, time, position: ((centre % roadLength) + roadLength) % roadLength, jam: { ...t.jam }, relatedId });
+    if (this.events.length > RECENT_EVENTS) this.events.shift();
+  }
+
+  stats(): JamStats {
+    return {
+      jams: this.tracked.map(t => ({ ...t.jam })).sort((a, b) => a.upstream - b.upstream),
+      events: [...this.events].reverse(),
+      formed: this.formed
+    };
+  }
+}
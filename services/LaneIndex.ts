@@ -0,0 +1,83 @@
+import { Vehicle } from '../types';
+
+// Vehicles bucketed per lane and sorted by x (ascending) for O(log n) leader/follower lookups.
+// Rebuilt after positions change (nearly sorted input, so cheap) and patched in place on lane changes.
+export class LaneIndex {
+  lanes: Vehicle[][] = [];
+
+  rebuild(vehicles: Vehicle[]) {
+    for (const lane of this.lanes) lane.length = 0;
+    for (const veh of vehicles) this.laneArray(veh.lane).push(veh);
+    for (const lane of this.lanes) lane.sort((a, b) => a.x - b.x);
+  }
+
+  // Move veh (already at its new lane) out of fromLane
+  move(veh: Vehicle, fromLane: number) {
+    const from = this.laneArray(fromLane);
+    const i = from.indexOf(veh, this.lowerBound(from, veh.x));
+    if (i >= 0) from.splice(i, 1);
+    const to = this.laneArray(veh.lane);
+    to.splice(this.upperBound(to, veh.x), 0, veh);
+  }
+
+  insert(veh: Vehicle) {
+    const lane = this.laneArray(veh.lane);
+    lane.splice(this.upperBound(lane, veh.x), 0, veh);
+  }
+
+  // Nearest vehicle strictly ahead of x (wrapping to the lane's rearmost vehicle on a ring)
+  ahead(x: number, lane: number, wrap: boolean): Vehicle | null {
+    const arr = this.laneArray(lane);
+    const i = this.upperBound(arr, x);
+    if (i < arr.length) return arr[i];
+    return wrap && arr.length > 0 && arr[0].x < x ? arr[0] : null;
+  }
+
+  // Nearest vehicle strictly behind x (wrapping to the lane's frontmost vehicle on a ring)
+  behind(x: number, lane: number, wrap: boolean): Vehicle | null {
+    const arr = this.laneArray(lane);
+    const i = this.lowerBound(arr, x) - 1;
+    if (i >= 0) return arr[i];
+    const last = arr[arr.length - 1];
+    return wrap && last && last.x > x ? last : null;
+  }
+
+  // A vehicle at exactly x (neither ahead nor behind)
+  at(x: number, lane: number): Vehicle | null {
+    const arr = this.laneArray(lane);
+    const veh = arr[this.lowerBound(arr, x)];
+    return veh && veh.x === x ? veh : null;
+  }
+
+  // Rearmost vehicle in the lane
+  last(lane: number): Vehicle | null {
+    return this.laneArray(lane)[0] ?? null;
+  }
+
+  laneArray(lane: number): Vehicle[] {
+    while (this.lanes.length <= lane) this.lanes.push([]);
+    return this.lanes[lane];
+  }
+
+  // First index with x >= value
+  lowerBound(arr: Vehicle[], value: number): number {
+    let lo = 0, hi = arr.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (arr[mid].x < value) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  // First index with x > value
+  upperBound(arr: Vehicle[], value: number): number {
+    let lo = 0, hi = arr.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (arr[mid].x <= value) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
@@ -0,0 +1,66 @@
+import { RampMeterConfig, RampMeterAlgorithm, RampMeterSample, RampMeterState } from '../types';
+import { LoopDetector } from './Detectors';
+
+const MAX_HISTORY = 200; // Control updates kept per meter
+
+interface MeterState {
+  rate: number;                    // veh/h
+  lastOccupancy: number | null;    // % at the previous update (PI-ALINEA)
+  lastMeasurement: number | null;  // Time of the last evaluated detector interval
+  history: RampMeterSample[];
+}
+
+// ALINEA feedback ramp metering: each completed detector interval,
+//   r(k) = r(k-1) + K_R (ô - o(k))                       (ALINEA)
+//   r(k) = r(k-1) - K_P (o(k) - o(k-1)) + K_R (ô - o(k)) (PI-ALINEA)
+// with o the downstream occupancy in %, clamped to [minRate, maxRate].
+export class RampMeterController {
+  meters: Map<number, MeterState> = new Map();
+
+  reset() {
+    this.meters = new Map();
+  }
+
+  update(configs: RampMeterConfig[], detectors: LoopDetector[], queue: (rampId: number) => number) {
+    for (const id of Array.from(this.meters.keys())) {
+      if (!configs.some(m => m.id === id)) this.meters.delete(id);
+    }
+
+    for (const config of configs) {
+      let meter = this.meters.get(config.id);
+      if (!meter) {
+        meter = { rate: config.maxRate, lastOccupancy: null, lastMeasurement: null, history: [] };
+        this.meters.set(config.id, meter);
+      }
+
+      const m = detectors.find(d => d.id === config.detectorId)?.latest;
+      if (!m || meter.lastMeasurement === m.time) continue;
+      meter.lastMeasurement = m.time;
+
+      const occupancy = m.total.occupancy * 100;
+      let rate = meter.rate + config.gain * (config.targetOccupancy - occupancy);
+      if (config.algorithm === RampMeterAlgorithm.PI_ALINEA && meter.lastOccupancy !== null) {
+        rate -= config.proportionalGain * (occupancy - meter.lastOccupancy);
+      }
+      meter.rate = Math.max(config.minRate, Math.min(config.maxRate, rate));
+      meter.lastOccupancy = occupancy;
+
+      meter.history.push({ time: m.time, rate: meter.rate, occupancy, queue: queue(config.rampId) });
+      if (meter.history.length > MAX_HISTORY) meter.history.shift();
+    }
+  }
+
+  // Release rate for a ramp (veh/h), or null if it is not metered
+  rate(rampId: number, configs: RampMeterConfig[]): number | null {
+    const config = configs.find(m => m.rampId === rampId);
+    if (!config) return null;
+    return this.meters.get(config.id)?.rate ?? config.maxRate;
+  }
+
+  states(configs: RampMeterConfig[]): RampMeterState[] {
+    return configs.map(config => {
+      const meter = this.meters.get(config.id);
+      return { id: config.id, rampId: config.rampId, rate: meter?.rate ?? config.maxRate, history: meter ? [...meter.history] : [] };
+    });
+  }
+}
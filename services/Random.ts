@@ -0,0 +1,44 @@
+// Deterministic pseudo-random number generation for reproducible runs.
+
+export interface RandomSource {
+  next(): number; // Uniform in [0, 1)
+}
+
+export type RandomFactory = (seed: number) => RandomSource;
+
+// Mulberry32: small, fast, 32-bit state. Good enough for simulation noise.
+export class Mulberry32 implements RandomSource {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+export const defaultRandomFactory: RandomFactory = (seed) => new Mulberry32(seed);
+
+// Derive an independent sub-seed per stream (splitmix32 style hash),
+// so consuming numbers from one stream never shifts another.
+export function deriveSeed(seed: number, stream: number): number {
+  let h = (seed ^ Math.imul(stream + 1, 0x9e3779b9)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Named streams owned by the model
+export enum RandomStream {
+  DEMAND = 0,    // Arrival times and entry lanes
+  VEHICLE = 1,   // Vehicle attributes (type, desired speed, ...)
+  NOISE = 2,     // Driver acceleration noise
+  RAMP_DEMAND = 3, // On-ramp arrival times
+  ROUTE = 4      // Off-ramp exit choice
+}
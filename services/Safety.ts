@@ -0,0 +1,208 @@
+import { Vehicle, SafetyConfig, SafetyStats, ConflictEvent, ConflictType, ConflictHistogramBin } from '../types';
+
+// Surrogate safety measures for every leader-follower pair, evaluated each step:
+// - TTC = gap / closing speed, DRAC = closing speed^2 / (2 gap) (only while closing in)
+// - PET at reference lines every binSize m per lane: time from one vehicle's rear leaving the line
+//   to the next vehicle's front reaching it
+// - Crash: the follower's front passes the leader's rear (reported by the model's overlap check)
+// TTC and DRAC conflicts are episodes: one event per follower and leader, updated while it lasts.
+// Only the most recent events are kept; the histogram and hotspot map are running counts of the finished
+// events (restarted when the thresholds, section size or road length change), plus the open episodes.
+
+export const DEFAULT_SAFETY: SafetyConfig = {
+  ttcThreshold: 1.5,
+  dracThreshold: 3.4,
+  petThreshold: 1.0,
+  binSize: 100
+};
+
+const RECENT_EVENTS = 20;
+const HISTOGRAM_BINS = 5;
+const DRAC_BIN_WIDTH = 1; // m/s^2
+
+const zeroCounts = (): Record<ConflictType, number> => ({
+  [ConflictType.TTC]: 0, [ConflictType.DRAC]: 0, [ConflictType.PET]: 0, [ConflictType.CRASH]: 0
+});
+
+type Hotspot = SafetyStats['hotspots'][number];
+
+// Histogram scale per measure: TTC and PET events lie below their threshold, DRAC events above it (last bin open-ended)
+function histogramScales(config: SafetyConfig): Partial<Record<ConflictType, { from: number; width: number }>> {
+  return {
+    [ConflictType.TTC]: { from: 0, width: config.ttcThreshold / HISTOGRAM_BINS },
+    [ConflictType.DRAC]: { from: config.dracThreshold, width: DRAC_BIN_WIDTH },
+    [ConflictType.PET]: { from: 0, width: config.petThreshold / HISTOGRAM_BINS }
+  };
+}
+
+interface Episode {
+  event: ConflictEvent;
+  step: number; // Last step the conflict was observed
+}
+
+// Reference line crossing within the current step
+interface Crossing {
+  time: number;
+  key: number; // Line and lane
+  veh: Vehicle;
+  front: boolean;
+}
+
+export class SafetyMonitor {
+  events: ConflictEvent[] = [];  // Most recent last, at most RECENT_EVENTS
+  finished: ConflictEvent[] = []; // Not yet counted in the histogram and hotspots
+  counts: Record<ConflictType, number> = zeroCounts();
+  layout: string = '';            // Thresholds, section size and road length the counters were binned with
+  histogram: ConflictHistogramBin[] = [];
+  hotspots: Hotspot[] = [];
+  ttcEpisodes: Map<number, Episode> = new Map(); // By follower id
+  dracEpisodes: Map<number, Episode> = new Map();
+  lastRearCrossing: Map<number, { time: number; id: number }> = new Map();
+  crossings: Crossing[] = [];
+  stepCount: number = 0;
+
+  reset() {
+    this.events = [];
+    this.finished = [];
+    this.counts = zeroCounts();
+    this.layout = '';
+    this.histogram = [];
+    this.hotspots = [];
+    this.ttcEpisodes = new Map();
+    this.dracEpisodes = new Map();
+    this.lastRearCrossing = new Map();
+    this.crossings = [];
+    this.stepCount = 0;
+  }
+
+  // Episodes are counted in the histogram and hotspots once they end
+  log(event: ConflictEvent, finished = true) {
+    this.events.push(event);
+    if (this.events.length > RECENT_EVENTS) this.events.shift();
+    this.counts[event.type]++;
+    if (finished) this.finished.push(event);
+  }
+
+  // Start a new episode or keep the existing one with the follower's current leader, at its most severe
+  episode(episodes: Map<number, Episode>, type: ConflictType, follower: Vehicle, leader: Vehicle, value: number, time: number, worse: boolean) {
+    const current = episodes.get(follower.id);
+    if (current && current.event.leaderId === leader.id) {
+      current.step = this.stepCount;
+      if (worse) Object.assign(current.event, { time, position: follower.x, lane: follower.lane, value });
+      return;
+    }
+    const event = { type, time, position: follower.x, lane: follower.lane, followerId: follower.id, leaderId: leader.id, value };
+    episodes.set(follower.id, { event, step: this.stepCount });
+    this.log(event, false);
+  }
+
+  // Called for every leader-follower pair after the position update
+  observePair(follower: Vehicle, leader: Vehicle, gap: number, time: number, config: SafetyConfig) {
+    const closing = follower.v - leader.v;
+    if (gap <= 0 || closing <= 0) return;
+
+    const ttc = gap / closing;
+    if (ttc < config.ttcThreshold) {
+      const prev = this.ttcEpisodes.get(follower.id);
+      this.episode(this.ttcEpisodes, ConflictType.TTC, follower, leader, ttc, time, !prev || ttc < prev.event.value);
+    }
+    const drac = (closing * closing) / (2 * gap);
+    if (drac > config.dracThreshold) {
+      const prev = this.dracEpisodes.get(follower.id);
+      this.episode(this.dracEpisodes, ConflictType.DRAC, follower, leader, drac, time, !prev || drac > prev.event.value);
+    }
+  }
+
+  // Physical overlap that has just begun (the follower's front passed the leader's rear)
+  crash(follower: Vehicle, leader: Vehicle, gap: number, time: number) {
+    this.log({ type: ConflictType.CRASH, time, position: follower.x, lane: follower.lane, followerId: follower.id, leaderId: leader.id, value: -gap });
+  }
+
+  // Called once per vehicle per step with its position before the update; time is the end of the step
+  observeMovement(veh: Vehicle, xOld: number, time: number, dt: number, lanes: number, config: SafetyConfig) {
+    const distance = veh.x - xOld;
+    if (distance <= 0) return;
+    this.lineCrossings(veh, xOld, veh.x, distance, time, dt, lanes, config.binSize, true);
+    this.lineCrossings(veh, xOld - veh.length, veh.x - veh.length, distance, time, dt, lanes, config.binSize, false);
+  }
+
+  lineCrossings(veh: Vehicle, from: number, to: number, distance: number, time: number, dt: number, lanes: number, binSize: number, front: boolean) {
+    const last = Math.floor(to / binSize);
+    for (let line = Math.floor(from / binSize) + 1; line <= last; line++) {
+      const t = time - dt + (dt * (line * binSize - from)) / distance;
+      this.crossings.push({ time: t, key: line * (lanes + 1) + veh.lane, veh, front });
+    }
+  }
+
+  // Evaluate this step's line crossings in time order and close conflicts that were not seen
+  endStep(config: SafetyConfig, roadLength: number) {
+    this.crossings.sort((a, b) => a.time - b.time);
+    for (const c of this.crossings) {
+      if (!c.front) {
+        this.lastRearCrossing.set(c.key, { time: c.time, id: c.veh.id });
+        continue;
+      }
+      const rear = this.lastRearCrossing.get(c.key);
+      if (!rear || rear.id === c.veh.id) continue;
+      const pet = c.time - rear.time;
+      if (pet < config.petThreshold) {
+        this.log({ type: ConflictType.PET, time: c.time, position: c.veh.x, lane: c.veh.lane, followerId: c.veh.id, leaderId: rear.id, value: pet });
+      }
+    }
+    this.crossings = [];
+
+    for (const episodes of [this.ttcEpisodes, this.dracEpisodes]) {
+      for (const [id, ep] of episodes) {
+        if (ep.step >= this.stepCount) continue;
+        episodes.delete(id);
+        this.finished.push(ep.event);
+      }
+    }
+    this.stepCount++;
+
+    this.setLayout(roadLength, config);
+    for (const e of this.finished) this.tally(e, this.histogram, this.hotspots, config);
+    this.finished = [];
+  }
+
+  // Empty counters for a new bin layout
+  setLayout(roadLength: number, config: SafetyConfig) {
+    const layout = `${roadLength}/${config.binSize}/${config.ttcThreshold}/${config.dracThreshold}/${config.petThreshold}`;
+    if (layout === this.layout) return;
+    this.layout = layout;
+    this.histogram = Object.entries(histogramScales(config)).flatMap(([type, scale]) =>
+      Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+        type: type as ConflictType,
+        from: scale.from + i * scale.width,
+        to: type === ConflictType.DRAC && i === HISTOGRAM_BINS - 1 ? null : scale.from + (i + 1) * scale.width,
+        count: 0
+      })));
+    const sections = Math.max(1, Math.ceil(roadLength / config.binSize));
+    this.hotspots = Array.from({ length: sections }, (_, i) => ({ position: i * config.binSize, counts: zeroCounts() }));
+  }
+
+  tally(e: ConflictEvent, histogram: ConflictHistogramBin[], hotspots: Hotspot[], config: SafetyConfig) {
+    hotspots[Math.max(0, Math.min(hotspots.length - 1, Math.floor(e.position / config.binSize)))].counts[e.type]++;
+    const scale = histogramScales(config)[e.type];
+    if (!scale) return;
+    const i = Math.max(0, Math.min(HISTOGRAM_BINS - 1, Math.floor((e.value - scale.from) / scale.width)));
+    histogram.find(b => b.type === e.type && b.from === scale.from + i * scale.width)!.count++;
+  }
+
+  stats(roadLength: number, config: SafetyConfig): SafetyStats {
+    this.setLayout(roadLength, config);
+    const histogram = this.histogram.map(b => ({ ...b }));
+    const hotspots = this.hotspots.map(h => ({ ...h, counts: { ...h.counts } }));
+    for (const episodes of [this.ttcEpisodes, this.dracEpisodes]) {
+      for (const ep of episodes.values()) this.tally(ep.event, histogram, hotspots, config);
+    }
+    for (const e of this.finished) this.tally(e, histogram, hotspots, config);
+
+    return {
+      counts: { ...this.counts },
+      events: [...this.events].reverse(),
+      histogram,
+      hotspots
+    };
+  }
+}
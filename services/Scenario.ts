@@ -0,0 +1,414 @@
+import { SimulationConfig, Scenario, ScenarioConfig, BoundaryCondition, CarFollowingModelType, IntegrationScheme, DemandInterpolation, SignalPlanType, RampMeterAlgorithm, LaneChangeRules, VehicleType, DistributionType } from '../types';
+import { MIN_LANES, MAX_LANES, DT, DEFAULT_LANE_CHANGE, maxRingVehicles } from './TrafficPhysics';
+import { DEFAULT_SAFETY } from './Safety';
+import { DEFAULT_VEHICLE_CLASSES } from './VehicleClasses';
+import { DEFAULT_MACRO } from './CellTransmission';
+import { DEFAULT_JAM_DETECTION } from './JamDetection';
+
+// Versioned scenario files: validation, defaults for omitted fields and URL-hash encoding.
+// Kept free of DOM and Node APIs (apart from btoa/atob) so scripts can read scenarios too.
+
+export const SCENARIO_VERSION = 1;
+const HASH_KEY = 'scenario';
+const MAX_ROAD_LENGTH = 100000; // m
+const PLAYBACK_KEYS = ['isPaused', 'timeScale', 'maxSpeed']; // Accepted in files but not applied
+
+// scenario is null when the input was rejected; errors then explains why
+export interface ScenarioResult {
+  scenario: Scenario | null;
+  errors: string[];
+}
+
+// Every setting at its default: omitted scenario and batch config fields fall back to these
+export const DEFAULT_CONFIG: SimulationConfig = {
+  inflowRate: 2000,
+  truckRatio: 0.15,
+  automatedRatio: 0,
+  timeScale: 1.0,
+  maxSpeed: false,
+  timeStep: DT,
+  integrator: IntegrationScheme.EULER,
+  isPaused: false,
+  roadLength: 5000,
+  lanes: 3,
+  boundary: BoundaryCondition.OPEN,
+  ringVehicles: 150,
+  seed: 42,
+  politeness: 0.2,
+  laneChange: DEFAULT_LANE_CHANGE,
+  safeTimeGap: 1.5,
+  maxAccel: 1.5,
+  accelerationNoise: 0.3,
+  vehicleClasses: DEFAULT_VEHICLE_CLASSES,
+  demand: {
+    enabled: false,
+    interpolation: DemandInterpolation.LINEAR,
+    points: [
+      { time: 0, inflowRate: 1500, truckRatio: 0.15 },
+      { time: 900, inflowRate: 4500, truckRatio: 0.1 },
+      { time: 1800, inflowRate: 4500, truckRatio: 0.1 },
+      { time: 2700, inflowRate: 1500, truckRatio: 0.15 }
+    ],
+    laneSplit: null,
+    varyTruckRatio: false
+  },
+  carFollowingModel: CarFollowingModelType.IDM,
+  idm: { delta: 4, minGap: 2, comfortDecel: 2.0 },
+  gipps: { reactionTime: 1.0, decel: 3.0, leaderDecel: 3.5 },
+  ovm: { relaxationTime: 0.65, transitionWidth: 15, formFactor: 1.5 },
+  krauss: { reactionTime: 1.0, decel: 4.5, sigma: 0.5 },
+  acc: { coolness: 0.99, idmPlus: false },
+  automation: { accTimeGap: 1.2, caccTimeGap: 0.6, commRange: 150, maxPlatoonSize: 8 },
+  onRamps: [],
+  offRamps: [],
+  incidents: [],
+  speedLimits: [],
+  vsl: { enabled: false, triggerSpeed: 60, minLimit: 60, zoneLength: 500, stages: 2 },
+  signals: [],
+  rampMeters: [],
+  safety: DEFAULT_SAFETY,
+  detectors: [],
+  macro: DEFAULT_MACRO,
+  jamDetection: DEFAULT_JAM_DETECTION
+};
+
+// --- Schema ---
+
+type Field = (
+  | { type: 'number'; min?: number; max?: number; integer?: boolean }
+  | { type: 'boolean' }
+  | { type: 'string' }
+  | { type: 'enum'; values: string[] }
+  | { type: 'object'; fields: Record<string, Field> }
+  | { type: 'array'; items: Field }
+) & { nullable?: boolean };
+
+const num = (min?: number, max?: number): Field => ({ type: 'number', min, max });
+const int = (min?: number, max?: number): Field => ({ type: 'number', min, max, integer: true });
+const bool: Field = { type: 'boolean' };
+const str: Field = { type: 'string' };
+const oneOf = (e: Record<string, string>): Field => ({ type: 'enum', values: Object.values(e) });
+const obj = (fields: Record<string, Field>): Field => ({ type: 'object', fields });
+const list = (items: Field): Field => ({ type: 'array', items });
+const nullable = (field: Field): Field => ({ ...field, nullable: true });
+
+const distribution = obj({ type: oneOf(DistributionType), mean: num(), std: num(0), min: num(), max: num(), values: list(num()) });
+const CLASS_TYPES: Field = { type: 'enum', values: Object.values(VehicleType).filter(t => t !== VehicleType.AUTOMATED) };
+
+// Top-level fields and parameter blocks may be omitted (defaults apply); list items must be complete
+const CONFIG_SCHEMA: Record<keyof ScenarioConfig, Field> = {
+  inflowRate: num(0, 10000),
+  timeStep: num(0.001, 2),
+  integrator: oneOf(IntegrationScheme),
+  truckRatio: num(0, 1),
+  automatedRatio: num(0, 1),
+  roadLength: num(100, MAX_ROAD_LENGTH),
+  lanes: int(MIN_LANES, MAX_LANES),
+  boundary: oneOf(BoundaryCondition),
+  ringVehicles: int(0, maxRingVehicles(MAX_ROAD_LENGTH, MAX_LANES)),
+  seed: int(0),
+  politeness: num(0, 1),
+  laneChange: obj({ rules: oneOf(LaneChangeRules), bias: num(0, 5), threshold: num(0, 5), safeDecel: num(0.5, 15) }),
+  safeTimeGap: num(0.1, 10),
+  maxAccel: num(0.1, 10),
+  accelerationNoise: num(0, 5),
+  vehicleClasses: list(obj({
+    id: int(0), name: str, type: CLASS_TYPES, shareWithinGroup: num(0), color: nullable(str), width: num(0.5, 4),
+    length: distribution, desiredSpeed: distribution, timeGap: distribution, accel: distribution, decel: distribution
+  })),
+  demand: obj({
+    enabled: bool,
+    interpolation: oneOf(DemandInterpolation),
+    points: list(obj({ time: num(0), inflowRate: num(0, 10000), truckRatio: num(0, 1) })),
+    laneSplit: nullable(list(num(0))),
+    varyTruckRatio: bool
+  }),
+  carFollowingModel: oneOf(CarFollowingModelType),
+  idm: obj({ delta: num(1, 10), minGap: num(0, 20), comfortDecel: num(0.1, 10) }),
+  gipps: obj({ reactionTime: num(0.1, 5), decel: num(0.1, 15), leaderDecel: num(0.1, 15) }),
+  ovm: obj({ relaxationTime: num(0.05, 10), transitionWidth: num(1, 100), formFactor: num(0, 10) }),
+  krauss: obj({ reactionTime: num(0.1, 5), decel: num(0.1, 15), sigma: num(0, 1) }),
+  acc: obj({ coolness: num(0, 1), idmPlus: bool }),
+  automation: obj({ accTimeGap: num(0.1, 5), caccTimeGap: num(0.1, 5), commRange: num(0, 1000), maxPlatoonSize: int(1, 100) }),
+  onRamps: list(obj({ id: int(0), position: num(0), length: num(10), inflowRate: num(0, 10000) })),
+  offRamps: list(obj({ id: int(0), position: num(0), share: num(0, 1) })),
+  incidents: list(obj({
+    id: int(0), position: num(0), lanes: list(int(0, MAX_LANES - 1)), startTime: num(0), duration: num(0),
+    rubberneckSpeed: nullable(num(5, 200))
+  })),
+  speedLimits: list(obj({ id: int(0), start: num(0), end: num(0), limit: num(5, 200) })),
+  vsl: obj({ enabled: bool, triggerSpeed: num(0, 200), minLimit: num(5, 200), zoneLength: num(10), stages: int(1, 10) }),
+  signals: list(obj({
+    id: int(0), rampId: nullable(int(0)), position: num(0), plan: oneOf(SignalPlanType),
+    green: num(1, 600), red: num(1, 600), offset: num(0), maxGreen: num(1, 600), extension: num(0, 60)
+  })),
+  rampMeters: list(obj({
+    id: int(0), rampId: int(0), detectorId: int(0), algorithm: oneOf(RampMeterAlgorithm),
+    targetOccupancy: num(0, 100), gain: num(0, 1000), proportionalGain: num(0, 1000), minRate: num(0, 3600), maxRate: num(0, 3600)
+  })),
+  safety: obj({ ttcThreshold: num(0.1, 10), dracThreshold: num(0.1, 20), petThreshold: num(0.1, 10), binSize: num(10, 1000) }),
+  detectors: list(obj({ id: int(0), position: num(0), interval: num(1) })),
+  macro: obj({ enabled: bool, cellLength: num(10, 1000), freeSpeed: num(10, 200), capacity: num(100, 4000), jamDensity: num(50, 300) }),
+  jamDetection: obj({ speedThreshold: num(1, 150), minLength: num(10, 5000) })
+};
+
+export const DEFAULT_SCENARIO_CONFIG: ScenarioConfig = toScenarioConfig(DEFAULT_CONFIG);
+
+const expected = (field: Field) => `${describe(field)}${field.nullable ? ' or null' : ''}`;
+const show = (value: unknown) => value === undefined ? 'nothing' : JSON.stringify(value);
+
+function describe(field: Field): string {
+  switch (field.type) {
+    case 'number': {
+      const kind = field.integer ? 'an integer' : 'a number';
+      if (field.min !== undefined && field.max !== undefined) return `${kind} between ${field.min} and ${field.max}`;
+      if (field.min !== undefined) return `${kind} >= ${field.min}`;
+      return kind;
+    }
+    case 'boolean': return 'true or false';
+    case 'string': return 'text';
+    case 'enum': return `one of ${field.values.map(v => `"${v}"`).join(', ')}`;
+    case 'object': return 'an object';
+    case 'array': return 'a list';
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Appends one message per bad field, prefixed with its path (e.g. "config.idm.delta")
+function validate(value: unknown, field: Field, path: string, errors: string[], partial: boolean) {
+  if (value === null && field.nullable) return;
+  const fail = () => errors.push(`${path}: expected ${expected(field)}, got ${show(value)}`);
+
+  switch (field.type) {
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail();
+      if (field.integer && !Number.isInteger(value)) return fail();
+      if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) return fail();
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail();
+      return;
+    case 'string':
+      if (typeof value !== 'string') fail();
+      return;
+    case 'enum':
+      if (typeof value !== 'string' || !field.values.includes(value)) fail();
+      return;
+    case 'array':
+      if (!Array.isArray(value)) return fail();
+      value.forEach((item, i) => validate(item, field.items, `${path}[${i}]`, errors, false));
+      return;
+    case 'object':
+      if (!isPlainObject(value)) return fail();
+      validateFields(value, field.fields, path, errors, partial);
+      return;
+  }
+}
+
+function validateFields(value: Record<string, unknown>, fields: Record<string, Field>, path: string, errors: string[], partial: boolean) {
+  for (const key of Object.keys(value)) {
+    if (!(key in fields)) errors.push(`${path}.${key}: unknown field`);
+  }
+  for (const [key, field] of Object.entries(fields)) {
+    if (!(key in value)) {
+      if (!partial) errors.push(`${path}.${key}: missing (expected ${expected(field)})`);
+      continue;
+    }
+    validate(value[key], field, `${path}.${key}`, errors, partial);
+  }
+}
+
+// Checks that depend on more than one field (run on the merged config)
+function checkConsistency(config: ScenarioConfig, errors: string[]) {
+  const onRoad = (path: string, x: number) => {
+    if (x > config.roadLength) errors.push(`${path}: ${x} m is beyond the end of the road (${config.roadLength} m)`);
+  };
+  const maxVehicles = maxRingVehicles(config.roadLength, config.lanes);
+  if (config.ringVehicles > maxVehicles) {
+    errors.push(`config.ringVehicles: ${config.ringVehicles} vehicles do not fit on ${config.lanes} x ${config.roadLength} m (at most ${maxVehicles})`);
+  }
+  config.onRamps.forEach((r, i) => onRoad(`config.onRamps[${i}].position`, r.position));
+  config.offRamps.forEach((r, i) => onRoad(`config.offRamps[${i}].position`, r.position));
+  config.detectors.forEach((d, i) => onRoad(`config.detectors[${i}].position`, d.position));
+  config.incidents.forEach((inc, i) => {
+    onRoad(`config.incidents[${i}].position`, inc.position);
+    inc.lanes.forEach((lane, j) => {
+      if (lane >= config.lanes) errors.push(`config.incidents[${i}].lanes[${j}]: lane ${lane} does not exist on a ${config.lanes}-lane road`);
+    });
+  });
+  config.speedLimits.forEach((z, i) => {
+    onRoad(`config.speedLimits[${i}].end`, z.end);
+    if (z.end < z.start) errors.push(`config.speedLimits[${i}]: end (${z.end} m) is before start (${z.start} m)`);
+  });
+  config.demand.points.forEach((p, i) => {
+    if (i > 0 && p.time < config.demand.points[i - 1].time) {
+      errors.push(`config.demand.points[${i}].time: ${p.time} s is earlier than the previous point (${config.demand.points[i - 1].time} s)`);
+    }
+  });
+  const split = config.demand.laneSplit;
+  if (split && split.length !== config.lanes) {
+    errors.push(`config.demand.laneSplit: has ${split.length} entries for a ${config.lanes}-lane road`);
+  }
+  config.signals.forEach((sig, i) => {
+    if (sig.rampId === null) onRoad(`config.signals[${i}].position`, sig.position);
+    else if (!config.onRamps.some(r => r.id === sig.rampId)) errors.push(`config.signals[${i}].rampId: there is no on-ramp ${sig.rampId}`);
+    if (sig.plan === SignalPlanType.ACTUATED && sig.maxGreen < sig.green) {
+      errors.push(`config.signals[${i}].maxGreen: ${sig.maxGreen} s is shorter than the minimum green (${sig.green} s)`);
+    }
+  });
+  config.rampMeters.forEach((m, i) => {
+    if (!config.onRamps.some(r => r.id === m.rampId)) errors.push(`config.rampMeters[${i}].rampId: there is no on-ramp ${m.rampId}`);
+    if (!config.detectors.some(d => d.id === m.detectorId)) errors.push(`config.rampMeters[${i}].detectorId: there is no detector ${m.detectorId}`);
+    if (m.maxRate < m.minRate) errors.push(`config.rampMeters[${i}]: maxRate (${m.maxRate} veh/h) is below minRate (${m.minRate} veh/h)`);
+  });
+  const { freeSpeed, capacity, jamDensity } = config.macro;
+  if (capacity >= freeSpeed * jamDensity) {
+    errors.push(`config.macro.capacity: ${capacity} veh/h/lane needs a critical density below the jam density (must be below ${freeSpeed * jamDensity} veh/h/lane at ${freeSpeed} km/h and ${jamDensity} veh/km)`);
+  }
+  if (config.vehicleClasses.length === 0) errors.push('config.vehicleClasses: needs at least one class');
+  config.vehicleClasses.forEach((cls, i) => {
+    for (const key of ['length', 'desiredSpeed', 'timeGap', 'accel', 'decel'] as const) {
+      const d = cls[key];
+      const path = `config.vehicleClasses[${i}].${key}`;
+      if (d.type !== DistributionType.EMPIRICAL && d.max < d.min) errors.push(`${path}: max (${d.max}) is below min (${d.min})`);
+      if (d.type === DistributionType.EMPIRICAL && d.values.length === 0) errors.push(`${path}: an empirical distribution needs values`);
+    }
+  });
+  const ids = (name: string, items: { id: number }[]) => {
+    const seen = new Set<number>();
+    for (const { id } of items) {
+      if (seen.has(id)) errors.push(`config.${name}: duplicate id ${id}`);
+      seen.add(id);
+    }
+  };
+  ids('onRamps', config.onRamps);
+  ids('offRamps', config.offRamps);
+  ids('incidents', config.incidents);
+  ids('speedLimits', config.speedLimits);
+  ids('detectors', config.detectors);
+  ids('signals', config.signals);
+  ids('rampMeters', config.rampMeters);
+  ids('vehicleClasses', config.vehicleClasses);
+}
+
+// --- Parsing ---
+
+export function parseScenario(input: unknown): ScenarioResult {
+  if (!isPlainObject(input)) return { scenario: null, errors: [`Scenario must be a JSON object, got ${show(input)}`] };
+  const errors: string[] = [];
+
+  const version = input.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    errors.push(`version: expected an integer >= 1, got ${show(version)}`);
+  } else if (version > SCENARIO_VERSION) {
+    errors.push(`version: scenario uses format ${version}, this build reads up to ${SCENARIO_VERSION}`);
+  }
+  if (input.name !== undefined && typeof input.name !== 'string') errors.push(`name: expected text, got ${show(input.name)}`);
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    errors.push(`description: expected text, got ${show(input.description)}`);
+  }
+  for (const key of Object.keys(input)) {
+    if (!['version', 'name', 'description', 'config'].includes(key)) errors.push(`${key}: unknown field`);
+  }
+
+  const rawConfig = input.config ?? {};
+  if (!isPlainObject(rawConfig)) {
+    errors.push(`config: expected an object, got ${show(rawConfig)}`);
+    return { scenario: null, errors };
+  }
+  const fields = Object.fromEntries(Object.entries(rawConfig).filter(([key]) => !PLAYBACK_KEYS.includes(key)));
+  validateFields(fields, CONFIG_SCHEMA, 'config', errors, true);
+  if (errors.length > 0) return { scenario: null, errors };
+
+  const config = mergeConfig(fields as Partial<ScenarioConfig>);
+  checkConsistency(config, errors);
+  if (errors.length > 0) return { scenario: null, errors };
+
+  return {
+    errors: [],
+    scenario: {
+      version: SCENARIO_VERSION,
+      name: (input.name as string | undefined) ?? 'Untitled',
+      ...(input.description !== undefined ? { description: input.description as string } : {}),
+      config
+    }
+  };
+}
+
+export function parseScenarioJson(text: string): ScenarioResult {
+  let input: unknown;
+  try {
+    input = JSON.parse(text);
+  } catch (e) {
+    return { scenario: null, errors: [`Not valid JSON: ${(e as Error).message}`] };
+  }
+  return parseScenario(input);
+}
+
+// Omitted fields (and omitted keys of parameter blocks) take their defaults
+function mergeConfig(partial: Partial<ScenarioConfig>): ScenarioConfig {
+  const merged: Record<string, unknown> = { ...DEFAULT_SCENARIO_CONFIG };
+  for (const [key, value] of Object.entries(partial as Record<string, unknown>)) {
+    const base = merged[key];
+    merged[key] = isPlainObject(base) && isPlainObject(value) ? { ...base, ...value } : value;
+  }
+  return merged as unknown as ScenarioConfig;
+}
+
+// --- Conversion ---
+
+export function toScenarioConfig(config: SimulationConfig): ScenarioConfig {
+  const { isPaused, timeScale, maxSpeed, ...rest } = config;
+  return rest;
+}
+
+export function toScenario(config: SimulationConfig, name: string, description?: string): Scenario {
+  return { version: SCENARIO_VERSION, name, ...(description ? { description } : {}), config: toScenarioConfig(config) };
+}
+
+// Scenario settings with the current playback settings kept
+export function applyScenario(scenario: Scenario, current: Pick<SimulationConfig, 'isPaused' | 'timeScale' | 'maxSpeed'>): SimulationConfig {
+  return { ...scenario.config, isPaused: current.isPaused, timeScale: current.timeScale, maxSpeed: current.maxSpeed };
+}
+
+export function scenarioJson(scenario: Scenario): string {
+  return JSON.stringify(scenario, null, 2) + '\n';
+}
+
+// --- URL hash ---
+
+// "scenario=<base64url JSON>", with config fields equal to the defaults left out
+export function encodeScenarioHash(scenario: Scenario): string {
+  const defaults = DEFAULT_SCENARIO_CONFIG as unknown as Record<string, unknown>;
+  const config = Object.fromEntries(
+    Object.entries(scenario.config).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(defaults[key]))
+  );
+  return `${HASH_KEY}=${toBase64Url(JSON.stringify({ ...scenario, config }))}`;
+}
+
+// null when the hash holds no scenario
+export function decodeScenarioHash(hash: string): ScenarioResult | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get(HASH_KEY);
+  if (encoded === null) return null;
+  let text: string;
+  try {
+    text = fromBase64Url(encoded);
+  } catch {
+    return { scenario: null, errors: ['The scenario in the link is corrupted (not valid base64)'] };
+  }
+  return parseScenarioJson(text);
+}
+
+function toBase64Url(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
@@ -0,0 +1,68 @@
+import { Scenario, ScenarioConfig, BoundaryCondition, RampMeterAlgorithm } from '../types';
+import { DEFAULT_SCENARIO_CONFIG, SCENARIO_VERSION } from './Scenario';
+
+// Built-in scenarios, listed in the ControlPanel. The first one is loaded on start-up.
+
+const preset = (name: string, description: string, config: Partial<ScenarioConfig>): Scenario => ({
+  version: SCENARIO_VERSION,
+  name,
+  description,
+  config: { ...DEFAULT_SCENARIO_CONFIG, ...config }
+});
+
+const BASELINE_DETECTORS = [
+  { id: 1, position: 1000, interval: 60 },
+  { id: 2, position: 2500, interval: 60 },
+  { id: 3, position: 4000, interval: 60 }
+];
+
+export const SCENARIO_PRESETS: Scenario[] = [
+  preset('Research Baseline', '3-lane open road at 2000 veh/h with three loop detectors', {
+    detectors: BASELINE_DETECTORS
+  }),
+  preset('Free Flow', 'Light demand well below capacity: vehicles travel close to their desired speeds', {
+    inflowRate: 1200,
+    accelerationNoise: 0.1,
+    detectors: BASELINE_DETECTORS
+  }),
+  preset('Capacity Drop', 'Heavy on-ramp merge on a 2-lane road near capacity: compare flow and speed at the detectors up- and downstream of the merge', {
+    lanes: 2,
+    inflowRate: 3200,
+    onRamps: [{ id: 1, position: 2500, length: 250, inflowRate: 900 }],
+    detectors: [
+      { id: 1, position: 1500, interval: 60 },
+      { id: 2, position: 3500, interval: 60 }
+    ]
+  }),
+  preset('Ramp Metering', 'On-ramp merge just above capacity with an ALINEA meter holding the occupancy downstream of the merge at its critical value: the ramp queue grows while the mainline keeps moving (remove the meter to compare)', {
+    lanes: 2,
+    inflowRate: 2800,
+    onRamps: [{ id: 1, position: 2500, length: 250, inflowRate: 700 }],
+    rampMeters: [{
+      id: 1, rampId: 1, detectorId: 2, algorithm: RampMeterAlgorithm.ALINEA,
+      targetOccupancy: 10, gain: 70, proportionalGain: 60, minRate: 200, maxRate: 1800
+    }],
+    detectors: [
+      { id: 1, position: 1500, interval: 60 },
+      { id: 2, position: 2900, interval: 30 },
+      { id: 3, position: 3500, interval: 60 }
+    ]
+  }),
+  preset('Peak Hour', 'Demand ramps from 1500 to 4500 veh/h over 15 minutes, holds for 15 minutes and falls back: watch flow break down once demand exceeds capacity', {
+    demand: { ...DEFAULT_SCENARIO_CONFIG.demand, enabled: true },
+    detectors: BASELINE_DETECTORS
+  }),
+  preset('Ghost Jam', 'Single-lane ring without any bottleneck: with sluggish acceleration, small fluctuations grow into stop-and-go waves (Sugiyama experiment)', {
+    boundary: BoundaryCondition.RING,
+    lanes: 1,
+    roadLength: 1000,
+    ringVehicles: 40,
+    truckRatio: 0,
+    maxAccel: 0.5,
+    detectors: [{ id: 1, position: 500, interval: 30 }]
+  }),
+  preset('Incident', 'Right lane blocked for 5 minutes after 2 minutes, with rubbernecking around the site', {
+    incidents: [{ id: 1, position: 3000, lanes: [2], startTime: 120, duration: 300, rubberneckSpeed: 60 }],
+    detectors: BASELINE_DETECTORS
+  })
+];
@@ -0,0 +1,65 @@
+import { SignalConfig, SignalPlanType, SignalState } from '../types';
+
+export const SIGNAL_STOP_DECEL = 4.0; // m/s^2: drivers closer to a red than this braking allows drive on
+export const ACTUATION_ZONE = 60;     // m upstream of a mainline stop line where approaching vehicles hold the green
+export const RAMP_SATURATION_HEADWAY = 2.0; // s between vehicles released on a ramp green
+
+interface PhaseState {
+  green: boolean;
+  phaseStart: number;    // s
+  lastDetection: number; // s
+}
+
+// Signal timing. Fixed-time plans follow the clock; actuated plans run a green/red state machine
+// fed by presence detection (vehicles near the stop line, or a queue at the ramp entry).
+export class SignalController {
+  phases: Map<number, PhaseState> = new Map();
+
+  reset() {
+    this.phases = new Map();
+  }
+
+  update(configs: SignalConfig[], time: number, present: (signal: SignalConfig) => boolean) {
+    for (const id of Array.from(this.phases.keys())) {
+      if (!configs.some(s => s.id === id)) this.phases.delete(id);
+    }
+
+    for (const signal of configs) {
+      let phase = this.phases.get(signal.id);
+      if (!phase) {
+        phase = { green: true, phaseStart: time, lastDetection: time };
+        this.phases.set(signal.id, phase);
+      }
+
+      if (signal.plan === SignalPlanType.FIXED) {
+        const cycle = signal.green + signal.red;
+        const t = (((time - signal.offset) % cycle) + cycle) % cycle;
+        phase.green = t < signal.green;
+        phase.phaseStart = time - (phase.green ? t : t - signal.green);
+        continue;
+      }
+
+      const elapsed = time - phase.phaseStart;
+      if (phase.green) {
+        if (present(signal)) phase.lastDetection = time;
+        const gapOut = time - phase.lastDetection >= signal.extension;
+        if (elapsed >= signal.green && (gapOut || elapsed >= signal.maxGreen)) {
+          phase.green = false;
+          phase.phaseStart = time;
+        }
+      } else if (elapsed >= signal.red) {
+        phase.green = true;
+        phase.phaseStart = time;
+        phase.lastDetection = time;
+      }
+    }
+  }
+
+  isGreen(id: number): boolean {
+    return this.phases.get(id)?.green ?? true;
+  }
+
+  states(time: number): SignalState[] {
+    return Array.from(this.phases, ([id, p]) => ({ id, green: p.green, elapsed: time - p.phaseStart }));
+  }
+}
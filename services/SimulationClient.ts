@@ -0,0 +1,94 @@
+import { SimulationConfig, SimulationStats, Incident } from '../types';
+import { WorkerRequest, WorkerResponse, SimulationSnapshot, VehicleSnapshot, decodeSnapshot } from './SimulationProtocol';
+import { RecorderOptions, RecorderStatus, TrajectoryRecording } from './TrajectoryRecorder';
+
+// Main-thread handle on the simulation worker: forwards config and commands,
+// keeps the two most recent snapshots and interpolates between them for drawing.
+export class SimulationClient {
+  worker: Worker;
+  previous: SimulationSnapshot | null = null;
+  latest: SimulationSnapshot | null = null;
+  previousById: Map<number, VehicleSnapshot> = new Map();
+  onStats: ((stats: SimulationStats) => void) | null = null;
+  pendingAccidents: Map<number, (incident: Incident | null) => void> = new Map();
+  onRecorder: ((status: RecorderStatus | null, recording: TrajectoryRecording | null) => void) | null = null;
+  nextRequestId: number = 1;
+
+  constructor(roadLength: number, seed: number) {
+    this.worker = new Worker(new URL('./SimulationWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<WorkerResponse>) => this.handleMessage(e.data);
+    this.post({ type: 'init', roadLength, seed });
+  }
+
+  post(message: WorkerRequest) {
+    this.worker.postMessage(message);
+  }
+
+  handleMessage(msg: WorkerResponse) {
+    switch (msg.type) {
+      case 'snapshot': {
+        this.previous = this.latest;
+        this.latest = decodeSnapshot(msg.snapshot, performance.now());
+        this.previousById = new Map((this.previous?.vehicles ?? []).map(v => [v.id, v]));
+        break;
+      }
+      case 'stats':
+        if (this.onStats) this.onStats(msg.stats);
+        break;
+      case 'accident': {
+        const resolve = this.pendingAccidents.get(msg.requestId);
+        this.pendingAccidents.delete(msg.requestId);
+        if (resolve) resolve(msg.incident);
+        break;
+      }
+      case 'recorder':
+        if (this.onRecorder) this.onRecorder(msg.status, msg.recording);
+        break;
+    }
+  }
+
+  setConfig(config: SimulationConfig) {
+    this.post({ type: 'config', config });
+  }
+
+  reset(seed: number, roadLength: number) {
+    this.post({ type: 'reset', seed, roadLength });
+  }
+
+  triggerAccident(incidentId: number): Promise<Incident | null> {
+    const requestId = this.nextRequestId++;
+    return new Promise(resolve => {
+      this.pendingAccidents.set(requestId, resolve);
+      this.post({ type: 'accident', requestId, incidentId });
+    });
+  }
+
+  startRecording(options: RecorderOptions) {
+    this.post({ type: 'recordStart', options });
+  }
+
+  // The recorded data arrives through onRecorder
+  stopRecording() {
+    this.post({ type: 'recordStop' });
+  }
+
+  // Vehicles between the last two snapshots (drawn one snapshot interval behind the worker)
+  interpolatedVehicles(now: number): VehicleSnapshot[] {
+    const latest = this.latest;
+    if (!latest) return [];
+    const previous = this.previous;
+    if (!previous || latest.receivedAt <= previous.receivedAt) return latest.vehicles;
+
+    const alpha = Math.min(1, (now - latest.receivedAt) / (latest.receivedAt - previous.receivedAt));
+    const halfRoad = latest.roadLength / 2;
+    return latest.vehicles.map(v => {
+      const prev = this.previousById.get(v.id);
+      if (!prev || Math.abs(v.x - prev.x) > halfRoad) return v; // New vehicle or wrapped around the ring
+      return {
+        ...v,
+        x: prev.x + (v.x - prev.x) * alpha,
+        y: prev.y + (v.y - prev.y) * alpha
+      };
+    });
+  }
+}
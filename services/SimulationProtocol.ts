@@ -0,0 +1,120 @@
+import { SimulationConfig, SimulationStats, Incident, SpeedLimitZone, SignalState, Vehicle } from '../types';
+import { RecorderOptions, RecorderStatus, TrajectoryRecording } from './TrajectoryRecorder';
+
+// Messages between the main thread and the simulation worker
+
+export type WorkerRequest =
+  | { type: 'init'; roadLength: number; seed: number }
+  | { type: 'config'; config: SimulationConfig }
+  | { type: 'reset'; seed: number; roadLength: number }
+  | { type: 'accident'; requestId: number; incidentId: number }
+  | { type: 'recordStart'; options: RecorderOptions }
+  | { type: 'recordStop' };
+
+export type WorkerResponse =
+  | { type: 'snapshot'; snapshot: EncodedSnapshot }
+  | { type: 'stats'; stats: SimulationStats }
+  | { type: 'accident'; requestId: number; incident: Incident | null }
+  // Progress while recording (status null after a reset); the data is sent once, when the recording finishes
+  | { type: 'recorder'; status: RecorderStatus | null; recording: TrajectoryRecording | null };
+
+// Vehicle state as drawn by the main thread
+export interface VehicleSnapshot {
+  id: number;
+  x: number;
+  y: number;
+  lane: number;
+  v: number;
+  a: number;
+  length: number;
+  width: number;
+  color: string;
+  laneChangeDirection: -1 | 0 | 1;
+  platoonId: number | null;
+  platoonIndex: number;
+  emissionRate: number; // CO2 g/s
+}
+
+// Vehicles packed into one transferable buffer, SNAPSHOT_STRIDE floats each
+export interface EncodedSnapshot {
+  time: number;           // Simulation time (s)
+  lanes: number;
+  roadLength: number;
+  realtimeFactor: number; // Simulated seconds per wall-clock second, measured by the worker
+  vslZones: SpeedLimitZone[];
+  signals: SignalState[];
+  palette: string[];      // Vehicle colours referenced by index
+  data: Float32Array;
+}
+
+export interface SimulationSnapshot {
+  time: number;
+  lanes: number;
+  roadLength: number;
+  realtimeFactor: number;
+  vslZones: SpeedLimitZone[];
+  signals: SignalState[];
+  vehicles: VehicleSnapshot[];
+  receivedAt: number; // performance.now() on the main thread
+}
+
+export const SNAPSHOT_STRIDE = 13;
+
+export function encodeSnapshot(
+  vehicles: Vehicle[],
+  palette: string[],
+  meta: Omit<EncodedSnapshot, 'palette' | 'data'>
+): EncodedSnapshot {
+  const data = new Float32Array(vehicles.length * SNAPSHOT_STRIDE);
+  vehicles.forEach((veh, i) => {
+    let color = palette.indexOf(veh.color);
+    if (color < 0) color = palette.push(veh.color) - 1;
+    const o = i * SNAPSHOT_STRIDE;
+    data[o] = veh.id;
+    data[o + 1] = veh.x;
+    data[o + 2] = veh.y;
+    data[o + 3] = veh.lane;
+    data[o + 4] = veh.v;
+    data[o + 5] = veh.a;
+    data[o + 6] = veh.length;
+    data[o + 7] = veh.width;
+    data[o + 8] = color;
+    data[o + 9] = veh.laneChangeDirection;
+    data[o + 10] = veh.platoonId ?? -1;
+    data[o + 11] = veh.platoonIndex;
+    data[o + 12] = veh.emissionRate;
+  });
+  return { ...meta, palette: [...palette], data };
+}
+
+export function decodeSnapshot(encoded: EncodedSnapshot, receivedAt: number): SimulationSnapshot {
+  const { data, palette } = encoded;
+  const vehicles: VehicleSnapshot[] = [];
+  for (let o = 0; o < data.length; o += SNAPSHOT_STRIDE) {
+    vehicles.push({
+      id: data[o],
+      x: data[o + 1],
+      y: data[o + 2],
+      lane: data[o + 3],
+      v: data[o + 4],
+      a: data[o + 5],
+      length: data[o + 6],
+      width: data[o + 7],
+      color: palette[data[o + 8]],
+      laneChangeDirection: data[o + 9] as -1 | 0 | 1,
+      platoonId: data[o + 10] < 0 ? null : data[o + 10],
+      platoonIndex: data[o + 11],
+      emissionRate: data[o + 12]
+    });
+  }
+  return {
+    time: encoded.time,
+    lanes: encoded.lanes,
+    roadLength: encoded.roadLength,
+    realtimeFactor: encoded.realtimeFactor,
+    vslZones: encoded.vslZones,
+    signals: encoded.signals,
+    vehicles,
+    receivedAt
+  };
+}
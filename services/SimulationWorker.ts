@@ -0,0 +1,137 @@
+import { SimulationConfig } from '../types';
+import { TrafficModel } from './TrafficPhysics';
+import { WorkerRequest, WorkerResponse, encodeSnapshot } from './SimulationProtocol';
+import { TrajectoryRecorder, recordingBuffers } from './TrajectoryRecorder';
+
+// Dedicated worker owning the TrafficModel. Steps on a fixed clock (config.timeStep per step),
+// independent of the display refresh rate, and streams compact snapshots to the main thread.
+
+const TICK_MS = 1000 / 60;      // Snapshot rate
+const MAX_ELAPSED_MS = 250;     // Longer stalls (e.g. throttled background tab) are not caught up
+const MAX_STEPS_PER_TICK = 600; // Real-time mode falls behind rather than freezing
+const MAX_SPEED_BUDGET_MS = 14; // Compute time per tick in as-fast-as-possible mode
+const STATS_INTERVAL_MS = 166;
+
+const scope = self as unknown as Worker;
+
+let model = new TrafficModel();
+let config: SimulationConfig | null = null;
+let accumulator = 0; // Simulated seconds owed to the real-time clock
+let lastTick = performance.now();
+let lastStats = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let recorder: TrajectoryRecorder | null = null;
+const palette: string[] = [];
+
+// Throughput over the last second
+let rateWindowStart = performance.now();
+let rateWindowSimStart = 0;
+let realtimeFactor = 0;
+
+function post(message: WorkerResponse, transfer: Transferable[] = []) {
+  scope.postMessage(message, transfer);
+}
+
+function step(config: SimulationConfig) {
+  model.step(config);
+  if (recorder) recorder.observe(model);
+}
+
+// Progress while recording; the data itself once, when the recording has finished
+function postRecorder() {
+  if (!recorder) return;
+  if (!recorder.finished) {
+    post({ type: 'recorder', status: recorder.status, recording: null });
+    return;
+  }
+  const recording = recorder.recording(model);
+  post({ type: 'recorder', status: recorder.status, recording }, recordingBuffers(recording));
+  recorder = null;
+}
+
+function advance(now: number, elapsedMs: number) {
+  if (!config || config.isPaused) {
+    accumulator = 0;
+    return;
+  }
+  if (config.maxSpeed) {
+    accumulator = 0;
+    do step(config); while (performance.now() - now < MAX_SPEED_BUDGET_MS);
+    return;
+  }
+  accumulator += (elapsedMs / 1000) * config.timeScale;
+  let steps = 0;
+  while (accumulator >= config.timeStep && steps < MAX_STEPS_PER_TICK) {
+    step(config);
+    accumulator -= config.timeStep;
+    steps++;
+  }
+  if (steps === MAX_STEPS_PER_TICK) accumulator = 0;
+}
+
+function tick() {
+  const now = performance.now();
+  const elapsed = Math.min(MAX_ELAPSED_MS, now - lastTick);
+  lastTick = now;
+  advance(now, elapsed);
+
+  if (now - rateWindowStart >= 1000) {
+    realtimeFactor = (model.time - rateWindowSimStart) / ((now - rateWindowStart) / 1000);
+    rateWindowStart = now;
+    rateWindowSimStart = model.time;
+  }
+
+  const snapshot = encodeSnapshot(model.vehicles, palette, {
+    time: model.time,
+    lanes: model.lanes,
+    roadLength: model.roadLength,
+    realtimeFactor,
+    vslZones: model.vsl.zones,
+    signals: model.signals.states(model.time)
+  });
+  post({ type: 'snapshot', snapshot }, [snapshot.data.buffer]);
+
+  if (now - lastStats >= STATS_INTERVAL_MS) {
+    post({ type: 'stats', stats: model.getStats() });
+    postRecorder();
+    lastStats = now;
+  } else if (recorder?.finished) {
+    postRecorder();
+  }
+
+  // Yield between bursts so incoming messages (config changes) are handled promptly
+  timer = setTimeout(tick, config?.maxSpeed && !config.isPaused ? 0 : TICK_MS);
+}
+
+scope.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'init':
+      model = new TrafficModel(msg.roadLength, msg.seed);
+      rateWindowSimStart = 0;
+      if (timer === null) tick();
+      break;
+    case 'config':
+      config = msg.config;
+      break;
+    case 'reset':
+      model.roadLength = msg.roadLength;
+      model.reset(msg.seed);
+      recorder = null; // Samples from before the reset would not belong to the new run
+      post({ type: 'recorder', status: null, recording: null });
+      accumulator = 0;
+      rateWindowSimStart = 0;
+      break;
+    case 'accident':
+      post({ type: 'accident', requestId: msg.requestId, incident: model.triggerAccident(msg.incidentId) });
+      break;
+    case 'recordStart':
+      recorder = new TrajectoryRecorder(msg.options);
+      postRecorder();
+      break;
+    case 'recordStop':
+      if (recorder) recorder.finished = true;
+      postRecorder();
+      break;
+  }
+};
@@ -0,0 +1,74 @@
+// Compact vehicle state for the space-time (x-t) diagram
+export interface SpaceTimePoint {
+  id: number;
+  x: number;
+  lane: number;
+  v: number; // m/s
+  a: number; // m/s^2
+}
+
+export interface SpaceTimeSample {
+  t: number; // Simulation time (s)
+  points: SpaceTimePoint[];
+}
+
+// Rolling buffer of periodic vehicle snapshots
+export class SpaceTimeBuffer {
+  samples: SpaceTimeSample[] = [];
+  sampleInterval: number;
+  lastSampleTime: number = -Infinity;
+
+  constructor(sampleInterval: number = 1.0) {
+    this.sampleInterval = sampleInterval;
+  }
+
+  clear() {
+    this.samples = [];
+    this.lastSampleTime = -Infinity;
+  }
+
+  // Returns true if a new sample was taken
+  record(time: number, vehicles: SpaceTimePoint[], window: number): boolean {
+    // Model was reset: time went backwards
+    if (time < this.lastSampleTime) this.clear();
+    if (time - this.lastSampleTime < this.sampleInterval) return false;
+
+    this.samples.push({
+      t: time,
+      points: vehicles.map(v => ({ id: v.id, x: v.x, lane: v.lane, v: v.v, a: v.a }))
+    });
+    this.lastSampleTime = time;
+
+    while (this.samples.length > 0 && this.samples[0].t < time - window) this.samples.shift();
+    return true;
+  }
+
+  // Closest recorded point to (t, x), optionally restricted to one lane
+  nearest(t: number, x: number, lane: number | null, maxDx: number): { sample: SpaceTimeSample; point: SpaceTimePoint } | null {
+    let sample: SpaceTimeSample | null = null;
+    for (const s of this.samples) {
+      if (!sample || Math.abs(s.t - t) < Math.abs(sample.t - t)) sample = s;
+    }
+    if (!sample) return null;
+
+    let best: SpaceTimePoint | null = null;
+    for (const p of sample.points) {
+      if (lane !== null && p.lane !== lane) continue;
+      if (Math.abs(p.x - x) > maxDx) continue;
+      if (!best || Math.abs(p.x - x) < Math.abs(best.x - x)) best = p;
+    }
+    return best ? { sample, point: best } : null;
+  }
+}
+
+// Speed colour scale shared by space-time views: red (stopped) -> green (>= vMax)
+export function speedToColor(speedKmh: number, vMax: number = 120): string {
+  const hue = Math.max(0, Math.min(1, speedKmh / vMax)) * 120;
+  return `hsl(${hue.toFixed(0)}, 85%, 50%)`;
+}
+
+// Density colour scale: green (empty) -> red (jam density); square-root scaled to spread the congested range
+export function densityToColor(density: number, jamDensity: number): string {
+  const hue = (1 - Math.sqrt(Math.max(0, Math.min(1, density / jamDensity)))) * 120;
+  return `hsl(${hue.toFixed(0)}, 85%, 50%)`;
+}
@@ -0,0 +1,89 @@
+import { SpeedLimitZone, VslConfig } from '../types';
+import { LoopDetector } from './Detectors';
+
+const VSL_RELEASE_HYSTERESIS = 10; // km/h above the trigger before a limit is lifted
+const VSL_STEP = 20;               // km/h between consecutive upstream stages
+const VSL_MAX_LIMIT = 120;         // km/h: stages at or above this are not posted
+
+// Lowest applicable limit at x (km/h), or null if unrestricted
+export function speedLimitAt(x: number, zones: SpeedLimitZone[]): number | null {
+  let limit: number | null = null;
+  for (const zone of zones) {
+    if (x >= zone.start && x < zone.end && (limit === null || zone.limit < limit)) limit = zone.limit;
+  }
+  return limit;
+}
+
+// Detector-triggered variable speed limits.
+// When the space-mean speed at a detector drops below the trigger, limits are posted
+// upstream of it in stages (lowest nearest to the disturbance) to harmonise approaching traffic.
+export class VslController {
+  zones: SpeedLimitZone[] = [];
+  activeLimits: Map<number, number> = new Map(); // detector id -> limit (km/h) of the nearest stage
+  lastMeasurement: Map<number, number> = new Map(); // detector id -> time of the last evaluated interval
+
+  reset() {
+    this.zones = [];
+    this.activeLimits = new Map();
+    this.lastMeasurement = new Map();
+  }
+
+  update(detectors: LoopDetector[], config: VslConfig) {
+    if (!config.enabled) {
+      if (this.zones.length > 0) this.reset();
+      return;
+    }
+
+    let changed = false;
+    for (const det of detectors) {
+      const m = det.latest;
+      if (!m || this.lastMeasurement.get(det.id) === m.time) continue;
+      this.lastMeasurement.set(det.id, m.time);
+
+      // No crossings: either empty road or standing queue, told apart by occupancy
+      const speed = m.total.count > 0 ? m.total.spaceMeanSpeed : (m.total.occupancy > 0.3 ? 0 : null);
+      if (speed === null) continue;
+
+      const active = this.activeLimits.get(det.id);
+      if (speed < config.triggerSpeed) {
+        const limit = Math.max(config.minLimit, Math.ceil((speed + VSL_STEP) / 10) * 10);
+        if (limit !== active) {
+          this.activeLimits.set(det.id, limit);
+          changed = true;
+        }
+      } else if (active !== undefined && speed > config.triggerSpeed + VSL_RELEASE_HYSTERESIS) {
+        this.activeLimits.delete(det.id);
+        changed = true;
+      }
+    }
+
+    // Forget detectors that were removed
+    for (const id of Array.from(this.activeLimits.keys())) {
+      if (!detectors.some(d => d.id === id)) {
+        this.activeLimits.delete(id);
+        changed = true;
+      }
+    }
+
+    if (changed) this.rebuildZones(detectors, config);
+  }
+
+  rebuildZones(detectors: LoopDetector[], config: VslConfig) {
+    this.zones = [];
+    for (const [id, limit] of this.activeLimits) {
+      const det = detectors.find(d => d.id === id);
+      if (!det) continue;
+      for (let stage = 0; stage < config.stages; stage++) {
+        const stageLimit = limit + stage * VSL_STEP;
+        if (stageLimit >= VSL_MAX_LIMIT) break;
+        const end = det.position - stage * config.zoneLength;
+        this.zones.push({
+          id: -(id * 10 + stage + 1), // Negative ids mark controller-generated zones
+          start: Math.max(0, end - config.zoneLength),
+          end,
+          limit: stageLimit
+        });
+      }
+    }
+  }
+}
@@ -1,13 +1,46 @@
-import { Vehicle, VehicleType, SimulationStats, SimulationConfig } from '../types';
+import { Vehicle, VehicleType, BoundaryCondition, SimulationStats, SimulationConfig, DetectorConfig, DetectorMeasurement, OnRampConfig, OffRampConfig, SpeedLimitZone, Incident, IntegrationScheme, IntegrationDiagnostics, SafetyConfig, SignalConfig, RampMeterConfig, ControlStats, LaneChangeParams, LaneChangeRules, DriverParams } from '../types';
+import { LoopDetector, measurementToFdPoint } from './Detectors';
+import { VslController, speedLimitAt } from './SpeedControl';
+import { INCIDENT_APPROACH_DIST, nextBlockage, rubberneckLimitAt } from './Incidents';
+import { RandomSource, RandomFactory, RandomStream, defaultRandomFactory, deriveSeed } from './Random';
+import { CAR_FOLLOWING_MODELS, REFERENCE_DRIVER } from './CarFollowing';
+import { LaneIndex } from './LaneIndex';
+import { AUTOMATED_COLOR, automatedAcceleration, platoonStats, updatePlatoon } from './Automation';
+import { ballisticUpdate, eulerUpdate, rk4Update } from './Integrators';
+import { DemandState, demandAt, laneShares } from './Demand';
+import { EmissionMeter } from './Emissions';
+import { SafetyMonitor, DEFAULT_SAFETY } from './Safety';
+import { SignalController, SIGNAL_STOP_DECEL, ACTUATION_ZONE, RAMP_SATURATION_HEADWAY } from './Signals';
+import { RampMeterController } from './RampMetering';
+import { pickClass, sampleDistribution, sampleDriver } from './VehicleClasses';
+import { CellTransmissionModel } from './CellTransmission';
+import { JamDetector } from './JamDetection';
 
 // Physics Constants
 const LANE_WIDTH = 3.5; // meters
-const DT = 1 / 60; // Integration step (s)
-const IDM_DELTA = 4;
-const JAM_DISTANCE = 2; // m
-const COMFORT_DECEL = 2.0; // m/s^2 (b)
-const MOBIL_THRESHOLD = 0.1; // a_thr (switching threshold)
-const MOBIL_BIAS = 0.2; // Right lane bias (keep right directive)
+export const DT = 1 / 60; // Default integration step (s)
+export const MIN_LANES = 1;
+export const MAX_LANES = 6;
+export const MIN_RING_SPACING = 7; // Lane length per ring vehicle at the densest start (m)
+
+export const maxRingVehicles = (roadLength: number, lanes: number) => Math.floor(roadLength / MIN_RING_SPACING) * lanes;
+
+export const DEFAULT_LANE_CHANGE: LaneChangeParams = {
+  rules: LaneChangeRules.EUROPEAN,
+  bias: 0.2,
+  threshold: 0.1,
+  safeDecel: 3.0
+};
+const UNDERTAKING_SPEED = 60 / 3.6; // m/s: European rules allow passing on the right below this (congestion)
+const LANE_CHANGE_COOLDOWN = 3.0; // s
+
+// Mandatory lane changes (ramp merges, blocked lanes, exits)
+const YIELD_URGENCY = 0.7; // Drivers past this share of an acceleration lane are let in by the rightmost lane
+const MANDATORY_SAFE_DECEL = 6.0; // m/s^2: b_safe accepted at the lane end / exit, up from the discretionary b_safe
+export const EXIT_APPROACH_DIST = 1000; // m before an off-ramp where exiting drivers start moving right
+const MIN_EXIT_LEAD = 200; // m: off-ramps closer than this to the entry are not chosen
+
+const emptyDiagnostics = (): IntegrationDiagnostics => ({ overlaps: 0, overlapEvents: 0, negativeGapSteps: 0, speedClamps: 0, minGap: null });
 
 export class TrafficModel {
   vehicles: Vehicle[] = [];
@@ -15,135 +48,428 @@ export class TrafficModel {
   lanes: number = 3;
   nextId: number = 1;
   timeSinceLastSpawn: number = 0;
+  laneSpawnTimers: number[] = []; // Per-lane arrival processes when the demand profile splits by lane
+  demand: number = 0; // veh/h: mainline demand at the last spawning step
   fdPoints: {k: number, q: number}[] = []; // History for Fundamental Diagram
   statsTimer: number = 0;
+  time: number = 0; // Elapsed simulation time (s)
+  boundary: BoundaryCondition | null = null; // Applied boundary condition (null until first step)
+
+  // Per-lane vehicles sorted by x; rebuilt lazily once positions or the vehicle set change
+  laneIndex: LaneIndex = new LaneIndex();
+  laneIndexDirty: boolean = true;
+
+  // Numerical diagnostics: overlapping pairs are tracked by follower id to count new overlaps
+  integration: IntegrationDiagnostics = emptyDiagnostics();
+  overlapping: Set<number> = new Set();
+
+  // Fuel and CO2
+  emissions: EmissionMeter = new EmissionMeter();
+
+  // Surrogate safety measures and crashes
+  safety: SafetyMonitor = new SafetyMonitor();
+  safetyConfig: SafetyConfig = DEFAULT_SAFETY;
+
+  // MOBIL rule set and thresholds
+  laneChangeParams: LaneChangeParams = DEFAULT_LANE_CHANGE;
+
+  // Virtual loop detectors (rebuilt when config.detectors changes)
+  detectors: LoopDetector[] = [];
+  detectorConfigs: DetectorConfig[] | null = null;
+  newMeasurements: DetectorMeasurement[] = []; // Intervals closed in the last step (history is capped)
+
+  // Ramps (the acceleration lane uses lane index `lanes`, right of the rightmost lane)
+  onRamps: OnRampConfig[] = [];
+  offRamps: OffRampConfig[] = [];
+  rampSpawnTimers: Map<number, number> = new Map();
+  exitedCount: number = 0;
+
+  // Signals and ramp metering (controlled ramps queue arrivals at their entry)
+  signalConfigs: SignalConfig[] = [];
+  signals: SignalController = new SignalController();
+  rampMeters: RampMeterConfig[] = [];
+  meters: RampMeterController = new RampMeterController();
+  rampQueues: Map<number, number> = new Map(); // Vehicles waiting per ramp
+  rampReleaseTimers: Map<number, number> = new Map(); // s since the last release per ramp
+
+  // Speed limits: static zones from the config plus VSL-controlled ones
+  speedLimits: SpeedLimitZone[] = [];
+  vsl: VslController = new VslController();
   
-  // Incident management
-  blockedLane: number | null = null;
-  blockedLocation: number | null = null;
+  // Incident management (blockages act as standing obstacles while active)
+  incidents: Incident[] = [];
 
-  constructor(roadLength: number = 5000) {
+  // Macroscopic model on the same road, for comparison
+  macro: CellTransmissionModel = new CellTransmissionModel();
+
+  // Congested regions and their fronts
+  jams: JamDetector = new JamDetector();
+
+  // Reproducibility: one independent stream per source of randomness
+  seed: number = 1;
+  rngFactory: RandomFactory;
+  demandRng!: RandomSource;
+  vehicleRng!: RandomSource;
+  noiseRng!: RandomSource;
+  rampDemandRng!: RandomSource;
+  routeRng!: RandomSource;
+
+  constructor(roadLength: number = 5000, seed: number = 1, rngFactory: RandomFactory = defaultRandomFactory) {
     this.roadLength = roadLength;
+    this.rngFactory = rngFactory;
+    this.setSeed(seed);
+  }
+
+  setSeed(seed: number) {
+    this.seed = seed;
+    this.demandRng = this.rngFactory(deriveSeed(seed, RandomStream.DEMAND));
+    this.vehicleRng = this.rngFactory(deriveSeed(seed, RandomStream.VEHICLE));
+    this.noiseRng = this.rngFactory(deriveSeed(seed, RandomStream.NOISE));
+    this.rampDemandRng = this.rngFactory(deriveSeed(seed, RandomStream.RAMP_DEMAND));
+    this.routeRng = this.rngFactory(deriveSeed(seed, RandomStream.ROUTE));
   }
 
-  reset() {
+  reset(seed: number = this.seed) {
+    this.setSeed(seed);
     this.vehicles = [];
     this.nextId = 1;
     this.timeSinceLastSpawn = 0;
-    this.blockedLane = null;
-    this.blockedLocation = null;
+    this.laneSpawnTimers = [];
+    this.demand = 0;
     this.fdPoints = [];
+    this.statsTimer = 0;
+    this.time = 0;
+    this.boundary = null;
+    this.detectors = [];
+    this.detectorConfigs = null;
+    this.newMeasurements = [];
+    this.rampSpawnTimers = new Map();
+    this.exitedCount = 0;
+    this.vsl.reset();
+    this.signals.reset();
+    this.meters.reset();
+    this.rampQueues = new Map();
+    this.rampReleaseTimers = new Map();
+    this.laneIndexDirty = true;
+    this.integration = emptyDiagnostics();
+    this.overlapping = new Set();
+    this.emissions.reset();
+    this.safety.reset();
+    this.macro.reset();
+    this.jams.reset();
   }
 
-  triggerAccident() {
-    const candidate = this.vehicles.find(v => v.lane === 1 && v.x > 1000 && v.x < 4000);
-    if (candidate) {
-      candidate.v = 0;
-      candidate.color = '#ef4444'; 
-      this.blockedLane = candidate.lane;
-      this.blockedLocation = candidate.x;
-      (candidate as any).isCrashed = true;
-      setTimeout(() => {
-        if (candidate) {
-            (candidate as any).isCrashed = false;
-            // Restore color based on type
-            candidate.color = candidate.type === VehicleType.TRUCK ? '#a78bfa' : this.getCarColor(candidate.targetSpeed);
-        }
-        this.blockedLane = null;
-        this.blockedLocation = null;
-      }, 8000); // 8 seconds blockage
+  setLanes(config: SimulationConfig) {
+    const n = Math.max(MIN_LANES, Math.min(MAX_LANES, Math.round(config.lanes)));
+    if (n === this.lanes) return;
+    const oldRampLane = this.lanes;
+    this.lanes = n;
+    const displaced = new Set<Vehicle>();
+    for (const veh of this.vehicles) {
+      if (veh.lane === oldRampLane) {
+        // Acceleration lane always sits right of the mainline
+        veh.lane = n;
+        veh.y = n;
+      } else if (veh.lane > n - 1) {
+        displaced.add(veh);
+      }
+    }
+    this.vehicles = this.vehicles.filter(veh => !displaced.has(veh));
+    this.laneIndexDirty = true;
+    // Vehicles on removed lanes move to the nearest remaining lane with a safe gap; without one they leave the road
+    for (const veh of displaced) {
+      for (let lane = n - 1; lane >= 0; lane--) {
+        if (!this.hasSafeGap(veh, lane, config)) continue;
+        veh.lane = lane;
+        this.vehicles.push(veh);
+        this.laneIndexDirty = true;
+        break;
+      }
+    }
+    // Detector accumulators are sized per lane
+    this.detectors = [];
+    this.detectorConfigs = null;
+  }
+
+  syncDetectors(configs: DetectorConfig[]) {
+    if (configs === this.detectorConfigs) return;
+    // Keep accumulated data for detectors whose placement did not change
+    this.detectors = configs.map(cfg => {
+      const existing = this.detectors.find(d => d.id === cfg.id);
+      if (existing && existing.position === cfg.position && existing.interval === cfg.interval) return existing;
+      return new LoopDetector(cfg, this.lanes, this.time);
+    });
+    this.detectorConfigs = configs;
+  }
+
+  setBoundary(config: SimulationConfig) {
+    if (config.boundary === this.boundary) return;
+    this.boundary = config.boundary;
+    if (config.boundary === BoundaryCondition.RING) this.placeRingVehicles(config);
+  }
+
+  // Sugiyama-style start: vehicles evenly spaced per lane at their equilibrium speed
+  placeRingVehicles(config: SimulationConfig) {
+    this.vehicles = [];
+    this.laneIndexDirty = true;
+    const total = Math.max(0, Math.round(config.ringVehicles));
+    for (let lane = 0; lane < this.lanes; lane++) {
+      const n = Math.floor(total / this.lanes) + (lane < total % this.lanes ? 1 : 0);
+      const spacing = this.roadLength / Math.max(1, n);
+      for (let i = 0; i < n; i++) {
+        const veh = this.spawnVehicle(lane, config.truckRatio, config, i * spacing);
+        veh.exitId = null;
+        veh.v = this.equilibriumSpeed(spacing - veh.length, veh.targetSpeed, config, veh.driver);
+      }
     }
   }
 
+  // Speed at which a vehicle following an identical one at `gap` has zero acceleration
+  equilibriumSpeed(gap: number, desiredSpeed: number, config: SimulationConfig, driver: DriverParams = REFERENCE_DRIVER): number {
+    if (gap <= 0) return 0;
+    let lo = 0, hi = desiredSpeed;
+    for (let i = 0; i < 40; i++) {
+      const mid = (lo + hi) / 2;
+      if (this.calculateAcceleration(mid, mid, gap, desiredSpeed, config, null, driver) > 0) lo = mid;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  // Front-to-front distance from `from` forward to `to` (wraps around the ring)
+  headway(from: Vehicle, to: Vehicle): number {
+    return this.distanceAhead(from.x, to.x);
+  }
+
+  // Distance from one road position forward to another, wrapped around the ring
+  distanceAhead(from: number, to: number): number {
+    const d = to - from;
+    if (this.boundary !== BoundaryCondition.RING) return d;
+    return ((d % this.roadLength) + this.roadLength) % this.roadLength;
+  }
+
+  // Net bumper-to-bumper gap between a follower and its leader
+  gapBetween(follower: Vehicle, leader: Vehicle): number {
+    return this.headway(follower, leader) - leader.length;
+  }
+
+  // Desired speed capped by the speed limit in force at the vehicle's position
+  getDesiredSpeed(veh: Vehicle): number {
+    const fixedLimit = speedLimitAt(veh.x, this.speedLimits);
+    const variableLimit = speedLimitAt(veh.x, this.vsl.zones);
+    const rubberneckLimit = rubberneckLimitAt(veh.x, this.incidents, this.time);
+    let desired = veh.targetSpeed;
+    if (fixedLimit !== null) desired = Math.min(desired, fixedLimit / 3.6);
+    if (variableLimit !== null) desired = Math.min(desired, variableLimit / 3.6);
+    if (rubberneckLimit !== null) desired = Math.min(desired, rubberneckLimit / 3.6);
+    return desired;
+  }
+
+  findOnRamp(x: number): OnRampConfig | null {
+    return this.onRamps.find(r => x >= r.position && x < r.position + r.length) ?? null;
+  }
+
+  // Stationary pseudo-vehicle used as a leader for lane ends and blockages
+  makeObstacle(x: number, lane: number): Vehicle {
+    return {
+      id: -1, x, y: lane, lane, v: 0, a: 0, length: 0, width: 0, color: '', type: VehicleType.CAR,
+      classId: -1, driver: REFERENCE_DRIVER, laneChangeTimer: 0, laneChangeDirection: 0, targetSpeed: 0, exitId: null,
+      platoonId: null, platoonIndex: 0, emissionRate: 0
+    };
+  }
+
+  // Direction (-1 left, 1 right) and urgency (0-1) of a forced lane change, if any
+  getMandatoryChange(veh: Vehicle): { dir: -1 | 1; urgency: number } | null {
+    if (veh.lane === this.lanes) {
+      const ramp = this.findOnRamp(veh.x);
+      const urgency = ramp ? 1 - (ramp.position + ramp.length - veh.x) / ramp.length : 1;
+      return { dir: -1, urgency: Math.max(0, Math.min(1, urgency)) };
+    }
+    const blockage = nextBlockage(veh.x, veh.lane, this.incidents, this.time, this.roadLength, this.boundary === BoundaryCondition.RING);
+    const blockageDist = blockage ? this.distanceAhead(veh.x, blockage.position) : Infinity;
+    if (blockage && blockageDist < INCIDENT_APPROACH_DIST) {
+      // Escape towards the nearest open lane, preferring the left
+      const open = (l: number) => l >= 0 && l < this.lanes && !blockage.lanes.includes(l);
+      let dir: -1 | 1 | null = null;
+      for (let d = 1; d < this.lanes && dir === null; d++) {
+        if (open(veh.lane - d)) dir = -1;
+        else if (open(veh.lane + d)) dir = 1;
+      }
+      if (dir !== null) return { dir, urgency: 1 - blockageDist / INCIDENT_APPROACH_DIST };
+    }
+    if (veh.exitId !== null) {
+      const exit = this.offRamps.find(r => r.id === veh.exitId);
+      const dist = exit ? exit.position - veh.x : -1;
+      if (dist > 0 && dist < EXIT_APPROACH_DIST) {
+        return { dir: 1, urgency: 1 - dist / EXIT_APPROACH_DIST };
+      }
+    }
+    return null;
+  }
+
+  // Returns true if the vehicle leaves the road at its off-ramp this step
+  reachedExit(veh: Vehicle): boolean {
+    if (veh.exitId === null) return false;
+    const exit = this.offRamps.find(r => r.id === veh.exitId);
+    if (!exit) {
+      veh.exitId = null;
+      return false;
+    }
+    if (veh.x < exit.position) return false;
+    if (veh.lane === this.lanes - 1) return true;
+    veh.exitId = null; // Missed the exit, carries on to the end of the road
+    return false;
+  }
+
+  // Quick incident: block the middle lane just ahead of a vehicle in the central part of the road
+  triggerAccident(id: number, duration: number = 120): Incident | null {
+    const lane = Math.floor((this.lanes - 1) / 2);
+    const candidate = this.vehicles.find(v =>
+      v.lane === lane && v.x > this.roadLength * 0.2 && v.x < this.roadLength * 0.8
+    );
+    if (!candidate) return null;
+    return {
+      id,
+      position: Math.round(candidate.x + 5),
+      lanes: [lane],
+      startTime: this.time,
+      duration,
+      rubberneckSpeed: null
+    };
+  }
+
+  getLanes(): LaneIndex {
+    if (this.laneIndexDirty) {
+      this.laneIndex.rebuild(this.vehicles);
+      this.laneIndexDirty = false;
+    }
+    return this.laneIndex;
+  }
+
   getLeader(vehicle: Vehicle, targetLane: number): Vehicle | null {
-    let minDist = Infinity;
-    let leader: Vehicle | null = null;
-    
-    // Optimization: Vehicles are sorted by X descending in step()
-    
-    for (const other of this.vehicles) {
-      if (other.id === vehicle.id) continue;
-      if (other.lane !== targetLane) continue;
-      
-      let dist = other.x - vehicle.x;
-      if (dist > 0 && dist < minDist) {
+    const ring = this.boundary === BoundaryCondition.RING;
+    let leader = this.getLanes().ahead(vehicle.x, targetLane, ring);
+    let minDist = leader ? this.headway(vehicle, leader) : Infinity;
+
+    // Active blockages are standing obstacles
+    const blockage = nextBlockage(vehicle.x, targetLane, this.incidents, this.time, this.roadLength, ring);
+    const blockageDist = blockage ? this.distanceAhead(vehicle.x, blockage.position) : Infinity;
+    if (blockage && blockageDist < minDist) {
+      minDist = blockageDist;
+      leader = this.makeObstacle(blockage.position, targetLane);
+    }
+
+    // Red mainline signals are standing obstacles, except for drivers too close to stop
+    for (const signal of this.signalConfigs) {
+      if (signal.rampId !== null || this.signals.isGreen(signal.id)) continue;
+      const dist = this.distanceAhead(vehicle.x, signal.position);
+      if (dist > 0 && dist < minDist && vehicle.v * vehicle.v <= 2 * SIGNAL_STOP_DECEL * dist) {
         minDist = dist;
-        leader = other;
+        leader = this.makeObstacle(signal.position, targetLane);
+      }
+    }
+
+    // Courtesy yielding: the rightmost lane lets in a driver near the end of an acceleration lane,
+    // if it can stop behind it within the deceleration the merging driver may impose
+    if (targetLane === vehicle.lane && targetLane === this.lanes - 1) {
+      for (const ramp of this.onRamps) {
+        const end = ramp.position + ramp.length;
+        if (end <= vehicle.x) continue;
+        const merger = this.getLanes().ahead(Math.max(vehicle.x, end - (1 - YIELD_URGENCY) * ramp.length), this.lanes, false);
+        if (!merger || merger.x >= end) continue;
+        // Compare rear bumpers: a merger alongside a long leader must not hide it
+        const gap = this.gapBetween(vehicle, merger);
+        if (gap <= 0 || (leader && gap >= this.gapBetween(vehicle, leader))) continue;
+        const decel = this.mandatorySafeDecel(1 - (end - merger.x) / ramp.length);
+        if (vehicle.v * vehicle.v <= 2 * decel * gap) {
+          minDist = this.headway(vehicle, merger);
+          leader = merger;
+        }
+      }
+    }
+
+    // Acceleration lanes end in a standing obstacle
+    if (targetLane === this.lanes) {
+      const ramp = this.findOnRamp(vehicle.x);
+      if (ramp && ramp.position + ramp.length - vehicle.x < minDist) {
+        leader = this.makeObstacle(ramp.position + ramp.length, targetLane);
       }
     }
     return leader;
   }
 
   getFollower(vehicle: Vehicle, targetLane: number): Vehicle | null {
-    let minDist = Infinity;
-    let follower: Vehicle | null = null;
-    
-    for (const other of this.vehicles) {
-      if (other.id === vehicle.id) continue;
-      if (other.lane !== targetLane) continue;
-      
-      let dist = vehicle.x - other.x;
-      if (dist > 0 && dist < minDist) {
-        minDist = dist;
-        follower = other;
-      }
-    }
-    return follower;
+    return this.getLanes().behind(vehicle.x, targetLane, this.boundary === BoundaryCondition.RING);
   }
 
-  // Intelligent Driver Model (IDM)
+  // Longitudinal acceleration from the configured car-following model
   calculateAcceleration(
       v: number, 
       vLeader: number | null, 
       gap: number | null, 
       desiredSpeed: number,
-      config: SimulationConfig
+      config: SimulationConfig,
+      aLeader: number | null = null,
+      driver: DriverParams = REFERENCE_DRIVER
   ): number {
-    const { maxAccel, safeTimeGap } = config;
-    
-    // Free road term
-    const a_free = maxAccel * (1 - Math.pow(v / desiredSpeed, IDM_DELTA));
-    
-    if (gap === null || vLeader === null) return a_free;
+    return CAR_FOLLOWING_MODELS[config.carFollowingModel].acceleration(v, vLeader, gap, desiredSpeed, config, aLeader, driver);
+  }
 
-    // Interaction term
-    const delta_v = v - vLeader;
-    const s_star = JAM_DISTANCE + v * safeTimeGap + (v * delta_v) / (2 * Math.sqrt(maxAccel * COMFORT_DECEL));
-    
-    // Prevent division by zero or negative gap issues physically (crash)
-    const effectiveGap = Math.max(0.1, gap);
-    const a_int = -maxAccel * Math.pow(s_star / effectiveGap, 2);
+  // Acceleration of veh behind leader (actual or prospective): automated controller or the human driver model
+  vehicleAcceleration(veh: Vehicle, leader: Vehicle | null, config: SimulationConfig): number {
+    const gap = leader ? this.gapBetween(veh, leader) : null;
+    const desiredSpeed = this.getDesiredSpeed(veh);
+    if (veh.type === VehicleType.AUTOMATED) return automatedAcceleration(veh, leader, gap, desiredSpeed, config);
 
-    return a_free + a_int;
+    const vLeader = leader ? leader.v : null;
+    const aLeader = leader && leader.id >= 0 ? leader.a : null;
+    return this.calculateAcceleration(veh.v, vLeader, gap, desiredSpeed, config, aLeader, veh.driver);
   }
 
   step(config: SimulationConfig) {
-    const dt = DT * config.timeScale;
+    const dt = config.timeStep; // Fixed simulation clock; playback speed is handled by the caller
+    this.time += dt;
+    this.setLanes(config);
+    this.syncDetectors(config.detectors);
+    this.onRamps = config.onRamps;
+    this.offRamps = config.offRamps;
+    this.speedLimits = config.speedLimits;
+    this.incidents = config.incidents;
+    this.safetyConfig = config.safety;
+    this.laneChangeParams = config.laneChange;
+    this.signalConfigs = config.signals;
+    this.rampMeters = config.rampMeters;
+    this.setBoundary(config);
+    this.signals.update(this.signalConfigs, this.time, signal => this.signalDemand(signal));
     
-    // Sort vehicles by position (descending)
+    // Sort vehicles by position (descending): leaders are processed before their followers.
+    // The lane index does not depend on this order; it carries over from the diagnostics pass.
     this.vehicles.sort((a, b) => b.x - a.x);
 
-    // 1. Calculate accelerations and Lane Changes
-    for (const veh of this.vehicles) {
-      if ((veh as any).isCrashed) {
-        veh.a = 0;
-        veh.v = 0;
-        continue;
-      }
+    // Stochastic part of each acceleration, held constant over the step
+    const noise = new Float64Array(this.vehicles.length);
 
+    // 1. Calculate accelerations and Lane Changes
+    for (let i = 0; i < this.vehicles.length; i++) {
+      const veh = this.vehicles[i];
       const leader = this.getLeader(veh, veh.lane);
-      const gap = leader ? leader.x - veh.x - leader.length : null;
-      const vLeader = leader ? leader.v : null;
+      updatePlatoon(veh, leader, leader ? this.gapBetween(veh, leader) : null, config);
 
-      // Current acceleration (IDM)
-      let accCurrent = this.calculateAcceleration(veh.v, vLeader, gap, veh.targetSpeed, config);
+      // Current acceleration (car-following model or automated controller)
+      let accCurrent = this.vehicleAcceleration(veh, this.keepRightLeader(veh, leader, config), config);
+
+      // Human drivers only: model-specific stochasticity (e.g. Krauss dawdling)
+      const model = CAR_FOLLOWING_MODELS[config.carFollowingModel];
+      const human = veh.type !== VehicleType.AUTOMATED;
+      if (human && model.perturbation) noise[i] += model.perturbation(veh.v, config, this.noiseRng, veh.driver);
       
       // Add Perceptual Noise (Key for Ghost Jams)
       // Random fluctuation in acceleration to simulate human inability to hold perfect constant speed
-      if (config.accelerationNoise > 0 && veh.v > 1) {
-         accCurrent += (Math.random() - 0.5) * config.accelerationNoise;
+      if (human && config.accelerationNoise > 0 && veh.v > 1) {
+         noise[i] += (this.noiseRng.next() - 0.5) * config.accelerationNoise;
       }
 
+      accCurrent += noise[i];
       veh.a = accCurrent;
 
       // MOBIL Lane Change Logic
@@ -154,14 +480,25 @@ export class TrafficModel {
       }
     }
 
-    // 2. Integration (Euler)
+    // 2. Integration with the configured scheme
+    const next = this.integrate(dt, noise, config);
+    this.emissions.beginStep();
     for (let i = this.vehicles.length - 1; i >= 0; i--) {
       const veh = this.vehicles[i];
       
-      veh.v += veh.a * dt;
-      if (veh.v < 0) veh.v = 0; // No reversing
-      
-      veh.x += veh.v * dt;
+      const xOld = veh.x;
+      veh.x = next.x[i];
+      veh.v = next.v[i];
+      this.emissions.observe(veh, veh.x - xOld, dt);
+      this.safety.observeMovement(veh, xOld, this.time, dt, this.lanes, config.safety);
+
+      for (const det of this.detectors) det.observe(veh, xOld, dt);
+
+      // Ring road: wrap around, counting detector crossings just past the seam
+      if (this.boundary === BoundaryCondition.RING && veh.x >= this.roadLength) {
+        veh.x -= this.roadLength;
+        for (const det of this.detectors) det.observe(veh, xOld - this.roadLength, 0);
+      }
 
       // Visual lane interpolation
       if (Math.abs(veh.y - veh.lane) > 0.05) {
@@ -172,14 +509,43 @@ export class TrafficModel {
         veh.laneChangeDirection = 0; // Reset signal when change complete
       }
 
+      // Acceleration lane ran out before a gap was found: squeeze in
+      if (veh.lane === this.lanes && !this.findOnRamp(veh.x)) {
+        veh.lane = this.lanes - 1;
+        veh.laneChangeDirection = -1;
+      }
+
       // Despawn
       if (veh.x > this.roadLength) {
         this.vehicles.splice(i, 1);
+      } else if (this.reachedExit(veh)) {
+        this.vehicles.splice(i, 1);
+        this.exitedCount++;
       }
     }
 
-    // 3. Spawning
-    this.handleSpawning(dt, config);
+    this.laneIndexDirty = true; // Positions, lanes and the vehicle set changed
+    this.updateDiagnostics();
+    this.safety.endStep(config.safety, this.roadLength);
+
+    // 3. Spawning (closed system on the ring)
+    if (this.boundary !== BoundaryCondition.RING) {
+      this.handleSpawning(dt, config);
+      this.handleRampSpawning(dt, config);
+    }
+
+    // Close elapsed detector intervals
+    this.newMeasurements = [];
+    for (const det of this.detectors) {
+      const m = det.update(this.time);
+      if (m) this.newMeasurements.push(m);
+    }
+    this.vsl.update(this.detectors, config.vsl);
+    this.meters.update(this.rampMeters, this.detectors, rampId => this.rampQueues.get(rampId) ?? 0);
+
+    if (config.macro.enabled) this.macro.update(config, this.time, dt, this.vehicles, this.boundary === BoundaryCondition.RING);
+    else if (this.macro.count.length > 0) this.macro.reset();
+    this.jams.update(this.vehicles, this.time, this.lanes, this.roadLength, this.boundary === BoundaryCondition.RING, config.jamDetection);
     
     // 4. Data Collection for Fundamental Diagram (approx every 1 sec sim time)
     this.statsTimer += dt;
@@ -193,88 +559,205 @@ export class TrafficModel {
     }
   }
 
+  // New positions and speeds for all vehicles (same order as this.vehicles)
+  integrate(dt: number, noise: Float64Array, config: SimulationConfig): { x: Float64Array; v: Float64Array } {
+    const n = this.vehicles.length;
+    if (config.integrator === IntegrationScheme.RK4) {
+      // Leaders and lanes are frozen after the lane-change phase; the stages move everyone together
+      const leaders = this.vehicles.map(veh => this.keepRightLeader(veh, this.getLeader(veh, veh.lane), config));
+      const x0 = Float64Array.from(this.vehicles, veh => veh.x);
+      const v0 = Float64Array.from(this.vehicles, veh => veh.v);
+      const result = rk4Update(x0, v0, dt, (xs, vs) => this.stageAccelerations(xs, vs, leaders, noise, config));
+      this.vehicles.forEach((veh, i) => {
+        veh.x = x0[i];
+        veh.v = v0[i];
+        veh.a = (result.v[i] - v0[i]) / dt; // Effective acceleration over the step
+      });
+      this.integration.speedClamps += result.clamps;
+      return result;
+    }
+
+    const update = config.integrator === IntegrationScheme.BALLISTIC ? ballisticUpdate : eulerUpdate;
+    const x = new Float64Array(n);
+    const v = new Float64Array(n);
+    this.vehicles.forEach((veh, i) => {
+      const u = update(veh.x, veh.v, veh.a, dt);
+      x[i] = u.x;
+      v[i] = u.v;
+      if (u.clamped) this.integration.speedClamps++;
+    });
+    return { x, v };
+  }
+
+  // Accelerations with every vehicle moved to a trial state (RK4 stages)
+  stageAccelerations(
+    xs: Float64Array,
+    vs: Float64Array,
+    leaders: (Vehicle | null)[],
+    noise: Float64Array,
+    config: SimulationConfig
+  ): Float64Array {
+    this.vehicles.forEach((veh, i) => {
+      veh.x = xs[i];
+      veh.v = vs[i];
+    });
+    return Float64Array.from(this.vehicles, (veh, i) => this.vehicleAcceleration(veh, leaders[i], config) + noise[i]);
+  }
+
+  // Count overlapping follower/leader pairs in the current state (new overlaps are crashes)
+  // and evaluate the surrogate safety measures of every pair
+  updateDiagnostics() {
+    const ring = this.boundary === BoundaryCondition.RING;
+    const overlapping = new Set<number>();
+    let minGap = this.integration.minGap;
+    for (const lane of this.getLanes().lanes) {
+      for (let i = 0; i < lane.length; i++) {
+        const leader = i + 1 < lane.length ? lane[i + 1] : ring && lane.length > 1 ? lane[0] : null;
+        if (!leader) continue;
+        const veh = lane[i];
+        const gap = this.gapBetween(veh, leader);
+        if (minGap === null || gap < minGap) minGap = gap;
+        this.safety.observePair(veh, leader, gap, this.time, this.safetyConfig);
+        if (gap < 0) {
+          overlapping.add(veh.id);
+          if (!this.overlapping.has(veh.id)) {
+            this.integration.overlapEvents++;
+            this.safety.crash(veh, leader, gap, this.time);
+          }
+        }
+      }
+    }
+    this.integration.overlaps = overlapping.size;
+    this.integration.negativeGapSteps += overlapping.size;
+    this.integration.minGap = minGap;
+    this.overlapping = overlapping;
+  }
+
+  // MOBIL (Kesting, Treiber & Helbing 2007); c: this vehicle, o: old follower, n: new follower, ~: after the change
+  //   Symmetric:           ã_c - a_c + p ((ã_n - a_n) + (ã_o - a_o)) > Δa_th
+  //   European, to right:  ã_c - a_c + p (ã_o - a_o) > Δa_th - Δa_bias
+  //   European, to left:   ã_c - a_c + p (ã_n - a_n) > Δa_th + Δa_bias
+  // European rules count only the follower in the faster (left) lane, and a_c is capped so that nobody
+  // passes on the right in free traffic. Safety: ã_n >= -b_safe. Mandatory changes skip the incentive.
   checkLaneChange(veh: Vehicle, accCurrent: number, config: SimulationConfig) {
-    // MOBIL Algorithm
-    // Criterion: (a_c_new - a_c_old) + p * ( (a_n_new - a_n_old) + (a_o_new - a_o_old) ) > threshold
+    const params = config.laneChange;
+    const european = params.rules === LaneChangeRules.EUROPEAN;
+    const mandatory = this.getMandatoryChange(veh);
     
-    const candidates = [];
+    let candidates = [];
     if (veh.lane > 0) candidates.push(veh.lane - 1);
     if (veh.lane < this.lanes - 1) candidates.push(veh.lane + 1);
+    // Ramp merges and exits: only moves towards the required lane are allowed
+    if (mandatory) candidates = candidates.filter(l => Math.sign(l - veh.lane) === mandatory.dir);
 
     for (const targetLane of candidates) {
       const newLeader = this.getLeader(veh, targetLane);
       const newFollower = this.getFollower(veh, targetLane);
-      const oldFollower = this.getFollower(veh, veh.lane);
 
-      // 1. Safety Criterion: New follower deceleration must not exceed safe limit
-      // "Respect the safe deceleration b_safe" (e.g., -4 m/s^2)
-      if (newFollower) {
-        const gapBack = veh.x - newFollower.x - veh.length;
-        const accFollowerNew = this.calculateAcceleration(
-            newFollower.v, veh.v, gapBack, newFollower.targetSpeed, config
-        );
-        if (accFollowerNew < -3.0) continue; // Too dangerous for new follower
+      // 0. Never move into an occupied slot (not every car-following model brakes hard for overlaps)
+      if (newLeader && this.gapBetween(veh, newLeader) < 0) continue;
+      if (newFollower && this.gapBetween(newFollower, veh) < 0) continue;
+      if (this.getLanes().at(veh.x, targetLane)) continue; // Exactly side by side (e.g. the ring start)
+
+      // 1. Safety criterion: the new follower must not have to brake harder than b_safe
+      const safeDecel = mandatory ? this.mandatorySafeDecel(mandatory.urgency) : params.safeDecel;
+      const accNewFollowerNew = newFollower ? this.vehicleAcceleration(newFollower, veh, config) : 0;
+      if (accNewFollowerNew < -safeDecel) continue;
+      const accNew = this.vehicleAcceleration(veh, newLeader, config);
+
+      // Mandatory change (lane end, exit, blocked lane): go as soon as it is safe, for the follower and oneself
+      if (mandatory) {
+        if (accNew < -safeDecel) continue;
+        this.changeLane(veh, targetLane);
+        return;
       }
 
-      // 2. Incentive Criterion
-      const gapNew = newLeader ? newLeader.x - veh.x - newLeader.length : null;
-      const vNewLeader = newLeader ? newLeader.v : null;
-      const accNew = this.calculateAcceleration(veh.v, vNewLeader, gapNew, veh.targetSpeed, config);
-      
-      // Ego incentive
-      const egoBenefit = accNew - accCurrent;
-
-      // Politeness: How much do we hurt/help the old follower?
-      let politenessTerm = 0;
-      if (oldFollower) {
-         // Current accel of old follower (with me as leader)
-         const gapOld = veh.x - oldFollower.x - veh.length;
-         const accOldFollowerCurr = this.calculateAcceleration(oldFollower.v, veh.v, gapOld, oldFollower.targetSpeed, config);
-         
-         // New accel of old follower (with my current leader becoming their leader)
-         const myLeader = this.getLeader(veh, veh.lane); // My current leader
-         const gapOldFuture = myLeader ? myLeader.x - oldFollower.x - myLeader.length : null;
-         const vMyLeader = myLeader ? myLeader.v : null;
-         const accOldFollowerNew = this.calculateAcceleration(oldFollower.v, vMyLeader, gapOldFuture, oldFollower.targetSpeed, config);
-         
-         politenessTerm = accOldFollowerNew - accOldFollowerCurr;
-      }
-      
-      // Add politeness of new follower? Usually MOBIL considers both back vehicles. 
-      // Simplified: Just consider the gap created behind.
+      // 2. Incentive criterion
+      const right = targetLane > veh.lane;
+      const accTarget = european ? this.vehicleAcceleration(veh, this.keepRightLeader(veh, newLeader, config, targetLane), config) : accNew;
+      const egoBenefit = accTarget - accCurrent;
 
-      let totalIncentive = egoBenefit + config.politeness * politenessTerm;
+      let followerBenefit = 0;
+      if (newFollower && (!european || !right)) {
+        const accNewFollowerCurr = this.vehicleAcceleration(newFollower, this.getLeader(newFollower, targetLane), config);
+        followerBenefit += accNewFollowerNew - accNewFollowerCurr;
+      }
+      const oldFollower = this.getFollower(veh, veh.lane);
+      if (oldFollower && (!european || right)) {
+        const accOldFollowerCurr = this.vehicleAcceleration(oldFollower, veh, config);
+        const accOldFollowerNew = this.vehicleAcceleration(oldFollower, this.getLeader(veh, veh.lane), config);
+        followerBenefit += accOldFollowerNew - accOldFollowerCurr;
+      }
 
-      // Right lane bias (European rules)
-      if (targetLane > veh.lane) totalIncentive += MOBIL_BIAS; 
-      if (targetLane < veh.lane) totalIncentive -= MOBIL_BIAS;
+      let threshold = params.threshold;
+      if (european) threshold += right ? -params.bias : params.bias;
 
-      if (totalIncentive > MOBIL_THRESHOLD) {
-        veh.lane = targetLane;
-        veh.laneChangeTimer = 3.0; // 3 seconds cooldown
-        veh.laneChangeDirection = (targetLane > veh.y) ? 1 : -1;
+      if (egoBenefit + config.politeness * followerBenefit > threshold) {
+        this.changeLane(veh, targetLane);
         return; 
       }
     }
   }
 
+  // Room for veh in a lane it is not on: no overlap, and MOBIL's safety criterion for itself and the new follower
+  hasSafeGap(veh: Vehicle, lane: number, config: SimulationConfig): boolean {
+    const leader = this.getLeader(veh, lane);
+    const follower = this.getFollower(veh, lane);
+    if (leader && this.gapBetween(veh, leader) < 0) return false;
+    if (follower && this.gapBetween(follower, veh) < 0) return false;
+    if (this.getLanes().at(veh.x, lane)) return false;
+    const safeDecel = config.laneChange.safeDecel;
+    if (follower && this.vehicleAcceleration(follower, veh, config) < -safeDecel) return false;
+    return this.vehicleAcceleration(veh, leader, config) >= -safeDecel;
+  }
+
+  // Deceleration a mandatory change may impose, rising from b_safe to MANDATORY_SAFE_DECEL towards the lane end
+  mandatorySafeDecel(urgency: number): number {
+    const base = this.laneChangeParams.safeDecel;
+    return base + Math.max(0, MANDATORY_SAFE_DECEL - base) * Math.max(0, Math.min(1, urgency));
+  }
+
+  // European rules: no passing on the right, so a slower leader in the lane to the left is followed too
+  // whenever it is the more restrictive one (unless that lane is congested)
+  keepRightLeader(veh: Vehicle, leader: Vehicle | null, config: SimulationConfig, lane: number = veh.lane): Vehicle | null {
+    if (config.laneChange.rules !== LaneChangeRules.EUROPEAN || lane === 0) return leader;
+    const leftLeader = this.getLeader(veh, lane - 1);
+    if (!leftLeader || leftLeader.v < UNDERTAKING_SPEED || leftLeader.v >= veh.v || this.gapBetween(veh, leftLeader) <= 0) return leader;
+    if (!leader) return leftLeader;
+    return this.vehicleAcceleration(veh, leftLeader, config) < this.vehicleAcceleration(veh, leader, config) ? leftLeader : leader;
+  }
+
+  changeLane(veh: Vehicle, targetLane: number) {
+    const fromLane = veh.lane;
+    veh.lane = targetLane;
+    if (!this.laneIndexDirty) this.laneIndex.move(veh, fromLane);
+    veh.laneChangeTimer = LANE_CHANGE_COOLDOWN;
+    veh.laneChangeDirection = (targetLane > veh.y) ? 1 : -1;
+  }
+
   handleSpawning(dt: number, config: SimulationConfig) {
+    const demand = demandAt(config, this.time);
+    this.demand = demand.inflowRate;
+    const shares = laneShares(config.demand, this.lanes);
+    if (shares) {
+      this.handleLaneSpawning(dt, demand, shares, config);
+      return;
+    }
+
     this.timeSinceLastSpawn += dt;
-    const { inflowRate, truckRatio } = config;
+    const { inflowRate, truckRatio } = demand;
     
     // Dynamic Inflow logic
     const spawnRatePerSec = inflowRate / 3600;
     const avgInterarrivalTime = 1 / spawnRatePerSec;
 
-    if (this.timeSinceLastSpawn > (Math.random() * 0.4 + 0.8) * avgInterarrivalTime) { // Slightly more regular than pure Poisson to maximize flow
+    if (this.timeSinceLastSpawn > (this.demandRng.next() * 0.4 + 0.8) * avgInterarrivalTime) { // Slightly more regular than pure Poisson to maximize flow
       
       // Try to spawn in the lane with most space
-      const lanes = [0, 1, 2];
+      const lanes = Array.from({ length: this.lanes }, (_, i) => i);
       // Check last car position in each lane
-      const lastPos = lanes.map(l => {
-          const last = this.vehicles.filter(v => v.lane === l).reduce((prev, curr) => (prev && prev.x < curr.x) ? prev : curr, null as Vehicle | null);
-          return last ? last.x : Infinity;
-      });
+      const index = this.getLanes();
+      const lastPos = lanes.map(l => index.last(l)?.x ?? Infinity);
 
       // Prefer lane with largest distance from start (emptiest at entry)
       const bestLane = lanes.reduce((i, j) => (lastPos[i] > lastPos[j] ? i : j));
@@ -286,27 +769,134 @@ export class TrafficModel {
     }
   }
 
-  spawnVehicle(lane: number, truckRatio: number, config: SimulationConfig) {
-    const isTruck = Math.random() < truckRatio;
-    // Trucks slower: 85km/h +- 5. Cars: 120km/h +- 10.
-    const speedKmH = isTruck ? (85 + (Math.random()-0.5)*10) : (110 + (Math.random()-0.5)*20);
-    const targetSpeed = speedKmH / 3.6;
+  // Fixed lane split: one arrival process per lane
+  handleLaneSpawning(dt: number, demand: DemandState, shares: number[], config: SimulationConfig) {
+    const index = this.getLanes();
+    shares.forEach((share, lane) => {
+      let timer = (this.laneSpawnTimers[lane] ?? 0) + dt;
+      const rate = (demand.inflowRate * share) / 3600; // veh/s
+      if (rate > 0 && timer > (this.demandRng.next() * 0.4 + 0.8) / rate && (index.last(lane)?.x ?? Infinity) > 40) {
+        this.spawnVehicle(lane, demand.truckRatio, config);
+        timer = 0;
+      }
+      this.laneSpawnTimers[lane] = timer;
+    });
+  }
+
+  handleRampSpawning(dt: number, config: SimulationConfig) {
+    for (const ramp of this.onRamps) {
+      const controlled = this.isRampControlled(ramp.id);
+      let timer = (this.rampSpawnTimers.get(ramp.id) ?? 0) + dt;
+      if (ramp.inflowRate > 0 && timer > (this.rampDemandRng.next() * 0.4 + 0.8) * (3600 / ramp.inflowRate)) {
+        if (controlled) {
+          this.rampQueues.set(ramp.id, (this.rampQueues.get(ramp.id) ?? 0) + 1);
+          timer = 0;
+        } else if (!this.rampEntryBlocked(ramp)) {
+          this.spawnVehicle(this.lanes, demandAt(config, this.time).truckRatio, config, ramp.position);
+          timer = 0;
+        }
+      }
+      this.rampSpawnTimers.set(ramp.id, timer);
+      if (controlled || this.rampQueues.get(ramp.id)) this.releaseRampQueue(ramp, dt, config);
+    }
+  }
+
+  isRampControlled(rampId: number): boolean {
+    return this.signalConfigs.some(s => s.rampId === rampId) || this.rampMeters.some(m => m.rampId === rampId);
+  }
+
+  rampEntryBlocked(ramp: OnRampConfig): boolean {
+    return this.getLanes().laneArray(this.lanes).some(v =>
+      v.x - v.length < ramp.position + 20 && v.x >= ramp.position
+    );
+  }
+
+  // The next waiting vehicle enters once the ramp signal is green and the meter's release interval has passed
+  releaseRampQueue(ramp: OnRampConfig, dt: number, config: SimulationConfig) {
+    const elapsed = (this.rampReleaseTimers.get(ramp.id) ?? Infinity) + dt;
+    this.rampReleaseTimers.set(ramp.id, elapsed);
+    const queue = this.rampQueues.get(ramp.id) ?? 0;
+    if (queue === 0) return;
+
+    const signal = this.signalConfigs.find(s => s.rampId === ramp.id);
+    if (signal && !this.signals.isGreen(signal.id)) return;
+    const rate = this.meters.rate(ramp.id, this.rampMeters);
+    if (rate !== null && rate <= 0) return;
+    const headway = Math.max(signal ? RAMP_SATURATION_HEADWAY : 0, rate !== null ? 3600 / rate : 0);
+    if (elapsed < headway || this.rampEntryBlocked(ramp)) return;
+
+    this.spawnVehicle(this.lanes, demandAt(config, this.time).truckRatio, config, ramp.position);
+    this.rampQueues.set(ramp.id, queue - 1);
+    this.rampReleaseTimers.set(ramp.id, 0);
+  }
+
+  // Actuation: vehicles approaching a mainline stop line, or a queue at a ramp signal
+  signalDemand(signal: SignalConfig): boolean {
+    if (signal.rampId !== null) return (this.rampQueues.get(signal.rampId) ?? 0) > 0;
+    const index = this.getLanes();
+    for (let lane = 0; lane < this.lanes; lane++) {
+      const veh = index.ahead(signal.position - ACTUATION_ZONE, lane, false);
+      if (veh && veh.x <= signal.position) return true;
+    }
+    return false;
+  }
+
+  getControlStats(): ControlStats {
+    return {
+      signals: this.signals.states(this.time),
+      meters: this.meters.states(this.rampMeters),
+      rampQueues: this.onRamps
+        .filter(r => this.isRampControlled(r.id) || this.rampQueues.get(r.id))
+        .map(r => ({ rampId: r.id, queue: this.rampQueues.get(r.id) ?? 0 }))
+    };
+  }
 
-    this.vehicles.push({
+  // Pick an off-ramp downstream of the entry point, each taken with its share
+  assignExit(x: number): number | null {
+    const downstream = this.offRamps
+      .filter(r => r.position > x + MIN_EXIT_LEAD && r.position < this.roadLength)
+      .sort((a, b) => a.position - b.position);
+    for (const ramp of downstream) {
+      if (this.routeRng.next() < ramp.share) return ramp.id;
+    }
+    return null;
+  }
+
+  // truckRatio is the heavy-vehicle share; the class then sets size, desired speed and driver parameters
+  spawnVehicle(lane: number, truckRatio: number, config: SimulationConfig, x: number = 0): Vehicle {
+    const rng = this.vehicleRng;
+    const cls = pickClass(config.vehicleClasses, truckRatio, rng);
+    // Drawn only with automation enabled, so runs without it keep their attribute sequence
+    const isAutomated = cls.type === VehicleType.CAR && config.automatedRatio > 0 && rng.next() < config.automatedRatio;
+    const length = Math.max(1, sampleDistribution(cls.length, rng));
+    const targetSpeed = Math.max(5, sampleDistribution(cls.desiredSpeed, rng)) / 3.6;
+    const driver = sampleDriver(cls, rng);
+
+    const vehicle: Vehicle = {
       id: this.nextId++,
-      x: 0,
+      x,
       y: lane,
       lane: lane,
-      v: targetSpeed * 0.9, // Enter near target speed
+      v: targetSpeed * (lane === this.lanes ? 0.7 : 0.9), // Enter near target speed (slower from ramps)
       a: 0,
-      length: isTruck ? 14 : 4.5,
-      width: isTruck ? 2.6 : 2.0,
-      type: isTruck ? VehicleType.TRUCK : VehicleType.CAR,
-      color: isTruck ? '#a78bfa' : this.getCarColor(targetSpeed), // Purple-ish trucks
+      length,
+      width: cls.width,
+      type: isAutomated ? VehicleType.AUTOMATED : cls.type,
+      classId: cls.id,
+      driver,
+      color: isAutomated ? AUTOMATED_COLOR : (cls.color ?? this.getCarColor(targetSpeed)),
       laneChangeTimer: 0,
       laneChangeDirection: 0,
-      targetSpeed: targetSpeed
-    });
+      targetSpeed: targetSpeed,
+      exitId: this.assignExit(x),
+      platoonId: null,
+      platoonIndex: 0,
+      emissionRate: 0
+    };
+    if (isAutomated) vehicle.platoonId = vehicle.id; // Leads its own platoon until connected
+    this.vehicles.push(vehicle);
+    if (!this.laneIndexDirty) this.laneIndex.insert(vehicle);
+    return vehicle;
   }
 
   getCarColor(targetSpeed: number): string {
@@ -317,10 +907,31 @@ export class TrafficModel {
     return '#f59e0b'; // Amber (Slow)
   }
 
+  getDetectorPoints(): {detectorId: number, k: number, q: number}[] {
+    const points: {detectorId: number, k: number, q: number}[] = [];
+    for (const det of this.detectors) {
+      for (const m of det.history) {
+        const p = measurementToFdPoint(m);
+        if (p) points.push({ detectorId: det.id, ...p });
+      }
+    }
+    return points;
+  }
+
   getStats(): SimulationStats {
     const count = this.vehicles.length;
+    const detectors = this.detectors.map(d => d.latest).filter(m => m !== null);
+    const detectorPoints = this.getDetectorPoints();
     // Return copy of points to avoid mutating React state
-    if (count === 0) return { count: 0, avgSpeed: 0, density: 0, flow: 0, points: [...this.fdPoints] };
+    const platoons = platoonStats(this.vehicles);
+    const integration = { ...this.integration };
+    const demand = this.demand;
+    const emissions = this.emissions.stats(this.nextId - 1);
+    const safety = this.safety.stats(this.roadLength, this.safetyConfig);
+    const control = this.getControlStats();
+    const macro = this.macro.stats(this.lanes);
+    const jams = this.jams.stats();
+    if (count === 0) return { time: this.time, count: 0, avgSpeed: 0, density: 0, flow: 0, points: [...this.fdPoints], detectors, detectorPoints, platoons, integration, demand, emissions, safety, control, macro, jams };
 
     const totalV = this.vehicles.reduce((sum, v) => sum + v.v, 0);
     const avgV = (totalV / count) * 3.6; // km/h
@@ -332,11 +943,22 @@ export class TrafficModel {
     const flow = density * avgV; 
 
     return {
+      time: this.time,
       count,
       avgSpeed: avgV,
       density,
       flow,
-      points: [...this.fdPoints] // Return shallow copy!
+      points: [...this.fdPoints], // Return shallow copy!
+      detectors,
+      detectorPoints,
+      platoons,
+      integration,
+      demand,
+      emissions,
+      safety,
+      control,
+      macro,
+      jams
     };
   }
-}
\ No newline at end of file
+}
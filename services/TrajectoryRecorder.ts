@@ -0,0 +1,388 @@
+import { VehicleType } from '../types';
+import { TrafficModel } from './TrafficPhysics';
+
+// Samples vehicle states from a running TrafficModel into growable column arrays
+// and exports them as NGSIM / highD style CSV or a compact columnar binary file (CSV can be read back for calibration).
+
+export interface RecorderOptions {
+  interval: number;   // s between samples
+  start: number;      // s: first sample at or after this simulation time
+  end: number | null; // s: last sample time, null = until stopped
+  maxRows?: number;   // Recording stops (truncated) beyond this many rows
+}
+
+export interface RecorderStatus {
+  state: 'waiting' | 'recording' | 'done';
+  rows: number;
+  truncated: boolean;
+}
+
+// Per-row fields besides time. Leader ids: 0 = none, -1 = standing obstacle (blockage, lane end).
+export const TRAJECTORY_FIELDS = [
+  'id', 'type', 'x', 'y', 'lane', 'v', 'a', 'length', 'width',
+  'leaderId', 'gap', 'spacing', 'leaderV', 'followerId'
+] as const;
+export type TrajectoryField = typeof TRAJECTORY_FIELDS[number];
+
+export interface TrajectoryRecording {
+  interval: number;
+  lanes: number;
+  roadLength: number;
+  rows: number;
+  truncated: boolean;
+  time: Float64Array; // Simulation time of each row (s)
+  columns: Record<TrajectoryField, Float32Array>;
+}
+
+// Stored as the index into this list (append only: recorded files keep their codes)
+export const VEHICLE_TYPE_CODES: VehicleType[] = [
+  VehicleType.CAR, VehicleType.TRUCK, VehicleType.AUTOMATED, VehicleType.VAN, VehicleType.BUS, VehicleType.MOTORCYCLE
+];
+
+// NGSIM v_Class: 1 motorcycle, 2 auto, 3 truck (buses count as trucks)
+const NGSIM_CLASSES: Record<VehicleType, number> = {
+  [VehicleType.MOTORCYCLE]: 1,
+  [VehicleType.CAR]: 2,
+  [VehicleType.VAN]: 2,
+  [VehicleType.AUTOMATED]: 2,
+  [VehicleType.TRUCK]: 3,
+  [VehicleType.BUS]: 3
+};
+
+const DEFAULT_MAX_ROWS = 5_000_000; // ~320 MB
+const INITIAL_CAPACITY = 4096;
+
+export class TrajectoryRecorder {
+  options: RecorderOptions;
+  rows: number = 0;
+  truncated: boolean = false;
+  finished: boolean = false;
+  nextSample: number;
+  time: Float64Array = new Float64Array(INITIAL_CAPACITY);
+  columns: Record<TrajectoryField, Float32Array>;
+
+  constructor(options: RecorderOptions) {
+    this.options = options;
+    this.nextSample = options.start;
+    this.columns = Object.fromEntries(
+      TRAJECTORY_FIELDS.map(f => [f, new Float32Array(INITIAL_CAPACITY)])
+    ) as Record<TrajectoryField, Float32Array>;
+  }
+
+  get status(): RecorderStatus {
+    const state = this.finished ? 'done' : this.rows > 0 ? 'recording' : 'waiting';
+    return { state, rows: this.rows, truncated: this.truncated };
+  }
+
+  // Call after every model step
+  observe(model: TrafficModel) {
+    if (this.finished || model.time + 1e-9 < this.nextSample) return;
+    const { interval, end } = this.options;
+    if (end !== null && model.time > end + 1e-9) {
+      this.finished = true;
+      return;
+    }
+    while (this.nextSample <= model.time + 1e-9) this.nextSample += interval;
+
+    const maxRows = this.options.maxRows ?? DEFAULT_MAX_ROWS;
+    if (this.rows + model.vehicles.length > maxRows) {
+      this.truncated = true;
+      this.finished = true;
+      return;
+    }
+    this.reserve(this.rows + model.vehicles.length);
+
+    const c = this.columns;
+    for (const veh of model.vehicles) {
+      const leader = model.getLeader(veh, veh.lane);
+      const follower = model.getFollower(veh, veh.lane);
+      const gap = leader ? model.gapBetween(veh, leader) : 0;
+      const i = this.rows++;
+      this.time[i] = model.time;
+      c.id[i] = veh.id;
+      c.type[i] = VEHICLE_TYPE_CODES.indexOf(veh.type);
+      c.x[i] = veh.x;
+      c.y[i] = veh.y;
+      c.lane[i] = veh.lane;
+      c.v[i] = veh.v;
+      c.a[i] = veh.a;
+      c.length[i] = veh.length;
+      c.width[i] = veh.width;
+      c.leaderId[i] = leader ? leader.id : 0;
+      c.gap[i] = gap;
+      c.spacing[i] = leader ? gap + leader.length : 0;
+      c.leaderV[i] = leader ? leader.v : 0;
+      c.followerId[i] = follower ? follower.id : 0;
+    }
+  }
+
+  reserve(rows: number) {
+    if (rows <= this.time.length) return;
+    let capacity = this.time.length;
+    while (capacity < rows) capacity *= 2;
+    const time = new Float64Array(capacity);
+    time.set(this.time);
+    this.time = time;
+    for (const f of TRAJECTORY_FIELDS) {
+      const col = new Float32Array(capacity);
+      col.set(this.columns[f]);
+      this.columns[f] = col;
+    }
+  }
+
+  // Trimmed copy of the data recorded so far
+  recording(model: TrafficModel): TrajectoryRecording {
+    return {
+      interval: this.options.interval,
+      lanes: model.lanes,
+      roadLength: model.roadLength,
+      rows: this.rows,
+      truncated: this.truncated,
+      time: this.time.slice(0, this.rows),
+      columns: Object.fromEntries(
+        TRAJECTORY_FIELDS.map(f => [f, this.columns[f].slice(0, this.rows)])
+      ) as Record<TrajectoryField, Float32Array>
+    };
+  }
+}
+
+// Buffers to transfer when posting a recording between threads
+export function recordingBuffers(rec: TrajectoryRecording): ArrayBuffer[] {
+  return [rec.time.buffer as ArrayBuffer, ...TRAJECTORY_FIELDS.map(f => rec.columns[f].buffer as ArrayBuffer)];
+}
+
+// --- CSV export ---
+
+const FT_PER_M = 3.28084;
+const LANE_WIDTH = 3.7; // m
+
+// Row indices ordered by vehicle id, then time (the order of NGSIM and highD files)
+function rowsByVehicle(rec: TrajectoryRecording): Uint32Array {
+  const order = Uint32Array.from({ length: rec.rows }, (_, i) => i);
+  const { id } = rec.columns;
+  return order.sort((p, q) => id[p] - id[q] || rec.time[p] - rec.time[q]);
+}
+
+const fmt = (x: number, digits = 3) => String(Number(x.toFixed(digits)));
+
+// The CSV exports yield the file in parts of this many rows: a whole recording can exceed the maximum string length
+const CSV_CHUNK_ROWS = 10_000;
+
+function* csvChunks(header: string[], rows: Iterable<number>, line: (i: number) => (string | number)[]): Generator<string> {
+  let lines = [header.join(',')];
+  for (const i of rows) {
+    lines.push(line(i).join(','));
+    if (lines.length >= CSV_CHUNK_ROWS) {
+      yield lines.join('\n') + '\n';
+      lines = [];
+    }
+  }
+  if (lines.length) yield lines.join('\n') + '\n';
+}
+
+// NGSIM US-101 / I-80 layout (feet, ft/s). Lane_ID 1 is the leftmost lane; the acceleration
+// lane follows the rightmost one as in NGSIM. Zone and intersection columns are always 0.
+export function ngsimCsv(rec: TrajectoryRecording): Generator<string> {
+  const header = [
+    'Vehicle_ID', 'Frame_ID', 'Total_Frames', 'Global_Time', 'Local_X', 'Local_Y', 'Global_X', 'Global_Y',
+    'v_length', 'v_Width', 'v_Class', 'v_Vel', 'v_Acc', 'Lane_ID', 'O_Zone', 'D_Zone', 'Int_ID', 'Section_ID',
+    'Direction', 'Movement', 'Preceding', 'Following', 'Space_Headway', 'Time_Headway', 'Location'
+  ];
+  const c = rec.columns;
+  const totalFrames = new Map<number, number>();
+  for (let i = 0; i < rec.rows; i++) totalFrames.set(c.id[i], (totalFrames.get(c.id[i]) ?? 0) + 1);
+
+  return csvChunks(header, rowsByVehicle(rec), i => {
+    const lateral = (c.y[i] + 0.5) * LANE_WIDTH * FT_PER_M;
+    const longitudinal = c.x[i] * FT_PER_M;
+    const vClass = NGSIM_CLASSES[VEHICLE_TYPE_CODES[c.type[i]]];
+    const spacing = c.spacing[i] * FT_PER_M;
+    const timeHeadway = c.leaderId[i] === 0 ? 0 : c.v[i] > 0 ? c.spacing[i] / c.v[i] : 9999.99;
+    return [
+      c.id[i], Math.round(rec.time[i] / rec.interval), totalFrames.get(c.id[i]), Math.round(rec.time[i] * 1000),
+      fmt(lateral), fmt(longitudinal), fmt(lateral), fmt(longitudinal),
+      fmt(c.length[i] * FT_PER_M), fmt(c.width[i] * FT_PER_M), vClass,
+      fmt(c.v[i] * FT_PER_M), fmt(c.a[i] * FT_PER_M), c.lane[i] + 1, 0, 0, 0, 0, 0, 0,
+      Math.max(0, c.leaderId[i]), c.followerId[i], fmt(spacing), fmt(timeHeadway, 2), 'sim'
+    ];
+  });
+}
+
+// highD tracks.csv layout (metres, m/s). The bounding box starts at the rear-left corner;
+// neighbour ids in adjacent lanes are not recorded and written as 0.
+export function highDCsv(rec: TrajectoryRecording): Generator<string> {
+  const header = [
+    'frame', 'id', 'x', 'y', 'width', 'height', 'xVelocity', 'yVelocity', 'xAcceleration', 'yAcceleration',
+    'frontSightDistance', 'backSightDistance', 'dhw', 'thw', 'ttc', 'precedingXVelocity', 'precedingId', 'followingId',
+    'leftPrecedingId', 'leftAlongsideId', 'leftFollowingId', 'rightPrecedingId', 'rightAlongsideId', 'rightFollowingId', 'laneId'
+  ];
+  const c = rec.columns;
+  return csvChunks(header, rowsByVehicle(rec), i => {
+    const rear = c.x[i] - c.length[i];
+    const hasLeader = c.leaderId[i] !== 0;
+    const closing = c.v[i] - c.leaderV[i];
+    return [
+      Math.round(rec.time[i] / rec.interval), c.id[i],
+      fmt(rear), fmt((c.y[i] + 0.5) * LANE_WIDTH - c.width[i] / 2), fmt(c.length[i]), fmt(c.width[i]),
+      fmt(c.v[i]), 0, fmt(c.a[i]), 0,
+      fmt(rec.roadLength - c.x[i]), fmt(rear),
+      fmt(c.spacing[i]), hasLeader && c.v[i] > 0 ? fmt(c.spacing[i] / c.v[i]) : 0,
+      hasLeader && closing > 0 ? fmt(c.gap[i] / closing) : 0,
+      fmt(c.leaderV[i]), Math.max(0, c.leaderId[i]), c.followerId[i],
+      0, 0, 0, 0, 0, 0, c.lane[i] + 1
+    ];
+  });
+}
+
+// --- CSV import ---
+
+const HIGHD_FRAME_INTERVAL = 0.04; // s: highD is recorded at 25 Hz
+const NGSIM_TYPES: Record<number, VehicleType> = { 1: VehicleType.MOTORCYCLE, 2: VehicleType.CAR, 3: VehicleType.TRUCK };
+
+// Reads an NGSIM or highD style CSV (the layouts above, or the original datasets) back into a recording.
+// x is the front position along the direction of travel (highD vehicles driving towards -x are mirrored)
+// and time starts at 0 on the earliest row. highD frames are frameInterval apart.
+export function parseTrajectoryCsv(text: string, frameInterval: number = HIGHD_FRAME_INTERVAL): TrajectoryRecording {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length < 2) throw new Error('Trajectory CSV has no data rows');
+  const header = lines[0].split(',').map(h => h.trim());
+  const ngsim = header.includes('Vehicle_ID');
+  if (!ngsim && !header.includes('xVelocity')) {
+    throw new Error('Unrecognised trajectory CSV: expected NGSIM (Vehicle_ID, ...) or highD (id, xVelocity, ...) columns');
+  }
+  const col = (name: string) => {
+    const k = header.indexOf(name);
+    if (k < 0) throw new Error(`Trajectory CSV has no "${name}" column`);
+    return k;
+  };
+
+  const rows = lines.length - 1;
+  const time = new Float64Array(rows);
+  const c = Object.fromEntries(TRAJECTORY_FIELDS.map(f => [f, new Float32Array(rows)])) as Record<TrajectoryField, Float32Array>;
+  if (ngsim) {
+    const k = {
+      id: col('Vehicle_ID'), time: col('Global_Time'), x: col('Local_Y'), y: col('Local_X'), length: col('v_length'), width: col('v_Width'),
+      cls: col('v_Class'), v: col('v_Vel'), a: col('v_Acc'), lane: col('Lane_ID'), leader: col('Preceding'), follower: col('Following'),
+      spacing: col('Space_Headway')
+    };
+    for (let i = 0; i < rows; i++) {
+      const f = lines[i + 1].split(',').map(Number);
+      time[i] = f[k.time] / 1000;
+      c.id[i] = f[k.id];
+      c.type[i] = VEHICLE_TYPE_CODES.indexOf(NGSIM_TYPES[f[k.cls]] ?? VehicleType.CAR);
+      c.x[i] = f[k.x] / FT_PER_M;
+      c.y[i] = f[k.y] / FT_PER_M / LANE_WIDTH - 0.5;
+      c.lane[i] = f[k.lane] - 1;
+      c.v[i] = f[k.v] / FT_PER_M;
+      c.a[i] = f[k.a] / FT_PER_M;
+      c.length[i] = f[k.length] / FT_PER_M;
+      c.width[i] = f[k.width] / FT_PER_M;
+      c.leaderId[i] = f[k.leader];
+      c.followerId[i] = f[k.follower];
+      c.spacing[i] = f[k.spacing] / FT_PER_M;
+    }
+  } else {
+    const k = {
+      frame: col('frame'), id: col('id'), x: col('x'), y: col('y'), width: col('width'), height: col('height'),
+      v: col('xVelocity'), a: col('xAcceleration'), dhw: col('dhw'), leader: col('precedingId'), follower: col('followingId'), lane: col('laneId')
+    };
+    for (let i = 0; i < rows; i++) {
+      const f = lines[i + 1].split(',').map(Number);
+      const forward = f[k.v] >= 0;
+      time[i] = f[k.frame] * frameInterval;
+      c.id[i] = f[k.id];
+      c.type[i] = VEHICLE_TYPE_CODES.indexOf(VehicleType.CAR);
+      c.x[i] = forward ? f[k.x] + f[k.width] : -f[k.x];
+      c.y[i] = (f[k.y] + f[k.height] / 2) / LANE_WIDTH - 0.5;
+      c.lane[i] = f[k.lane] - 1;
+      c.v[i] = Math.abs(f[k.v]);
+      c.a[i] = forward ? f[k.a] : -f[k.a];
+      c.length[i] = f[k.width];
+      c.width[i] = f[k.height];
+      c.leaderId[i] = f[k.leader];
+      c.followerId[i] = f[k.follower];
+      c.spacing[i] = f[k.dhw];
+    }
+  }
+
+  // Sampling interval: smallest step between consecutive rows of one vehicle
+  let interval = ngsim ? Infinity : frameInterval;
+  for (let i = 1; ngsim && i < rows; i++) {
+    const dt = time[i] - time[i - 1];
+    if (c.id[i] === c.id[i - 1] && dt > 1e-6) interval = Math.min(interval, dt);
+  }
+  if (!Number.isFinite(interval)) interval = 0.1;
+
+  const t0 = time.reduce((min, t) => Math.min(min, t), Infinity);
+  const rowAt = new Map<string, number>();
+  for (let i = 0; i < rows; i++) {
+    time[i] -= t0;
+    rowAt.set(`${c.id[i]}@${Math.round(time[i] / interval)}`, i);
+  }
+  // Net gap and leader speed from the leader's row at the same time
+  for (let i = 0; i < rows; i++) {
+    const j = c.leaderId[i] > 0 ? rowAt.get(`${c.leaderId[i]}@${Math.round(time[i] / interval)}`) : undefined;
+    if (j === undefined) continue;
+    c.gap[i] = c.x[j] - c.length[j] - c.x[i];
+    c.leaderV[i] = c.v[j];
+  }
+
+  return {
+    interval,
+    lanes: c.lane.reduce((max, l) => Math.max(max, l + 1), 1),
+    roadLength: c.x.reduce((max, x) => Math.max(max, x), 0),
+    rows,
+    truncated: false,
+    time,
+    columns: c
+  };
+}
+
+// --- Binary export ---
+// "TRJ1", uint32 header length, JSON header (space-padded to 8-byte alignment),
+// then time as float64[rows] followed by each field in TRAJECTORY_FIELDS order as float32[rows].
+
+const MAGIC = 'TRJ1';
+
+export function encodeTrajectoryBinary(rec: TrajectoryRecording): ArrayBuffer {
+  const meta = { version: 1, rows: rec.rows, interval: rec.interval, lanes: rec.lanes, roadLength: rec.roadLength, truncated: rec.truncated, fields: TRAJECTORY_FIELDS };
+  let headerText = JSON.stringify(meta);
+  while ((8 + headerText.length) % 8 !== 0) headerText += ' ';
+  const header = new TextEncoder().encode(headerText);
+
+  const dataStart = 8 + header.length;
+  const buffer = new ArrayBuffer(dataStart + rec.rows * 8 + TRAJECTORY_FIELDS.length * rec.rows * 4);
+  const bytes = new Uint8Array(buffer);
+  bytes.set(new TextEncoder().encode(MAGIC), 0);
+  new DataView(buffer).setUint32(4, header.length, true);
+  bytes.set(header, 8);
+  new Float64Array(buffer, dataStart, rec.rows).set(rec.time);
+  TRAJECTORY_FIELDS.forEach((f, k) => {
+    new Float32Array(buffer, dataStart + rec.rows * 8 + k * rec.rows * 4, rec.rows).set(rec.columns[f]);
+  });
+  return buffer;
+}
+
+export function decodeTrajectoryBinary(buffer: ArrayBuffer): TrajectoryRecording {
+  const bytes = new Uint8Array(buffer);
+  if (new TextDecoder().decode(bytes.subarray(0, 4)) !== MAGIC) throw new Error('Not a trajectory file (bad magic)');
+  const headerLength = new DataView(buffer).getUint32(4, true);
+  const meta = JSON.parse(new TextDecoder().decode(bytes.subarray(8, 8 + headerLength)));
+  const rows: number = meta.rows;
+  const dataStart = 8 + headerLength;
+  const fields: string[] = meta.fields;
+  const columns = Object.fromEntries(TRAJECTORY_FIELDS.map(f => {
+    const k = fields.indexOf(f);
+    if (k < 0) throw new Error(`Trajectory file has no "${f}" column`);
+    return [f, new Float32Array(buffer.slice(dataStart + rows * 8 + k * rows * 4, dataStart + rows * 8 + (k + 1) * rows * 4))];
+  })) as Record<TrajectoryField, Float32Array>;
+  return {
+    interval: meta.interval,
+    lanes: meta.lanes,
+    roadLength: meta.roadLength,
+    rows,
+    truncated: meta.truncated,
+    time: new Float64Array(buffer.slice(dataStart, dataStart + rows * 8)),
+    columns
+  };
+}
@@ -0,0 +1,129 @@
+import { Distribution, DistributionType, DriverParams, VehicleClassConfig, VehicleType } from '../types';
+import { RandomSource } from './Random';
+
+// Vehicle class registry: each class draws its length, desired speed and driver parameters
+// from its own distributions. The driver factors scale the global T, a and b.
+
+const HEAVY_TYPES = [VehicleType.TRUCK, VehicleType.BUS];
+
+const base = { mean: 0, std: 0, min: 0, max: 0, values: [] as number[] };
+export const normal = (mean: number, std: number, min: number, max: number): Distribution =>
+  ({ ...base, type: DistributionType.NORMAL, mean, std, min, max });
+export const uniform = (min: number, max: number): Distribution =>
+  ({ ...base, type: DistributionType.UNIFORM, mean: (min + max) / 2, min, max });
+export const empirical = (values: number[]): Distribution =>
+  ({ ...base, type: DistributionType.EMPIRICAL, mean: values.reduce((s, v) => s + v, 0) / values.length, values });
+
+export const DEFAULT_VEHICLE_CLASSES: VehicleClassConfig[] = [
+  {
+    id: 1, name: 'Car', type: VehicleType.CAR, shareWithinGroup: 0.8, color: null, width: 2.0,
+    length: normal(4.5, 0.3, 3.6, 5.2), desiredSpeed: uniform(100, 120),
+    timeGap: normal(1, 0.15, 0.6, 1.5), accel: normal(1, 0.15, 0.6, 1.5), decel: normal(1, 0.1, 0.7, 1.3)
+  },
+  {
+    id: 2, name: 'Van', type: VehicleType.VAN, shareWithinGroup: 0.12, color: '#94a3b8', width: 2.1,
+    length: normal(5.5, 0.4, 4.8, 6.5), desiredSpeed: uniform(95, 115),
+    timeGap: normal(1.05, 0.15, 0.7, 1.5), accel: normal(0.8, 0.1, 0.5, 1.1), decel: normal(0.9, 0.1, 0.7, 1.2)
+  },
+  {
+    id: 3, name: 'Motorcycle', type: VehicleType.MOTORCYCLE, shareWithinGroup: 0.08, color: '#f472b6', width: 0.9,
+    length: uniform(2.0, 2.5), desiredSpeed: normal(115, 10, 90, 140),
+    timeGap: normal(0.9, 0.15, 0.5, 1.4), accel: normal(1.5, 0.2, 1, 2), decel: normal(1.1, 0.1, 0.8, 1.4)
+  },
+  {
+    id: 4, name: 'Truck', type: VehicleType.TRUCK, shareWithinGroup: 0.85, color: '#a78bfa', width: 2.6,
+    length: empirical([12, 14, 16.5]), desiredSpeed: uniform(80, 90),
+    timeGap: normal(1.2, 0.1, 1, 1.6), accel: normal(0.6, 0.1, 0.4, 0.9), decel: normal(1, 0.05, 0.8, 1.1)
+  },
+  {
+    id: 5, name: 'Bus', type: VehicleType.BUS, shareWithinGroup: 0.15, color: '#fb923c', width: 2.55,
+    length: empirical([12, 13.5, 18]), desiredSpeed: uniform(90, 100),
+    timeGap: normal(1.2, 0.1, 1, 1.6), accel: normal(0.7, 0.1, 0.5, 1), decel: normal(1, 0.05, 0.8, 1.1)
+  }
+];
+
+export const isHeavy = (type: VehicleType) => HEAVY_TYPES.includes(type);
+
+export function sampleDistribution(d: Distribution, rng: RandomSource): number {
+  switch (d.type) {
+    case DistributionType.NORMAL: {
+      // Box-Muller
+      const u = 1 - rng.next();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng.next());
+      return Math.max(d.min, Math.min(d.max, d.mean + d.std * z));
+    }
+    case DistributionType.UNIFORM:
+      return d.min + (d.max - d.min) * rng.next();
+    case DistributionType.EMPIRICAL:
+      return d.values.length ? d.values[Math.floor(rng.next() * d.values.length)] : d.mean;
+  }
+}
+
+// Mean and standard deviation of a distribution
+export function moments(d: Distribution): { mean: number; std: number } {
+  switch (d.type) {
+    case DistributionType.NORMAL:
+      return { mean: d.mean, std: d.std };
+    case DistributionType.UNIFORM:
+      return { mean: (d.min + d.max) / 2, std: (d.max - d.min) / Math.sqrt(12) };
+    case DistributionType.EMPIRICAL: {
+      const n = Math.max(1, d.values.length);
+      const mean = d.values.reduce((s, v) => s + v, 0) / n;
+      return { mean, std: Math.sqrt(d.values.reduce((s, v) => s + (v - mean) ** 2, 0) / n) };
+    }
+  }
+}
+
+// Same mean and spread under another type (normal draws are clamped to +-3 std, never below 0)
+export function withType(d: Distribution, type: DistributionType): Distribution {
+  const { mean, std } = moments(d);
+  switch (type) {
+    case DistributionType.NORMAL:
+      return normal(mean, std, Math.max(0, mean - 3 * std), mean + 3 * std);
+    case DistributionType.UNIFORM:
+      return uniform(Math.max(0, mean - Math.sqrt(3) * std), mean + Math.sqrt(3) * std);
+    case DistributionType.EMPIRICAL:
+      return empirical(std > 0 ? [Math.max(0, mean - std), mean, mean + std] : [mean]);
+  }
+}
+
+// Same shape moved by delta
+export function shifted(d: Distribution, delta: number): Distribution {
+  return { ...d, mean: d.mean + delta, min: d.min + delta, max: d.max + delta, values: d.values.map(v => v + delta) };
+}
+
+// Expected value of a per-class quantity over the class mix that pickClass draws from
+export function classMean(classes: VehicleClassConfig[], heavyShare: number, value: (cls: VehicleClassConfig) => number): number {
+  const heavy = classes.filter(c => c.shareWithinGroup > 0 && isHeavy(c.type));
+  const light = classes.filter(c => c.shareWithinGroup > 0 && !isHeavy(c.type));
+  const groupMean = (group: VehicleClassConfig[]) =>
+    group.reduce((s, c) => s + c.shareWithinGroup * value(c), 0) / group.reduce((s, c) => s + c.shareWithinGroup, 0);
+  if (heavy.length === 0 && light.length === 0) return value(classes[0] ?? DEFAULT_VEHICLE_CLASSES[0]);
+  if (heavy.length === 0) return groupMean(light);
+  if (light.length === 0) return groupMean(heavy);
+  return heavyShare * groupMean(heavy) + (1 - heavyShare) * groupMean(light);
+}
+
+// heavyShare picks the group, then shareWithinGroup picks a class within it (the other group if one is empty)
+export function pickClass(classes: VehicleClassConfig[], heavyShare: number, rng: RandomSource): VehicleClassConfig {
+  const heavy = classes.filter(c => c.shareWithinGroup > 0 && isHeavy(c.type));
+  const light = classes.filter(c => c.shareWithinGroup > 0 && !isHeavy(c.type));
+  let group = rng.next() < heavyShare ? heavy : light;
+  if (group.length === 0) group = heavy.length ? heavy : light;
+  if (group.length === 0) return classes[0] ?? DEFAULT_VEHICLE_CLASSES[0];
+
+  let r = rng.next() * group.reduce((s, c) => s + c.shareWithinGroup, 0);
+  for (const cls of group) {
+    r -= cls.shareWithinGroup;
+    if (r < 0) return cls;
+  }
+  return group[group.length - 1];
+}
+
+export function sampleDriver(cls: VehicleClassConfig, rng: RandomSource): DriverParams {
+  return {
+    timeGap: Math.max(0.1, sampleDistribution(cls.timeGap, rng)),
+    accel: Math.max(0.1, sampleDistribution(cls.accel, rng)),
+    decel: Math.max(0.1, sampleDistribution(cls.decel, rng))
+  };
+}
@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG } from '../services/Scenario';
+import { runBatch } from '../services/BatchRunner';
+
+test('rejects a sweep value outside the config schema before running any cell', () => {
+  let runs = 0;
+  assert.throws(
+    () => runBatch({ config: {}, duration: 60, sweep: { timeStep: [0.1, 0] } }, () => runs++),
+    /sweep cell 1 \(timeStep=0\):\n {2}config\.timeStep: expected a number between 0\.001 and 2, got 0/
+  );
+  assert.throws(() => runBatch({ config: {}, duration: 60, sweep: { lanes: [3, 10] } }), /sweep cell 1 \(lanes=10\)/);
+  assert.equal(runs, 0);
+});
+
+test('rejects an inflowRate sweep while the demand profile sets the inflow', () => {
+  const config = { demand: { ...DEFAULT_CONFIG.demand, enabled: true } };
+  assert.throws(() => runBatch({ config, duration: 60, sweep: { inflowRate: [1000, 2000] } }), /sweep\.inflowRate/);
+});
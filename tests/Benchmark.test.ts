@@ -0,0 +1,22 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DT } from '../services/TrafficPhysics';
+import { runBenchmark, runBenchmarkCase } from '../services/Benchmark';
+
+const small = { vehicles: 20, roadLength: 1000, lanes: 1 };
+
+test('times only the measured steps and converts them to a real-time factor', () => {
+  const readings = [100, 160]; // ms: one reading before and one after the timed steps
+  const result = runBenchmarkCase(small, 30, 10, () => readings.shift()!);
+  assert.equal(readings.length, 0);
+  assert.deepEqual(result, { ...small, steps: 30, msPerStep: 2, realtimeFactor: (DT * 1000) / 2 });
+});
+
+test('runs every case in order and reports each as it finishes', () => {
+  const cases = [small, { ...small, vehicles: 40 }];
+  const reported: number[] = [];
+  const results = runBenchmark(cases, 5, r => reported.push(r.vehicles));
+  assert.deepEqual(reported, [20, 40]);
+  assert.deepEqual(results.map(r => r.steps), [5, 5]);
+  assert.ok(results.every(r => r.msPerStep >= 0 && r.realtimeFactor > 0));
+});
@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from '../services/Scenario';
+import { TrafficModel } from '../services/TrafficPhysics';
+import { TrajectoryRecorder } from '../services/TrajectoryRecorder';
+import { CALIBRATION_PARAMS, calibrate } from '../services/Calibration';
+import { DEFAULT_VEHICLE_CLASSES, normal, uniform } from '../services/VehicleClasses';
+
+const fixed = (x: number) => normal(x, 0, x, x);
+
+// Identical cars on one lane, stopped for 40 s by a blocked lane so the data covers the whole speed range
+const truth: SimulationConfig = {
+  ...DEFAULT_CONFIG,
+  lanes: 1,
+  roadLength: 2000,
+  inflowRate: 1500,
+  truckRatio: 0,
+  accelerationNoise: 0,
+  safeTimeGap: 1.5,
+  maxAccel: 1.0,
+  vehicleClasses: [{
+    ...DEFAULT_VEHICLE_CLASSES[0],
+    length: fixed(4.5), desiredSpeed: uniform(108, 108), timeGap: fixed(1), accel: fixed(1), decel: fixed(1)
+  }],
+  incidents: [{ id: 1, position: 1500, lanes: [0], startTime: 60, duration: 40, rubberneckSpeed: null }]
+};
+
+test('recovers the IDM parameters from trajectories generated with them', () => {
+  const model = new TrafficModel(truth.roadLength, truth.seed);
+  const recorder = new TrajectoryRecorder({ interval: 0.5, start: 0, end: 240 });
+  while (model.time < 240) {
+    model.step(truth);
+    recorder.observe(model);
+  }
+
+  const start = CALIBRATION_PARAMS.desiredSpeed.set({ ...truth, safeTimeGap: 1.0, maxAccel: 2.0 }, 90);
+  const result = calibrate(
+    start,
+    { type: 'trajectories', recording: recorder.recording(model), measure: 'gap' },
+    { params: ['safeTimeGap', 'maxAccel', 'desiredSpeed'], method: 'nelderMead', maxEvaluations: 150 }
+  );
+
+  assert.ok(result.error < 0.01, `gap RMSPE ${result.error}`);
+  assert.ok(Math.abs(result.params.safeTimeGap! - 1.5) < 0.05, `T = ${result.params.safeTimeGap}`);
+  assert.ok(Math.abs(result.params.maxAccel! - 1.0) < 0.05, `a = ${result.params.maxAccel}`);
+  assert.ok(Math.abs(result.params.desiredSpeed! - 108) < 2, `v0 = ${result.params.desiredSpeed}`);
+});
@@ -0,0 +1,13 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CarFollowingModelType } from '../types';
+import { DEFAULT_CONFIG } from '../services/Scenario';
+import { runReplication } from '../services/BatchRunner';
+
+// Gipps and Krauss plan over their reaction time; at the engine's step they must still never overlap
+for (const model of [CarFollowingModelType.GIPPS, CarFollowingModelType.KRAUSS]) {
+  test(`${model} keeps vehicles apart in dense open-road traffic`, () => {
+    const result = runReplication({ ...DEFAULT_CONFIG, inflowRate: 4000, carFollowingModel: model }, 600);
+    assert.equal(result.integration.overlapEvents, 0);
+  });
+}
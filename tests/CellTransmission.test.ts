@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BoundaryCondition, SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from '../services/Scenario';
+import { CellTransmissionModel, fitTriangularFd, waveSpeed } from '../services/CellTransmission';
+
+const macro = { ...DEFAULT_CONFIG.macro, enabled: true };
+const sum = (xs: Float64Array) => xs.reduce((s, x) => s + x, 0);
+
+// Run the CTM alone, at the micro time step, for `seconds` from `time`
+function run(ctm: CellTransmissionModel, config: SimulationConfig, time: number, seconds: number, ring: boolean): number {
+  for (let i = 0; i < Math.round(seconds / config.timeStep); i++) {
+    time += config.timeStep;
+    ctm.update(config, time, config.timeStep, [], ring);
+  }
+  return time;
+}
+
+test('conserves the vehicles on a closed ring', () => {
+  const config: SimulationConfig = { ...DEFAULT_CONFIG, boundary: BoundaryCondition.RING, lanes: 2, roadLength: 2000, macro };
+  const ctm = new CellTransmissionModel();
+  ctm.update(config, 0, config.timeStep, [], true);
+  // A queue at jam density behind an empty stretch
+  ctm.count.forEach((_, i) => ctm.count[i] = i < 5 ? 2 * 0.1 * macro.jamDensity : i < 10 ? 5 : 0);
+  const total = sum(ctm.count);
+
+  run(ctm, config, 0, 600, true);
+  assert.ok(Math.abs(sum(ctm.count) - total) < 1e-6, `${sum(ctm.count)} of ${total} vehicles`);
+  assert.ok(ctm.count.every(c => c <= 2 * 0.1 * macro.jamDensity + 1e-9));
+});
+
+test('caps the flow through the road at capacity', () => {
+  const config: SimulationConfig = { ...DEFAULT_CONFIG, lanes: 2, roadLength: 3000, inflowRate: 6000, macro };
+  const ctm = new CellTransmissionModel();
+  const left = (time: number) => (config.inflowRate / 3600) * time - ctm.entryQueue - sum(ctm.count);
+
+  let time = run(ctm, config, 0, 600, false);
+  const before = left(time);
+  time = run(ctm, config, time, 600, false);
+  const outflow = (left(time) - before) * 6; // veh/h over the last 10 min
+
+  assert.ok(ctm.entryQueue > 0, 'demand above capacity queues at the entry');
+  assert.ok(Math.abs(outflow - 2 * macro.capacity) < 0.01 * macro.capacity, `outflow ${outflow} veh/h`);
+});
+
+test('fits the triangular diagram that generated the points', () => {
+  const truth = { freeSpeed: 110, capacity: 2000, jamDensity: 140 };
+  const kc = truth.capacity / truth.freeSpeed;
+  const w = waveSpeed(truth);
+  const points = Array.from({ length: 40 }, (_, i) => {
+    const k = (i + 1) * 3; // veh/km/lane
+    return { k: 3 * k, q: 3 * (k <= kc ? truth.freeSpeed * k : w * (truth.jamDensity - k)) };
+  });
+  assert.deepEqual(fitTriangularFd(points, 3, DEFAULT_CONFIG.macro), truth);
+});
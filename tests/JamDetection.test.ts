@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JamEventType, Vehicle } from '../types';
+import { DEFAULT_JAM_DETECTION, JamDetector } from '../services/JamDetection';
+
+const ROAD = 5000;
+const WAVE_SPEED = -15; // km/h
+
+// Vehicles every 5 m on one lane, crawling inside a 300 m stop-and-go wave that starts at 3 km and moves
+// upstream at WAVE_SPEED, free-flowing elsewhere
+function road(time: number, ring: boolean, start = 3000): Vehicle[] {
+  const tail = start + (WAVE_SPEED / 3.6) * time;
+  const wrap = (x: number) => ring ? ((x % ROAD) + ROAD) % ROAD : x;
+  return Array.from({ length: ROAD / 5 }, (_, i) => {
+    const x = i * 5 + 2.5;
+    const d = wrap(x - tail);
+    const inWave = d >= 0 && d < 300;
+    return { id: i, x, lane: 0, length: 4, v: inWave ? 2 : 25 } as Vehicle;
+  });
+}
+
+function track(ring: boolean, start?: number) {
+  const detector = new JamDetector();
+  for (let t = 0; t <= 60; t++) detector.update(road(t, ring, start), t, 1, ROAD, ring, DEFAULT_JAM_DETECTION);
+  return detector.stats();
+}
+
+test('finds a stop-and-go wave and its upstream propagation speed', () => {
+  const { jams, events, formed } = track(false);
+  assert.equal(formed, 1);
+  assert.deepEqual(events.map(e => e.type), [JamEventType.FORMED]);
+  assert.equal(jams.length, 1);
+  const [jam] = jams;
+  assert.ok(Math.abs(jam.length - 300) < 10, `length ${jam.length}`);
+  assert.ok(Math.abs(jam.upstreamSpeed! - WAVE_SPEED) < 1, `tail ${jam.upstreamSpeed} km/h`);
+  assert.ok(Math.abs(jam.downstreamSpeed! - WAVE_SPEED) < 1, `head ${jam.downstreamSpeed} km/h`);
+  assert.ok(Math.abs(jam.meanSpeed - 7.2) < 0.5, `speed ${jam.meanSpeed} km/h`);
+});
+
+test('keeps tracking one jam while it crosses the ring seam', () => {
+  const { jams, formed } = track(true, 100);
+  assert.equal(formed, 1);
+  assert.equal(jams.length, 1);
+  assert.ok(Math.abs(jams[0].upstreamSpeed! - WAVE_SPEED) < 1, `tail ${jams[0].upstreamSpeed} km/h`);
+});
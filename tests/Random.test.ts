@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from '../services/Scenario';
+import { TrafficModel } from '../services/TrafficPhysics';
+
+// On-ramp and exit so every random stream (demand, vehicle, noise, ramp demand, route) is drawn from
+const config: SimulationConfig = {
+  ...DEFAULT_CONFIG,
+  inflowRate: 3000,
+  onRamps: [{ id: 1, position: 1500, length: 250, inflowRate: 600 }],
+  offRamps: [{ id: 1, position: 3500, share: 0.2 }]
+};
+
+const run = (seed: number) => {
+  const model = new TrafficModel(config.roadLength, seed);
+  for (let i = 0; i < 3600; i++) model.step({ ...config, seed });
+  return model.vehicles.map(({ id, type, x, v, a, lane, length, targetSpeed, exitId }) => ({ id, type, x, v, a, lane, length, targetSpeed, exitId }));
+};
+
+test('the same seed and config give identical vehicle states', () => {
+  const first = run(7);
+  assert.ok(first.length > 50);
+  assert.deepEqual(run(7), first);
+});
+
+test('a different seed gives different vehicle states', () => {
+  assert.notDeepEqual(run(8), run(7));
+});
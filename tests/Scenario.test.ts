@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BoundaryCondition, CarFollowingModelType } from '../types';
+import { DEFAULT_SCENARIO_CONFIG, SCENARIO_VERSION, decodeScenarioHash, encodeScenarioHash, parseScenario, toScenario } from '../services/Scenario';
+import { SCENARIO_PRESETS } from '../services/ScenarioPresets';
+
+test('a scenario survives the round trip through the URL hash', () => {
+  for (const scenario of SCENARIO_PRESETS) {
+    const decoded = decodeScenarioHash('#' + encodeScenarioHash(scenario));
+    assert.deepEqual(decoded, { scenario, errors: [] });
+  }
+
+  const config = {
+    ...DEFAULT_SCENARIO_CONFIG,
+    boundary: BoundaryCondition.RING,
+    lanes: 2,
+    roadLength: 1234.5,
+    carFollowingModel: CarFollowingModelType.GIPPS,
+    idm: { ...DEFAULT_SCENARIO_CONFIG.idm, delta: 3 },
+    incidents: [{ id: 7, position: 600, lanes: [1], startTime: 30, duration: 90, rubberneckSpeed: 40 }]
+  };
+  const scenario = toScenario({ ...config, isPaused: true, timeScale: 4, maxSpeed: false }, 'Ümlaut ring ✓', 'Non-ASCII text too');
+  assert.deepEqual(decodeScenarioHash(encodeScenarioHash(scenario))?.scenario?.config, config);
+});
+
+test('a hash without a scenario decodes to null, a corrupted one to an error', () => {
+  assert.equal(decodeScenarioHash('#view=3'), null);
+  assert.deepEqual(decodeScenarioHash('#scenario=%%%'), { scenario: null, errors: ['The scenario in the link is corrupted (not valid base64)'] });
+});
+
+test('reports every bad field with its path, the expected value and what it got', () => {
+  const { scenario, errors } = parseScenario({
+    version: SCENARIO_VERSION,
+    config: { lanes: 9, boundary: 'LOOP', idm: { delta: 'four' }, incidents: [{ id: 1 }], colour: 'red' }
+  });
+  assert.equal(scenario, null);
+  assert.deepEqual(errors, [
+    'config.colour: unknown field',
+    'config.lanes: expected an integer between 1 and 6, got 9',
+    'config.boundary: expected one of "OPEN", "RING", got "LOOP"',
+    'config.idm.delta: expected a number between 1 and 10, got "four"',
+    'config.incidents[0].position: missing (expected a number >= 0)',
+    'config.incidents[0].lanes: missing (expected a list)',
+    'config.incidents[0].startTime: missing (expected a number >= 0)',
+    'config.incidents[0].duration: missing (expected a number >= 0)',
+    'config.incidents[0].rubberneckSpeed: missing (expected a number between 5 and 200 or null)'
+  ]);
+});
+
+test('rejects fields that contradict each other', () => {
+  const { errors } = parseScenario({
+    version: SCENARIO_VERSION,
+    config: { lanes: 2, roadLength: 1000, detectors: [{ id: 1, position: 1500, interval: 60 }], incidents: [{ id: 1, position: 500, lanes: [2], startTime: 0, duration: 60, rubberneckSpeed: null }] }
+  });
+  assert.deepEqual(errors, [
+    'config.detectors[0].position: 1500 m is beyond the end of the road (1000 m)',
+    'config.incidents[0].lanes[0]: lane 2 does not exist on a 2-lane road'
+  ]);
+});
+
+test('caps the ring vehicles at what fits on the road', () => {
+  const ring = (ringVehicles: number) => parseScenario({ version: SCENARIO_VERSION, config: { lanes: 1, roadLength: 700, ringVehicles } }).errors;
+  assert.deepEqual(ring(100), []);
+  assert.deepEqual(ring(101), ['config.ringVehicles: 101 vehicles do not fit on 1 x 700 m (at most 100)']);
+  assert.match(ring(1e9)[0], /^config\.ringVehicles: expected an integer between 0 and \d+, got 1000000000$/);
+});
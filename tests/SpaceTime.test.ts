@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SpaceTimeBuffer, SpaceTimePoint, speedToColor } from '../services/SpaceTime';
+
+const point = (id: number, x: number, lane = 0, v = 20): SpaceTimePoint => ({ id, x, lane, v, a: 0 });
+
+test('samples at the interval and keeps only the window', () => {
+  const buffer = new SpaceTimeBuffer(1);
+  const taken: number[] = [];
+  for (let t = 0; t <= 10; t += 0.25) {
+    if (buffer.record(t, [point(1, t * 20)], 5)) taken.push(t);
+  }
+  assert.deepEqual(taken, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  assert.deepEqual(buffer.samples.map(s => s.t), [5, 6, 7, 8, 9, 10]);
+});
+
+test('starts over when the model is reset', () => {
+  const buffer = new SpaceTimeBuffer(1);
+  buffer.record(50, [point(1, 0)], 60);
+  buffer.record(51, [point(1, 20)], 60);
+  assert.equal(buffer.record(0, [point(2, 0)], 60), true);
+  assert.deepEqual(buffer.samples.map(s => s.t), [0]);
+});
+
+test('finds the closest vehicle at the closest sample time', () => {
+  const buffer = new SpaceTimeBuffer(1);
+  buffer.record(0, [point(1, 100), point(2, 200, 1)], 60);
+  buffer.record(1, [point(1, 120), point(2, 215, 1), point(3, 180)], 60);
+
+  assert.equal(buffer.nearest(0.8, 190, null, 50)?.point.id, 3);
+  assert.equal(buffer.nearest(0.8, 190, 1, 50)?.point.id, 2);
+  assert.equal(buffer.nearest(0.2, 190, 0, 100)?.point.id, 1);
+  assert.equal(buffer.nearest(0.2, 190, 0, 50), null);
+});
+
+test('colours speeds from red when stopped to green at the top of the scale', () => {
+  assert.equal(speedToColor(0), 'hsl(0, 85%, 50%)');
+  assert.equal(speedToColor(60), 'hsl(60, 85%, 50%)');
+  assert.equal(speedToColor(200), 'hsl(120, 85%, 50%)');
+});
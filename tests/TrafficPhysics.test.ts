@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BoundaryCondition, SimulationConfig } from '../types';
+import { DEFAULT_CONFIG } from '../services/Scenario';
+import { TrafficModel } from '../services/TrafficPhysics';
+
+// A single car on a ring, which passes the site before the lane closes and then meets it again across the seam
+const ring: SimulationConfig = {
+  ...DEFAULT_CONFIG,
+  boundary: BoundaryCondition.RING,
+  lanes: 1,
+  roadLength: 1000,
+  ringVehicles: 1,
+  accelerationNoise: 0,
+  incidents: [{ id: 1, position: 5, lanes: [0], startTime: 5, duration: 1000, rubberneckSpeed: null }]
+};
+
+test('a blockage just past the ring seam is seen from the end of the road', () => {
+  const model = new TrafficModel(ring.roadLength, ring.seed);
+  let hardestBraking = 0;
+  while (model.time < 120) {
+    model.step(ring);
+    hardestBraking = Math.min(hardestBraking, model.vehicles[0].a);
+  }
+
+  const [car] = model.vehicles;
+  assert.ok(car.v < 0.1 && car.x < 5, `stopped at x = ${car.x}, v = ${car.v}`);
+  assert.ok(hardestBraking > -ring.idm.comfortDecel * 3, `braked at ${hardestBraking} m/s²`);
+});
+
+test('removing lanes at runtime does not drop vehicles onto others', () => {
+  const config: SimulationConfig = { ...DEFAULT_CONFIG, inflowRate: 4000 };
+  const model = new TrafficModel(config.roadLength, config.seed);
+  while (model.time < 120) model.step(config);
+  const { overlapEvents } = model.integration;
+  const crashes = model.getStats().safety.counts.CRASH;
+
+  const narrow = { ...config, lanes: 1 };
+  while (model.time < 150) model.step(narrow);
+  assert.ok(model.vehicles.every(veh => veh.lane === 0));
+  assert.equal(model.integration.overlapEvents, overlapEvents);
+  assert.equal(model.getStats().safety.counts.CRASH, crashes);
+});
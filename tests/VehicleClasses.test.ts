@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Mulberry32 } from '../services/Random';
+import { DEFAULT_VEHICLE_CLASSES, pickClass } from '../services/VehicleClasses';
+
+test('a class makes up its group share times the heavy or light share of all vehicles', () => {
+  const rng = new Mulberry32(1);
+  const draws = 100000;
+  const counts = new Map<string, number>();
+  for (let i = 0; i < draws; i++) {
+    const { name } = pickClass(DEFAULT_VEHICLE_CLASSES, 0.15, rng);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  const expected: Record<string, number> = { Car: 0.68, Van: 0.102, Motorcycle: 0.068, Truck: 0.1275, Bus: 0.0225 };
+  for (const [name, share] of Object.entries(expected)) {
+    assert.ok(Math.abs(counts.get(name)! / draws - share) < 0.005, `${name}: ${counts.get(name)! / draws}`);
+  }
+});
@@ -1,12 +1,23 @@
 export enum VehicleType {
   CAR = 'CAR',
-  TRUCK = 'TRUCK'
+  TRUCK = 'TRUCK',
+  AUTOMATED = 'AUTOMATED', // Automated car: ACC, or CACC when following another automated vehicle
+  VAN = 'VAN',
+  BUS = 'BUS',
+  MOTORCYCLE = 'MOTORCYCLE'
+}
+
+// Driver parameters of one vehicle, as factors on the global reference values
+export interface DriverParams {
+  timeGap: number; // x safeTimeGap (T)
+  accel: number;   // x maxAccel (a)
+  decel: number;   // x comfortable / maximum deceleration (b)
 }
 
 export interface Vehicle {
   id: number;
   x: number;          // Position (m)
-  y: number;          // Lateral position (lane index 0-2, continuous for animation)
+  y: number;          // Lateral position (lane index, continuous for animation)
   lane: number;       // Target lane index (integer)
   v: number;          // Speed (m/s)
   a: number;          // Acceleration (m/s^2)
@@ -14,29 +25,492 @@ export interface Vehicle {
   width: number;      // Width (m)
   color: string;      // Color hex
   type: VehicleType;
+  classId: number;    // Vehicle class it was drawn from (-1 for obstacles)
+  driver: DriverParams;
   laneChangeTimer: number; // Cooldown for lane changes
   laneChangeDirection: -1 | 0 | 1; // -1 left, 1 right, 0 none
   targetSpeed: number; // Desired speed (m/s)
+  exitId: number | null; // Off-ramp this vehicle wants to leave at
+  platoonId: number | null; // Automated vehicles: id of the platoon's lead vehicle (own id when not connected)
+  platoonIndex: number;     // Position in the platoon (0 = lead)
+  emissionRate: number;     // CO2 g/s over the last step
+}
+
+export enum BoundaryCondition {
+  OPEN = 'OPEN', // Inflow at x=0, outflow at roadLength
+  RING = 'RING'  // Closed ring: vehicles leaving at roadLength re-enter at x=0
+}
+
+export enum CarFollowingModelType {
+  IDM = 'IDM',       // Intelligent Driver Model (Treiber et al.)
+  GIPPS = 'GIPPS',   // Gipps safe-speed model
+  OVM = 'OVM',       // Optimal Velocity Model (Bando et al.)
+  KRAUSS = 'KRAUSS', // Krauss model (SUMO default)
+  ACC = 'ACC'        // ACC model with constant-acceleration heuristic (Kesting et al.)
+}
+
+export enum IntegrationScheme {
+  EULER = 'EULER',         // Semi-implicit Euler: speed first, then position with the new speed
+  BALLISTIC = 'BALLISTIC', // Constant acceleration over the step (Treiber & Kanagaraj 2015)
+  RK4 = 'RK4'              // Classic 4th-order Runge-Kutta on the coupled (x, v) system
+}
+
+// Numerical health of the integration since the last reset
+export interface IntegrationDiagnostics {
+  overlaps: number;         // Follower/leader pairs currently overlapping (negative gap)
+  overlapEvents: number;    // Pairs that started overlapping
+  negativeGapSteps: number; // Vehicle-steps spent with a negative gap
+  speedClamps: number;      // Updates that would have produced a negative speed
+  minGap: number | null;    // Smallest gap seen (m)
 }
 
 export interface SimulationStats {
+  time: number;     // Simulation time (s)
   count: number;
   avgSpeed: number; // km/h
   density: number;  // veh/km
   flow: number;     // veh/h (estimated)
   points: {k: number, q: number}[]; // For Fundamental Diagram (k=density, q=flow)
+  detectors: DetectorMeasurement[]; // Latest completed interval per detector
+  detectorPoints: {detectorId: number, k: number, q: number}[]; // Per-detector FD history
+  platoons: PlatoonStats;
+  integration: IntegrationDiagnostics;
+  demand: number;   // veh/h: current mainline inflow demand (0 on the ring)
+  emissions: EmissionStats;
+  safety: SafetyStats;
+  control: ControlStats;
+  macro: MacroStats | null; // null while the macroscopic model is off
+  jams: JamStats;
+}
+
+// Fuel and CO2 since the last reset
+export interface EmissionStats {
+  fuel: number;          // L
+  co2: number;           // kg
+  distance: number;      // Vehicle-km travelled
+  vehicles: number;      // Vehicles that entered the road (or were placed on the ring)
+  fuelPer100Km: number;  // L per 100 vehicle-km
+  co2PerKm: number;      // g per vehicle-km
+  co2PerVehicle: number; // g per vehicle
+  co2Rate: number;       // kg/h emitted by the vehicles currently on the road
+}
+
+export enum ConflictType {
+  TTC = 'TTC',     // Time-to-collision below threshold
+  DRAC = 'DRAC',   // Deceleration rate to avoid a crash above threshold
+  PET = 'PET',     // Post-encroachment time below threshold
+  CRASH = 'CRASH'  // Physical overlap of a follower with its leader
+}
+
+// Surrogate safety thresholds
+export interface SafetyConfig {
+  ttcThreshold: number;  // s
+  dracThreshold: number; // m/s^2
+  petThreshold: number;  // s
+  binSize: number;       // m: hotspot map resolution and spacing of the PET reference lines
+}
+
+// One conflict episode between a follower and its leader, at its most severe moment
+export interface ConflictEvent {
+  type: ConflictType;
+  time: number;     // s
+  position: number; // m (follower front)
+  lane: number;
+  followerId: number;
+  leaderId: number;
+  value: number;    // TTC / PET (s), DRAC (m/s^2) or overlap depth (m)
+}
+
+export interface ConflictHistogramBin {
+  type: ConflictType;
+  from: number;
+  to: number | null; // null = open-ended
+  count: number;
+}
+
+export interface SafetyStats {
+  counts: Record<ConflictType, number>; // Events since reset
+  events: ConflictEvent[];              // Most recent first
+  histogram: ConflictHistogramBin[];    // Severity distribution of TTC, DRAC and PET events
+  hotspots: { position: number; counts: Record<ConflictType, number> }[]; // Events per road section (start m)
+}
+
+export interface PlatoonStats {
+  automated: number;   // Automated vehicles on the road
+  platoons: number;    // Connected platoons (2+ vehicles)
+  meanSize: number;    // Mean size of connected platoons
+  maxSize: number;
+  sizes: number[];     // sizes[n] = number of platoons with n vehicles (n >= 1; singles included)
 }
 
 export interface SimulationConfig {
-  inflowRate: number; // veh/h
-  timeScale: number;
-  truckRatio: number; // 0-1
+  inflowRate: number; // veh/h (constant demand, unless a demand profile is enabled)
+  timeScale: number; // Playback speed: simulated seconds per wall-clock second
+  maxSpeed: boolean;  // Run as fast as possible, ignoring timeScale
+  timeStep: number;   // Integration step (s), independent of playback speed
+  integrator: IntegrationScheme;
+  truckRatio: number; // 0-1 share of heavy vehicles (trucks and buses)
+  automatedRatio: number; // 0-1 share of cars that are automated (penetration rate)
   isPaused: boolean;
   roadLength: number; // meters
+  lanes: number; // 1-6
+  boundary: BoundaryCondition;
+  ringVehicles: number; // Fixed vehicle count in RING mode (placed evenly on reset)
+  seed: number; // PRNG seed for reproducible runs
   
   // Advanced Physics Parameters
   politeness: number; // MOBIL 'p' factor (0=egoistic, 1=altruistic)
+  laneChange: LaneChangeParams;
   safeTimeGap: number; // IDM 'T' (seconds)
   maxAccel: number; // IDM 'a' (m/s^2)
   accelerationNoise: number; // 0-1 magnitude of random noise
-}
\ No newline at end of file
+
+  // Vehicle mix: truckRatio splits heavy from light, each class's shareWithinGroup splits its group
+  vehicleClasses: VehicleClassConfig[];
+
+  // Time-varying mainline demand (replaces inflowRate / truckRatio while enabled)
+  demand: DemandProfile;
+
+  // Car-following model and per-model parameters (maxAccel / safeTimeGap are reference values, scaled per driver)
+  carFollowingModel: CarFollowingModelType;
+  idm: IdmParams;
+  gipps: GippsParams;
+  ovm: OvmParams;
+  krauss: KraussParams;
+  acc: AccParams;
+
+  // Automated vehicles (fixed controllers, no acceleration noise)
+  automation: AutomationParams;
+
+  // Road geometry
+  onRamps: OnRampConfig[];
+  offRamps: OffRampConfig[];
+
+  // Incidents (times in simulation seconds)
+  incidents: Incident[];
+
+  // Speed control
+  speedLimits: SpeedLimitZone[];
+  vsl: VslConfig;
+
+  // Signals and ramp metering
+  signals: SignalConfig[];
+  rampMeters: RampMeterConfig[];
+
+  // Surrogate safety measures
+  safety: SafetyConfig;
+
+  // Measurement
+  detectors: DetectorConfig[];
+
+  // Macroscopic model run alongside for comparison
+  macro: MacroConfig;
+
+  // Congested region detection and tracking
+  jamDetection: JamDetectionConfig;
+}
+
+// Shareable experiment setup: everything except playback settings
+export type ScenarioConfig = Omit<SimulationConfig, 'isPaused' | 'timeScale' | 'maxSpeed'>;
+
+export interface Scenario {
+  version: number; // Format version (see SCENARIO_VERSION)
+  name: string;
+  description?: string;
+  config: ScenarioConfig;
+}
+
+export enum DemandInterpolation {
+  LINEAR = 'LINEAR', // Piecewise-linear between points
+  STEP = 'STEP'      // Each point's value holds until the next point
+}
+
+export interface DemandPoint {
+  time: number;       // s
+  inflowRate: number; // veh/h
+  truckRatio: number; // 0-1, used when the profile varies the truck share
+}
+
+export interface DemandProfile {
+  enabled: boolean;
+  interpolation: DemandInterpolation;
+  points: DemandPoint[];        // Ascending in time; held constant before the first and after the last
+  laneSplit: number[] | null;   // Relative share of the inflow per lane (left to right), null = emptiest lane first
+  varyTruckRatio: boolean;      // Take the truck share from the profile instead of truckRatio
+}
+
+export enum DistributionType {
+  NORMAL = 'NORMAL',       // mean, std; clamped to [min, max]
+  UNIFORM = 'UNIFORM',     // [min, max]
+  EMPIRICAL = 'EMPIRICAL'  // One of the observed values, each equally likely
+}
+
+// Parameter distribution of a vehicle class (fields unused by the type are ignored)
+export interface Distribution {
+  type: DistributionType;
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+  values: number[];
+}
+
+export interface VehicleClassConfig {
+  id: number;
+  name: string;
+  type: VehicleType;     // Drives emissions and export codes; trucks and buses count as heavy
+  shareWithinGroup: number; // Relative weight within the light or heavy group (truckRatio splits the groups)
+  color: string | null;  // null = shade by desired speed
+  width: number;         // m
+  length: Distribution;       // m
+  desiredSpeed: Distribution; // km/h
+  timeGap: Distribution;      // Factor on safeTimeGap (T)
+  accel: Distribution;        // Factor on maxAccel (a)
+  decel: Distribution;        // Factor on the model's deceleration (b)
+}
+
+export enum LaneChangeRules {
+  EUROPEAN = 'EUROPEAN',   // Keep right, no undertaking on the right (asymmetric MOBIL)
+  SYMMETRIC = 'SYMMETRIC'  // US rules: overtaking on either side, no lane preference
+}
+
+// MOBIL lane-changing (politeness p is a top-level config field)
+export interface LaneChangeParams {
+  rules: LaneChangeRules;
+  bias: number;      // Δa_bias (m/s^2): keep-right bias, European rules only
+  threshold: number; // Δa_th (m/s^2): minimum net advantage for a discretionary change
+  safeDecel: number; // b_safe (m/s^2): largest deceleration a change may impose on the new follower
+}
+
+export interface IdmParams {
+  delta: number;        // Acceleration exponent
+  minGap: number;       // s0 (m)
+  comfortDecel: number; // b (m/s^2)
+}
+
+export interface GippsParams {
+  reactionTime: number; // tau (s)
+  decel: number;        // Own most severe braking (m/s^2)
+  leaderDecel: number;  // Leader's braking as estimated by the driver (m/s^2)
+}
+
+export interface OvmParams {
+  relaxationTime: number;  // tau (s)
+  transitionWidth: number; // Delta s (m) of the optimal velocity function
+  formFactor: number;      // beta (dimensionless)
+}
+
+export interface KraussParams {
+  reactionTime: number; // tau (s)
+  decel: number;        // b (m/s^2)
+  sigma: number;        // Driver imperfection (dawdling) 0-1
+}
+
+export interface AccParams {
+  coolness: number; // c: 0 = plain IDM, 1 = pure constant-acceleration heuristic
+  idmPlus: boolean; // Use IDM+ (min of free and interaction terms) as the underlying model
+}
+
+export interface AutomationParams {
+  accTimeGap: number;      // s: time gap of the on-board ACC when not connected
+  caccTimeGap: number;     // s: time gap inside a platoon (CACC)
+  commRange: number;       // m: V2V range within which a leader can be connected
+  maxPlatoonSize: number;  // Vehicles per platoon, including the lead
+}
+
+export interface Incident {
+  id: number;
+  position: number;  // m
+  lanes: number[];   // Blocked lanes (may be empty for a pure slowdown)
+  startTime: number; // s
+  duration: number;  // s
+  rubberneckSpeed: number | null; // km/h cap around the site (capacity reduction), null = none
+}
+
+export interface SpeedLimitZone {
+  id: number;
+  start: number; // m
+  end: number;   // m
+  limit: number; // km/h
+}
+
+// Variable speed limit controller driven by the loop detectors
+export interface VslConfig {
+  enabled: boolean;
+  triggerSpeed: number; // km/h: detector speed below which limits are posted
+  minLimit: number;     // km/h: lowest limit ever shown
+  zoneLength: number;   // m: length of each upstream stage
+  stages: number;       // Number of stepped zones upstream of the detector
+}
+
+export enum SignalPlanType {
+  FIXED = 'FIXED',       // Fixed-time: green, then red, repeating from the offset
+  ACTUATED = 'ACTUATED'  // Green held from the minimum while vehicles keep arriving (gap-out), up to a maximum
+}
+
+// Traffic signal: a stop line across the mainline, or a signal at an on-ramp's entry
+export interface SignalConfig {
+  id: number;
+  rampId: number | null; // On-ramp whose entry the signal controls, null = mainline
+  position: number;      // m: mainline stop line (unused for ramp signals)
+  plan: SignalPlanType;
+  green: number;         // s: green time (minimum green when actuated)
+  red: number;           // s
+  offset: number;        // s: start of the first green (fixed-time)
+  maxGreen: number;      // s: actuated
+  extension: number;     // s: actuated; green ends this long after the last detected vehicle
+}
+
+export enum RampMeterAlgorithm {
+  ALINEA = 'ALINEA',        // I-controller on downstream occupancy (Papageorgiou et al. 1991)
+  PI_ALINEA = 'PI_ALINEA'   // Adds a proportional term, for bottlenecks far downstream (Wang et al. 2014)
+}
+
+// Feedback ramp metering from a downstream detector; updated at the detector interval
+export interface RampMeterConfig {
+  id: number;
+  rampId: number;
+  detectorId: number;
+  algorithm: RampMeterAlgorithm;
+  targetOccupancy: number; // % (critical occupancy of the bottleneck)
+  gain: number;            // K_R: veh/h per % occupancy error
+  proportionalGain: number; // K_P: veh/h per % occupancy change (PI-ALINEA)
+  minRate: number;         // veh/h
+  maxRate: number;         // veh/h
+}
+
+export interface SignalState {
+  id: number;
+  green: boolean;
+  elapsed: number; // s in the current phase
+}
+
+export interface RampMeterSample {
+  time: number;
+  rate: number;             // veh/h
+  occupancy: number | null; // % measured downstream
+  queue: number;            // Vehicles waiting at the ramp entry
+}
+
+export interface RampMeterState {
+  id: number;
+  rampId: number;
+  rate: number;    // veh/h currently released
+  history: RampMeterSample[]; // One sample per control update
+}
+
+export interface ControlStats {
+  signals: SignalState[];
+  meters: RampMeterState[];
+  rampQueues: { rampId: number; queue: number }[]; // Controlled ramps only
+}
+
+// Acceleration lane joining the rightmost lane from the right
+export interface OnRampConfig {
+  id: number;
+  position: number;   // Start of the acceleration lane (m)
+  length: number;     // Acceleration lane length (m)
+  inflowRate: number; // veh/h
+}
+
+// Exit at a fixed position; vehicles must be in the rightmost lane to leave
+export interface OffRampConfig {
+  id: number;
+  position: number; // Diverge point (m)
+  share: number;    // 0-1 fraction of passing vehicles that exit here
+}
+
+export interface DetectorConfig {
+  id: number;
+  position: number; // m from upstream end
+  interval: number; // Aggregation interval (s)
+}
+
+export interface DetectorLaneData {
+  lane: number;           // Lane index, -1 for the cross-section total
+  count: number;          // Vehicles crossed during the interval
+  flow: number;           // veh/h
+  timeMeanSpeed: number;  // km/h (arithmetic mean of spot speeds)
+  spaceMeanSpeed: number; // km/h (harmonic mean of spot speeds)
+  occupancy: number;      // 0-1 fraction of time the loop was covered
+}
+
+export interface DetectorMeasurement {
+  detectorId: number;
+  position: number;
+  time: number; // Simulation time at the end of the interval (s)
+  interval: number;
+  lanes: DetectorLaneData[];
+  total: DetectorLaneData;
+}
+
+// Cell transmission model with a triangular fundamental diagram (per lane)
+export interface MacroConfig {
+  enabled: boolean;
+  cellLength: number; // m (rounded so that the cells tile the road)
+  freeSpeed: number;  // km/h (v_f)
+  capacity: number;   // veh/h/lane (q_max)
+  jamDensity: number; // veh/km/lane (k_j)
+}
+
+// Densities of both models averaged over one sample interval, per cell from upstream (veh/km/lane)
+export interface MacroSample {
+  time: number; // s, end of the interval
+  micro: number[];
+  macro: number[];
+}
+
+export interface MacroStats {
+  cellLength: number;   // m
+  samples: MacroSample[];
+  rmse: number;         // veh/km/lane over the kept samples
+  mae: number;
+  bias: number;         // Mean of macro - micro
+  microVehicles: number;
+  macroVehicles: number;
+  microTts: number;     // Total time spent over the kept samples (veh·h)
+  macroTts: number;
+  entryQueue: number;   // Vehicles held at the upstream boundary and on-ramps by the macroscopic model
+}
+
+// A jam is a stretch where the cross-lane mean speed stays below the threshold
+export interface JamDetectionConfig {
+  speedThreshold: number; // km/h
+  minLength: number;      // m
+}
+
+export enum JamEventType {
+  FORMED = 'FORMED',
+  DISSOLVED = 'DISSOLVED',
+  MERGED = 'MERGED', // Ran into another jam (relatedId), which carries on
+  SPLIT = 'SPLIT'    // Broke off from another jam (relatedId)
+}
+
+export interface Jam {
+  id: number;
+  upstream: number;   // m: tail, where vehicles join
+  downstream: number; // m: head, where vehicles leave (beyond roadLength when wrapping the ring)
+  length: number;     // m
+  maxLength: number;  // m
+  startTime: number;  // s
+  lifetime: number;   // s
+  vehicles: number;
+  meanSpeed: number;  // km/h
+  upstreamSpeed: number | null;   // km/h: front propagation (negative = against the traffic), null until known
+  downstreamSpeed: number | null; // km/h
+  dischargeRate: number | null;   // veh/h leaving the head (all lanes), mean over the jam's life
+}
+
+export interface JamEvent {
+  type: JamEventType;
+  time: number;     // s
+  position: number; // m: centre of the jam
+  jam: Jam;         // State at the event
+  relatedId: number | null;
+}
+
+export interface JamStats {
+  jams: Jam[];        // Currently tracked, upstream first
+  events: JamEvent[]; // Most recent first
+  formed: number;     // Jams since reset
+}